@@ -0,0 +1,265 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Server configuration. Values are resolved in order of precedence:
+// environment variables, then the JSON config file, then these defaults.
+const DEFAULTS = {
+  modelProvider: {
+    type: 'ollama', // 'ollama' or 'openai' (any OpenAI-compatible server: llama.cpp, vLLM, ...)
+    baseURL: 'http://localhost:11434',
+    apiKey: null,
+    healthTimeout: 5000
+  },
+  models: {
+    vision: {
+      name: 'qwen2.5vl:7b',
+      temperature: 0.1, // Low temperature for faithful extraction
+      topP: 0.9,
+      topK: 40,
+      timeout: 180000,
+      concurrency: 2 // Requests sent to the model at once, e.g. pages of a document
+    },
+    reasoning: {
+      name: 'deepseek-r1:8b',
+      temperature: 0.3,
+      topP: 0.9,
+      topK: 40,
+      timeout: 180000, // 3 minutes, reasoning models think for a while
+      concurrency: 1
+    }
+  },
+  modelRetries: {
+    maxRetries: 3, // Retries of a request that timed out or hit a network or server error
+    initialDelayMs: 2000, // Backoff before the first retry, doubled for each one after
+    maxDelayMs: 30000
+  },
+  structuredOutput: {
+    maxAttempts: 3 // Initial request plus re-asks when the response fails schema validation
+  },
+  classification: {
+    minConfidence: 60 // Below this, documents use the generic extraction prompt
+  },
+  textExtraction: {
+    enabled: true, // Read embedded PDF text before rasterizing pages
+    minCharactersPerPage: 50 // Pages with less text (e.g. scans) are rasterized for the vision model
+  },
+  pagePreviews: {
+    enabled: true // Keep page images for the session so reviewers can check figures against the source
+  },
+  extractionCache: {
+    enabled: true // Reuse extractions of pages seen before instead of sending them to the model again
+  },
+  currency: {
+    baseCurrency: 'USD', // Amounts of every document are converted to this currency for scoring
+    ratesFile: 'exchange-rates.json' // Dated rates to the base currency; relative to the server directory
+  },
+  uploads: {
+    retentionHours: 24, // Uploads and temp files older than this are deleted unless a job still uses them
+    sweepIntervalMinutes: 15 // How often to look for them; 0 disables the sweeper
+  },
+  reconciliation: {
+    incomeTolerance: 0.25, // Max relative difference between bank inflows and reported revenue
+    nameMatchThreshold: 0.5 // Min token overlap (0-1) for two names to refer to the same party
+  },
+  affordability: {
+    maxDebtToIncome: 0.4, // Individuals: max share of gross monthly income going to debt payments
+    minDebtServiceCoverage: 1.25, // Businesses: min cash available for debt service over debt service
+    defaultInterestRate: 15 // Annual %, for the installment when no rate has been recommended
+  },
+  scoring: {
+    mode: 'llm', // 'llm' (reasoning model, scorecard as fallback) or 'scorecard' (deterministic only)
+    scorecardFile: 'scorecards/default.json' // Relative to the server directory
+  },
+  modelCallLog: {
+    enabled: true // Keep full prompts and raw responses of every model call, per run
+  },
+  pii: {
+    maskLogs: true, // Mask account numbers, card numbers, tax IDs and addresses in server logs
+    maskResponses: true, // Mask PII in API responses for callers whose role lacks the view_pii permission
+    tokenizePrompts: false // Replace PII with placeholders before it reaches the reasoning model
+  },
+  auth: {
+    enabled: true, // Require sign-in or an API key for every route except login and basic health
+    tokenSecret: null, // HMAC secret for session tokens; random per process when unset
+    tokenTtlHours: 12,
+    apiKeys: [], // [{ name, key, role }] for system-to-system callers
+    bootstrapAdmin: {
+      username: null, // Admin account created on startup when no users exist
+      password: null
+    }
+  },
+  cors: {
+    allowedOrigins: ['http://localhost:5173'] // Browser origins allowed to call the API; '*' allows any
+  }
+};
+
+const CONFIG_FILE = process.env.CONFIG_FILE || path.join(__dirname, 'config.json');
+
+function readConfigFile(filePath) {
+  if (!fs.pathExistsSync(filePath)) {
+    return {};
+  }
+
+  try {
+    return fs.readJsonSync(filePath);
+  } catch (error) {
+    throw new Error(`Invalid config file ${filePath}: ${error.message}`);
+  }
+}
+
+function deepMerge(target, source) {
+  const result = { ...target };
+  for (const [key, value] of Object.entries(source || {})) {
+    if (value && typeof value === 'object' && !Array.isArray(value) && typeof target[key] === 'object' && target[key] !== null) {
+      result[key] = deepMerge(target[key], value);
+    } else if (value !== undefined) {
+      result[key] = value;
+    }
+  }
+  return result;
+}
+
+function numberFromEnv(name) {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') {
+    return undefined;
+  }
+
+  const value = Number(raw);
+  if (Number.isNaN(value)) {
+    throw new Error(`Environment variable ${name} must be a number, got "${raw}"`);
+  }
+  return value;
+}
+
+function booleanFromEnv(name) {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') {
+    return undefined;
+  }
+
+  if (!['true', 'false'].includes(raw)) {
+    throw new Error(`Environment variable ${name} must be "true" or "false", got "${raw}"`);
+  }
+  return raw === 'true';
+}
+
+function listFromEnv(name) {
+  const raw = process.env[name];
+  if (raw === undefined || raw === '') {
+    return undefined;
+  }
+  return raw.split(',').map(item => item.trim()).filter(Boolean);
+}
+
+// "name:role:key,..." -> [{ name, role, key }]
+function apiKeysFromEnv(name) {
+  return listFromEnv(name)?.map(entry => {
+    const [keyName, role, ...key] = entry.split(':');
+    if (!keyName || !role || key.length === 0) {
+      throw new Error(`Environment variable ${name} entries must look like "name:role:key", got "${entry}"`);
+    }
+    return { name: keyName, role, key: key.join(':') };
+  });
+}
+
+function configFromEnv() {
+  const env = process.env;
+  return {
+    modelProvider: {
+      type: env.MODEL_PROVIDER,
+      baseURL: env.MODEL_BASE_URL || env.OLLAMA_BASE_URL,
+      apiKey: env.MODEL_API_KEY
+    },
+    models: {
+      vision: {
+        name: env.VISION_MODEL,
+        temperature: numberFromEnv('VISION_TEMPERATURE'),
+        timeout: numberFromEnv('VISION_TIMEOUT_MS'),
+        concurrency: numberFromEnv('VISION_CONCURRENCY')
+      },
+      reasoning: {
+        name: env.REASONING_MODEL,
+        temperature: numberFromEnv('REASONING_TEMPERATURE'),
+        timeout: numberFromEnv('REASONING_TIMEOUT_MS'),
+        concurrency: numberFromEnv('REASONING_CONCURRENCY')
+      }
+    },
+    modelRetries: {
+      maxRetries: numberFromEnv('MODEL_MAX_RETRIES'),
+      initialDelayMs: numberFromEnv('MODEL_RETRY_INITIAL_DELAY_MS'),
+      maxDelayMs: numberFromEnv('MODEL_RETRY_MAX_DELAY_MS')
+    },
+    structuredOutput: {
+      maxAttempts: numberFromEnv('STRUCTURED_OUTPUT_MAX_ATTEMPTS')
+    },
+    classification: {
+      minConfidence: numberFromEnv('CLASSIFICATION_MIN_CONFIDENCE')
+    },
+    textExtraction: {
+      enabled: booleanFromEnv('TEXT_EXTRACTION_ENABLED'),
+      minCharactersPerPage: numberFromEnv('TEXT_EXTRACTION_MIN_CHARS')
+    },
+    pagePreviews: {
+      enabled: booleanFromEnv('PAGE_PREVIEWS_ENABLED')
+    },
+    extractionCache: {
+      enabled: booleanFromEnv('EXTRACTION_CACHE_ENABLED')
+    },
+    currency: {
+      baseCurrency: env.BASE_CURRENCY,
+      ratesFile: env.CURRENCY_RATES_FILE
+    },
+    uploads: {
+      retentionHours: numberFromEnv('UPLOAD_RETENTION_HOURS'),
+      sweepIntervalMinutes: numberFromEnv('UPLOAD_SWEEP_INTERVAL_MINUTES')
+    },
+    reconciliation: {
+      incomeTolerance: numberFromEnv('RECONCILIATION_INCOME_TOLERANCE'),
+      nameMatchThreshold: numberFromEnv('RECONCILIATION_NAME_THRESHOLD')
+    },
+    affordability: {
+      maxDebtToIncome: numberFromEnv('AFFORDABILITY_MAX_DTI'),
+      minDebtServiceCoverage: numberFromEnv('AFFORDABILITY_MIN_DSCR'),
+      defaultInterestRate: numberFromEnv('AFFORDABILITY_DEFAULT_RATE')
+    },
+    scoring: {
+      mode: env.SCORING_MODE,
+      scorecardFile: env.SCORECARD_FILE
+    },
+    modelCallLog: {
+      enabled: booleanFromEnv('MODEL_CALL_LOG_ENABLED')
+    },
+    pii: {
+      maskLogs: booleanFromEnv('PII_MASK_LOGS'),
+      maskResponses: booleanFromEnv('PII_MASK_RESPONSES'),
+      tokenizePrompts: booleanFromEnv('PII_TOKENIZE_PROMPTS')
+    },
+    auth: {
+      enabled: booleanFromEnv('AUTH_ENABLED'),
+      tokenSecret: env.AUTH_TOKEN_SECRET,
+      tokenTtlHours: numberFromEnv('AUTH_TOKEN_TTL_HOURS'),
+      apiKeys: apiKeysFromEnv('AUTH_API_KEYS'),
+      bootstrapAdmin: {
+        username: env.AUTH_ADMIN_USERNAME,
+        password: env.AUTH_ADMIN_PASSWORD
+      }
+    },
+    cors: {
+      allowedOrigins: listFromEnv('CORS_ALLOWED_ORIGINS')
+    }
+  };
+}
+
+export function loadConfig() {
+  const loaded = deepMerge(deepMerge(DEFAULTS, readConfigFile(CONFIG_FILE)), configFromEnv());
+  loaded.scoring.scorecardFile = path.resolve(__dirname, loaded.scoring.scorecardFile);
+  loaded.currency.ratesFile = path.resolve(__dirname, loaded.currency.ratesFile);
+  return loaded;
+}
+
+export const config = loadConfig();
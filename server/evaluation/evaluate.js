@@ -0,0 +1,377 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { parseArgs } from 'util';
+import { fileURLToPath } from 'url';
+import { v4 as uuidv4 } from 'uuid';
+import { processDocuments } from '../services/documentProcessor.js';
+import { analyzeCredit, SCORING_MODES } from '../services/creditAnalyzer.js';
+import { validateLoanRequest } from '../services/affordability.js';
+import { ollamaClient } from '../services/ollamaClient.js';
+import { extractionCache } from '../services/extractionCache.js';
+import { modelCallLog } from '../services/modelCallLog.js';
+import { ALLOWED_MIMETYPES, sniffMimetype } from '../services/uploadGuard.js';
+import { RecordingProvider, ReplayProvider, readRecordings, writeRecordings } from './recordedProvider.js';
+import { compareField, valueAtPath, summarizeFields, summarizeClassification, summarizeScores, summarizeTiming } from './metrics.js';
+import { config } from '../config.js';
+
+// Offline evaluation of extraction and scoring against a golden suite: a
+// folder per case with sample documents, their expected values in
+// expected.json and the model's recorded responses in recordings.json.
+//
+//   node server/evaluation/evaluate.js [--mode replay|live|record] [--suite dir]
+//     [--case name] [--baseline report.json] [--out report.json] [--tolerance 0.01]
+//     [--min-field-accuracy 0.9] [--min-classification-accuracy 0.9] [--max-score-drift 25]
+//
+// replay (default) answers model calls from the recordings, so no model is
+// needed; live calls the configured model provider; record does the same and
+// saves its responses as the case's new recordings.
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+const MODES = ['replay', 'live', 'record'];
+const EXPECTED_FILE = 'expected.json';
+const RECORDINGS_FILE = 'recordings.json';
+
+const USAGE = `Usage: node server/evaluation/evaluate.js [options]
+  --mode <${MODES.join('|')}>        Where model responses come from (default replay)
+  --suite <dir>                      Golden suite folder (default server/evaluation/golden)
+  --case <name>                      Only run this case
+  --baseline <report.json>           Earlier report to measure score drift against
+  --out <report.json>                Write the full report here
+  --tolerance <fraction>             Relative error allowed for numeric fields (default 0.01)
+  --min-field-accuracy <fraction>    Fail below this field accuracy
+  --min-classification-accuracy <fraction>
+                                     Fail below this classification accuracy
+  --max-score-drift <points>         Fail when a case's score moved more than this
+  --verbose                          Keep the pipeline's own log output`;
+
+async function main() {
+  const { values: options } = parseArgs({
+    options: {
+      mode: { type: 'string', default: 'replay' },
+      suite: { type: 'string', default: path.join(__dirname, 'golden') },
+      case: { type: 'string' },
+      baseline: { type: 'string' },
+      out: { type: 'string' },
+      tolerance: { type: 'string', default: '0.01' },
+      'min-field-accuracy': { type: 'string' },
+      'min-classification-accuracy': { type: 'string' },
+      'max-score-drift': { type: 'string' },
+      verbose: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false }
+    }
+  });
+
+  if (options.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (!MODES.includes(options.mode)) {
+    throw new Error(`Unknown mode "${options.mode}". Use one of: ${MODES.join(', ')}`);
+  }
+
+  const tolerance = numberOption(options, 'tolerance');
+  const baseline = options.baseline ? await fs.readJson(options.baseline) : null;
+  const caseNames = await listCases(options.suite, options.case);
+
+  // Evaluations measure the model, not the cache, and leave nothing behind
+  extractionCache.enabled = false;
+  modelCallLog.enabled = false;
+  config.pagePreviews.enabled = false;
+
+  const provider = options.mode === 'replay'
+    ? new ReplayProvider()
+    : options.mode === 'record' ? new RecordingProvider(ollamaClient.provider) : ollamaClient.provider;
+  ollamaClient.provider = provider;
+
+  const cases = [];
+  for (const name of caseNames) {
+    const caseDir = path.join(options.suite, name);
+    if (provider instanceof ReplayProvider) {
+      provider.load(await readRecordings(path.join(caseDir, RECORDINGS_FILE)));
+    }
+
+    const result = await quietly(!options.verbose, () => runCase(name, caseDir, tolerance));
+    if (provider instanceof ReplayProvider) {
+      result.replay = { ...provider.stats };
+    }
+    if (provider instanceof RecordingProvider) {
+      const calls = provider.take();
+      await writeRecordings(path.join(caseDir, RECORDINGS_FILE), calls);
+      result.recordedCalls = calls.length;
+    }
+
+    cases.push(result);
+    console.log(describeCase(result));
+  }
+
+  const report = {
+    generatedAt: new Date().toISOString(),
+    mode: options.mode,
+    suite: path.resolve(options.suite),
+    models: {
+      extractionModel: ollamaClient.visionModel,
+      analysisModel: ollamaClient.reasoningModel,
+      provider: options.mode === 'replay' ? 'replay' : ollamaClient.providerConfig.type
+    },
+    tolerance,
+    fields: summarizeFields(cases.flatMap(c => c.fieldComparisons)),
+    classification: summarizeClassification(cases.flatMap(c => c.classifications)),
+    scores: summarizeScores(cases, baseline),
+    timing: summarizeTiming(cases),
+    cases: cases.map(({ fieldComparisons, classifications, ...rest }) => rest)
+  };
+
+  if (options.out) {
+    await fs.writeJson(options.out, report, { spaces: 2 });
+  }
+
+  console.log(`\n${describeReport(report)}`);
+
+  const failures = thresholdFailures(report, cases, {
+    minFieldAccuracy: numberOption(options, 'min-field-accuracy'),
+    minClassificationAccuracy: numberOption(options, 'min-classification-accuracy'),
+    maxScoreDrift: numberOption(options, 'max-score-drift')
+  });
+  failures.forEach(failure => console.error(`FAIL: ${failure}`));
+  return failures.length > 0 ? 1 : 0;
+}
+
+// Cases are the suite's subfolders that have an expected.json
+async function listCases(suiteDir, only) {
+  if (!(await fs.pathExists(suiteDir))) {
+    throw new Error(`Suite folder ${suiteDir} not found`);
+  }
+
+  const entries = await fs.readdir(suiteDir, { withFileTypes: true });
+  const names = [];
+  for (const entry of entries.filter(e => e.isDirectory()).sort((a, b) => a.name.localeCompare(b.name))) {
+    if (await fs.pathExists(path.join(suiteDir, entry.name, EXPECTED_FILE))) {
+      names.push(entry.name);
+    }
+  }
+
+  if (only) {
+    if (!names.includes(only)) {
+      throw new Error(`Case "${only}" not found in ${suiteDir}`);
+    }
+    return [only];
+  }
+  if (names.length === 0) {
+    throw new Error(`No cases with an ${EXPECTED_FILE} in ${suiteDir}`);
+  }
+  return names;
+}
+
+// Documents are processed as if uploaded without a type, so classification is evaluated too
+async function runCase(name, caseDir, defaultTolerance) {
+  const expected = await fs.readJson(path.join(caseDir, EXPECTED_FILE));
+  const tolerance = expected.tolerance ?? defaultTolerance;
+  const files = [];
+  for (const fileName of Object.keys(expected.documents || {})) {
+    const filePath = path.join(caseDir, fileName);
+    if (!(await fs.pathExists(filePath))) {
+      throw new Error(`${name}: ${fileName} is listed in ${EXPECTED_FILE} but missing`);
+    }
+    const mimetype = await sniffMimetype(filePath);
+    if (!ALLOWED_MIMETYPES.includes(mimetype)) {
+      throw new Error(`${name}: ${fileName} is not a PDF, JPEG or PNG`);
+    }
+    files.push({ id: uuidv4(), originalName: fileName, path: filePath, mimetype, size: (await fs.stat(filePath)).size });
+  }
+
+  const startedAt = Date.now();
+  const results = await processDocuments(files);
+  const extractedAt = Date.now();
+
+  let analysis = null;
+  let analysisError = null;
+  try {
+    analysis = await analyzeCredit(results, {
+      scoringMode: SCORING_MODES.includes(expected.scoringMode) ? expected.scoringMode : undefined,
+      loanRequest: expected.loanRequest ? validateLoanRequest(expected.loanRequest) : null
+    });
+  } catch (error) {
+    analysisError = error.message;
+  }
+  const finishedAt = Date.now();
+
+  const fieldComparisons = [];
+  const classifications = [];
+  const documents = results.map(result => {
+    const documentExpected = expected.documents[result.fileName] || {};
+    const detectedType = result.classification?.documentType ?? result.extractedData.documentType;
+    if (documentExpected.documentType) {
+      classifications.push({
+        caseName: name,
+        document: result.fileName,
+        expected: documentExpected.documentType,
+        actual: detectedType,
+        confidence: result.classification?.confidence ?? null
+      });
+    }
+
+    for (const [field, value] of Object.entries(documentExpected.fields || {})) {
+      const actual = valueAtPath(result.extractedData, field);
+      fieldComparisons.push({
+        caseName: name,
+        document: result.fileName,
+        field,
+        expected: value,
+        actual,
+        ...compareField(value, actual, tolerance)
+      });
+    }
+
+    return {
+      fileName: result.fileName,
+      documentType: result.extractedData.documentType,
+      detectedType,
+      error: result.error ?? null,
+      pageCount: result.pageCount ?? result.imageCount ?? null,
+      processingTime: result.processingTime
+    };
+  });
+
+  const recommendation = analysis?.recommendation;
+  return {
+    name,
+    description: expected.description ?? null,
+    documents,
+    decision: recommendation
+      ? {
+        score: recommendation.score,
+        rating: recommendation.rating,
+        riskLevel: analysis.overallRisk,
+        maxCreditLimit: recommendation.maxCreditLimit,
+        interestRate: recommendation.interestRate,
+        scorecardScore: analysis.scorecard?.score ?? null,
+        affordableAmount: recommendation.affordability?.recommendedAmount ?? null
+      }
+      : null,
+    analysisError,
+    fieldAccuracy: fieldComparisons.length > 0
+      ? Math.round((fieldComparisons.filter(c => c.match).length / fieldComparisons.length) * 1000) / 1000
+      : null,
+    timing: {
+      totalMs: finishedAt - startedAt,
+      extractionMs: extractedAt - startedAt,
+      analysisMs: finishedAt - extractedAt
+    },
+    fieldComparisons,
+    classifications
+  };
+}
+
+function thresholdFailures(report, cases, { minFieldAccuracy, minClassificationAccuracy, maxScoreDrift }) {
+  const failures = [];
+  for (const c of cases) {
+    if (c.analysisError) {
+      failures.push(`${c.name}: analysis failed: ${c.analysisError}`);
+    }
+    for (const document of c.documents.filter(d => d.error)) {
+      failures.push(`${c.name}: ${document.fileName} failed: ${document.error}`);
+    }
+    if (c.replay?.missing > 0) {
+      failures.push(`${c.name}: ${c.replay.missing} model call(s) had no recorded response`);
+    }
+  }
+  if (minFieldAccuracy !== undefined && report.fields.accuracy !== null && report.fields.accuracy < minFieldAccuracy) {
+    failures.push(`field accuracy ${report.fields.accuracy} is below ${minFieldAccuracy}`);
+  }
+  if (minClassificationAccuracy !== undefined && report.classification.accuracy !== null &&
+      report.classification.accuracy < minClassificationAccuracy) {
+    failures.push(`classification accuracy ${report.classification.accuracy} is below ${minClassificationAccuracy}`);
+  }
+  if (maxScoreDrift !== undefined) {
+    for (const row of report.scores.cases.filter(r => r.drift !== null && Math.abs(r.drift) > maxScoreDrift)) {
+      failures.push(`${row.caseName}: score moved ${row.drift} points from the baseline`);
+    }
+  }
+  return failures;
+}
+
+function describeCase(result) {
+  const parts = [
+    result.fieldAccuracy !== null ? `fields ${formatPercent(result.fieldAccuracy)}` : 'no expected fields',
+    result.decision ? `score ${result.decision.score} (${result.decision.rating})` : `analysis failed (${result.analysisError})`,
+    `${result.timing.totalMs} ms`
+  ];
+  if (result.replay) {
+    parts.push(`replayed ${result.replay.exact} exact, ${result.replay.byOrder} by order, ${result.replay.missing} missing`);
+  }
+  if (result.recordedCalls !== undefined) {
+    parts.push(`recorded ${result.recordedCalls} call(s)`);
+  }
+  return `${result.name}: ${parts.join(' · ')}`;
+}
+
+function describeReport(report) {
+  const { fields, classification, scores, timing } = report;
+  const lines = [
+    `Evaluation (${report.mode}, ${report.cases.length} case(s), ${report.models.extractionModel} / ${report.models.analysisModel})`,
+    `  Field accuracy: ${formatPercent(fields.accuracy)} (${fields.matched}/${fields.total})`,
+    `  Numeric error: mean ${formatValue(fields.numeric.meanAbsolutePercentageError, '%')}, ` +
+      `max ${formatValue(fields.numeric.maxAbsolutePercentageError, '%')} over ${fields.numeric.compared} field(s)` +
+      (fields.numeric.unreadable > 0 ? `, ${fields.numeric.unreadable} not read` : ''),
+    `  Classification accuracy: ${formatPercent(classification.accuracy)} (${classification.correct}/${classification.total})`,
+    scores.baseline
+      ? `  Score drift vs baseline: mean ${formatValue(scores.meanAbsoluteDrift)}, max ${formatValue(scores.maxAbsoluteDrift)} ` +
+        `over ${scores.compared} case(s), ${scores.ratingChanges} rating change(s)`
+      : '  Score drift: no baseline given',
+    `  Timing: ${timing.totalMs} ms total (extraction ${timing.extractionMs} ms, analysis ${timing.analysisMs} ms), ` +
+      `${formatValue(timing.averageDocumentSeconds, ' s')} per document`
+  ];
+
+  for (const mismatch of fields.mismatches) {
+    lines.push(`  ✗ ${mismatch.caseName}/${mismatch.document} ${mismatch.field}: expected ${JSON.stringify(mismatch.expected)}, ` +
+      `got ${JSON.stringify(mismatch.actual)}`);
+  }
+  for (const mismatch of classification.mismatches) {
+    lines.push(`  ✗ ${mismatch.caseName}/${mismatch.document} classified as ${mismatch.actual}, expected ${mismatch.expected}`);
+  }
+  return lines.join('\n');
+}
+
+// The pipeline logs every step; the report is easier to read without it
+async function quietly(enabled, fn) {
+  if (!enabled) {
+    return fn();
+  }
+
+  const { log, warn } = console;
+  console.log = () => {};
+  console.warn = () => {};
+  try {
+    return await fn();
+  } finally {
+    console.log = log;
+    console.warn = warn;
+  }
+}
+
+function numberOption(options, name) {
+  if (options[name] === undefined) {
+    return undefined;
+  }
+  const value = Number(options[name]);
+  if (Number.isNaN(value)) {
+    throw new Error(`--${name} must be a number, got "${options[name]}"`);
+  }
+  return value;
+}
+
+function formatPercent(value) {
+  return value === null ? '-' : `${Math.round(value * 1000) / 10}%`;
+}
+
+function formatValue(value, unit = '') {
+  return value === null ? '-' : `${value}${unit}`;
+}
+
+main()
+  .then(code => process.exit(code))
+  .catch(error => {
+    console.error(error.message);
+    process.exit(2);
+  });
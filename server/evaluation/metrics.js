@@ -0,0 +1,121 @@
+import { isDeepStrictEqual } from 'util';
+
+// Comparisons of evaluation results with the expected values of a golden
+// suite, and the aggregate figures of the accuracy report.
+
+// Value at a dotted path such as "keyInformation.accountHolder" or "payslips.0.grossPay"
+export function valueAtPath(object, fieldPath) {
+  return fieldPath.split('.').reduce((value, key) => (value === null || value === undefined ? undefined : value[key]), object);
+}
+
+// Numbers match within a relative tolerance, strings ignoring case and
+// spacing, anything else exactly. Numeric comparisons carry their error.
+export function compareField(expected, actual, tolerance) {
+  if (typeof expected === 'number') {
+    if (typeof actual !== 'number' || !Number.isFinite(actual)) {
+      return { match: false, numeric: true, absoluteError: null, relativeError: null };
+    }
+    const absoluteError = Math.abs(actual - expected);
+    const relativeError = expected !== 0 ? absoluteError / Math.abs(expected) : absoluteError === 0 ? 0 : 1;
+    return { match: relativeError <= tolerance, numeric: true, absoluteError, relativeError };
+  }
+
+  if (typeof expected === 'string') {
+    return { match: typeof actual === 'string' && normalizeText(actual) === normalizeText(expected), numeric: false };
+  }
+
+  if (expected === null) {
+    return { match: actual === null || actual === undefined, numeric: false };
+  }
+
+  return { match: isDeepStrictEqual(expected, actual), numeric: false };
+}
+
+// Field accuracy and numeric error of every expected field of every document
+export function summarizeFields(comparisons) {
+  const numeric = comparisons.filter(c => c.numeric && c.relativeError !== null);
+  const matched = comparisons.filter(c => c.match).length;
+
+  return {
+    total: comparisons.length,
+    matched,
+    accuracy: ratio(matched, comparisons.length),
+    numeric: {
+      compared: numeric.length,
+      unreadable: comparisons.filter(c => c.numeric && c.relativeError === null).length,
+      meanAbsolutePercentageError: numeric.length > 0
+        ? round((numeric.reduce((sum, c) => sum + c.relativeError, 0) / numeric.length) * 100)
+        : null,
+      maxAbsolutePercentageError: numeric.length > 0 ? round(Math.max(...numeric.map(c => c.relativeError)) * 100) : null
+    },
+    mismatches: comparisons
+      .filter(c => !c.match)
+      .map(({ caseName, document, field, expected, actual }) => ({ caseName, document, field, expected, actual: actual ?? null }))
+  };
+}
+
+export function summarizeClassification(classifications) {
+  const correct = classifications.filter(c => c.expected === c.actual).length;
+  return {
+    total: classifications.length,
+    correct,
+    accuracy: ratio(correct, classifications.length),
+    mismatches: classifications.filter(c => c.expected !== c.actual)
+  };
+}
+
+// Score of every case against the same case in a baseline report
+export function summarizeScores(cases, baseline) {
+  const baselineScores = new Map((baseline?.cases || []).map(c => [c.name, c.decision]));
+  const rows = cases.map(c => {
+    const before = baselineScores.get(c.name);
+    const drift = before && typeof before.score === 'number' && typeof c.decision?.score === 'number'
+      ? c.decision.score - before.score
+      : null;
+    return {
+      caseName: c.name,
+      score: c.decision?.score ?? null,
+      baselineScore: before?.score ?? null,
+      drift,
+      rating: c.decision?.rating ?? null,
+      baselineRating: before?.rating ?? null,
+      ratingChanged: Boolean(before && c.decision && before.rating !== c.decision.rating)
+    };
+  });
+  const drifts = rows.map(row => row.drift).filter(drift => drift !== null);
+
+  return {
+    baseline: baseline ? { generatedAt: baseline.generatedAt ?? null, mode: baseline.mode ?? null } : null,
+    compared: drifts.length,
+    meanAbsoluteDrift: drifts.length > 0 ? round(drifts.reduce((sum, d) => sum + Math.abs(d), 0) / drifts.length) : null,
+    maxAbsoluteDrift: drifts.length > 0 ? Math.max(...drifts.map(Math.abs)) : null,
+    ratingChanges: rows.filter(row => row.ratingChanged).length,
+    cases: rows
+  };
+}
+
+export function summarizeTiming(cases) {
+  const documents = cases.flatMap(c => c.documents);
+  const total = key => cases.reduce((sum, c) => sum + c.timing[key], 0);
+  return {
+    totalMs: total('totalMs'),
+    extractionMs: total('extractionMs'),
+    analysisMs: total('analysisMs'),
+    averageCaseMs: cases.length > 0 ? Math.round(total('totalMs') / cases.length) : null,
+    averageDocumentSeconds: documents.length > 0
+      ? round(documents.reduce((sum, d) => sum + (d.processingTime || 0), 0) / documents.length)
+      : null
+  };
+}
+
+function normalizeText(value) {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function ratio(part, whole) {
+  return whole > 0 ? round(part / whole) : null;
+}
+
+function round(value) {
+  return Math.round(value * 1000) / 1000;
+}
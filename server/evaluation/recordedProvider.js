@@ -0,0 +1,109 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+
+// Model providers for the evaluation harness. RecordingProvider passes calls
+// through to a real provider and keeps every response; ReplayProvider answers
+// from those recordings, so evaluations run without a model (e.g. in CI).
+//
+// Calls are matched by a hash of the model, prompt and image. Prompts to the
+// reasoning model also carry run-specific values (processing times, dates in
+// risk factors), so a call without an exact match gets the next unused
+// recording of the same model and input kind, in recording order.
+
+const RECORDINGS_FORMAT_VERSION = 1;
+
+export function callKey({ model, prompt, imageBase64 }) {
+  return crypto.createHash('sha256').update(JSON.stringify([model, prompt, imageBase64 || null])).digest('hex');
+}
+
+export async function readRecordings(filePath) {
+  if (!(await fs.pathExists(filePath))) {
+    return [];
+  }
+  const recordings = await fs.readJson(filePath);
+  if (recordings.formatVersion !== RECORDINGS_FORMAT_VERSION) {
+    throw new Error(`Unsupported recordings format in ${filePath}: ${recordings.formatVersion}`);
+  }
+  return recordings.calls;
+}
+
+export async function writeRecordings(filePath, calls) {
+  await fs.writeJson(filePath, {
+    formatVersion: RECORDINGS_FORMAT_VERSION,
+    recordedAt: new Date().toISOString(),
+    calls
+  }, { spaces: 2 });
+}
+
+export class RecordingProvider {
+  constructor(provider) {
+    this.provider = provider;
+    this.type = provider.type;
+    this.baseURL = provider.baseURL;
+    this.calls = [];
+  }
+
+  async generate(request) {
+    const response = await this.provider.generate(request);
+    this.calls.push({
+      key: callKey(request),
+      model: request.model,
+      withImage: Boolean(request.imageBase64),
+      // For people reading the file; matching only uses the key
+      promptStart: request.prompt.trim().slice(0, 120),
+      response
+    });
+    return response;
+  }
+
+  listModels() {
+    return this.provider.listModels();
+  }
+
+  // Calls recorded since the last take, e.g. those of one evaluation case
+  take() {
+    const calls = this.calls;
+    this.calls = [];
+    return calls;
+  }
+}
+
+export class ReplayProvider {
+  constructor() {
+    this.type = 'replay';
+    this.baseURL = null;
+    this.load([]);
+  }
+
+  // Recordings of the next evaluation case; unused ones of the previous case are dropped
+  load(calls) {
+    this.calls = calls.map(call => ({ ...call, used: false }));
+    this.stats = { exact: 0, byOrder: 0, missing: 0 };
+  }
+
+  async generate(request) {
+    const key = callKey(request);
+    const withImage = Boolean(request.imageBase64);
+    let call = this.calls.find(c => !c.used && c.key === key);
+    if (call) {
+      this.stats.exact++;
+    } else {
+      call = this.calls.find(c => !c.used && c.model === request.model && c.withImage === withImage);
+      if (call) {
+        this.stats.byOrder++;
+      }
+    }
+
+    if (!call) {
+      this.stats.missing++;
+      throw new Error(`No recorded response for this ${request.model} call; run the evaluation with --mode record`);
+    }
+
+    call.used = true;
+    return call.response;
+  }
+
+  async listModels() {
+    return [...new Set(this.calls.map(call => call.model))];
+  }
+}
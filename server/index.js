@@ -3,26 +3,64 @@ import cors from 'cors';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs-extra';
-import { v4 as uuidv4 } from 'uuid';
+import { v4 as uuidv4, validate as isUuid } from 'uuid';
 import { fileURLToPath } from 'url';
-import { processDocuments } from './services/documentProcessor.js';
-import { analyzeCredit } from './services/creditAnalyzer.js';
+import { jobQueue } from './services/jobQueue.js';
+import { classifyDocuments } from './services/documentProcessor.js';
+import { DOCUMENT_TYPES } from './services/extractionSchemas.js';
+import { applicationStore, summarizeApplication } from './services/applicationStore.js';
 import { ollamaClient } from './services/ollamaClient.js';
+import { SCORING_MODES } from './services/creditAnalyzer.js';
+import { loadScorecard } from './services/scorecard.js';
+import { LoanRequestError, validateLoanRequest } from './services/affordability.js';
+import { ReviewError, reviewOf, overrideField, changeStatus, allowedTransitions } from './services/reviewWorkflow.js';
+import { modelCallLog, withModelCallContext } from './services/modelCallLog.js';
+import { pagePreviewPath, removePagePreviews, clearPagePreviews } from './services/pagePreviews.js';
+import { MEMO_FORMATS, buildCreditMemo, creditMemoFileName, renderCreditMemoPdf } from './services/creditMemo.js';
+import { installLogMasking, piiAccess, maskPii } from './services/pii.js';
+import { AuthError, authenticate, requirePermission, hasPermission, permissionsOf, login, ensureBootstrapAdmin } from './services/auth.js';
+import { userStore, UserError } from './services/userStore.js';
+import { ALLOWED_MIMETYPES, UploadError, inspectUpload, normalizeMimetype, sniffMimetype } from './services/uploadGuard.js';
+import { checkPdfPassword } from './services/pdfTextExtractor.js';
+import { extractionCache } from './services/extractionCache.js';
+import { UploadSweeper } from './services/uploadSweeper.js';
+import { config } from './config.js';
+
+installLogMasking();
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
 const app = express();
 const PORT = process.env.PORT || 3001;
+const HOST = process.env.HOST || '0.0.0.0';
 
 // Middleware
-app.use(cors());
+const { allowedOrigins } = config.cors;
+app.use(cors({ origin: allowedOrigins.includes('*') ? true : allowedOrigins }));
 app.use(express.json());
+app.use(authenticate);
+app.use(piiAccess);
 
 // Create uploads directory if it doesn't exist
 const uploadsDir = path.join(__dirname, 'uploads');
 await fs.ensureDir(uploadsDir);
 
+// Abandoned uploads and temp files of interrupted processing don't pile up
+const uploadSweeper = new UploadSweeper({
+  directories: [uploadsDir, path.join(__dirname, 'temp')],
+  retentionMs: config.uploads.retentionHours * 60 * 60 * 1000,
+  intervalMs: config.uploads.sweepIntervalMinutes * 60 * 1000,
+  isInUse: entryPath => jobQueue.isUsingPath(entryPath)
+});
+await uploadSweeper.sweep();
+uploadSweeper.start();
+
+// Page previews are kept for the session only
+await clearPagePreviews();
+
+await ensureBootstrapAdmin();
+
 // Configure multer for file uploads
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
@@ -34,14 +72,26 @@ const storage = multer.diskStorage({
   }
 });
 
+const MAX_FILES_PER_UPLOAD = 10;
+
 const upload = multer({
   storage,
+  // The declared type is only a first filter: content is checked once stored.
+  // Rejected files are reported per file rather than failing the whole upload.
   fileFilter: (req, file, cb) => {
-    const allowedTypes = ['application/pdf', 'image/jpeg', 'image/png', 'image/jpg'];
-    if (allowedTypes.includes(file.mimetype)) {
+    req.rejectedUploads = req.rejectedUploads || [];
+    file.uploadIndex = (req.uploadCount = (req.uploadCount || 0) + 1) - 1;
+
+    if (ALLOWED_MIMETYPES.includes(normalizeMimetype(file.mimetype))) {
       cb(null, true);
     } else {
-      cb(new Error('Invalid file type. Only PDF and image files are allowed.'));
+      req.rejectedUploads.push({
+        uploadIndex: file.uploadIndex,
+        originalName: file.originalname,
+        code: 'UNSUPPORTED_FILE_TYPE',
+        error: 'Only PDF, JPEG and PNG files are allowed.'
+      });
+      cb(null, false);
     }
   },
   limits: {
@@ -50,76 +100,223 @@ const upload = multer({
 });
 
 // Routes
-app.post('/api/upload', upload.array('documents', 10), async (req, res) => {
+// Sign in with a local account; returns a bearer token for the Authorization header
+app.post('/api/auth/login', async (req, res) => {
+  try {
+    const { username, password } = req.body;
+    res.json({ success: true, ...(await login(username, password)) });
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Login failed:', error);
+    res.status(500).json({ error: 'Login failed' });
+  }
+});
+
+// The signed-in caller and what their role allows; tells the client whether to show the login form
+app.get('/api/auth/me', (req, res) => {
+  res.json({
+    success: true,
+    authEnabled: config.auth.enabled,
+    user: req.user,
+    permissions: permissionsOf(req.user)
+  });
+});
+
+app.get('/api/users', requirePermission('admin'), async (req, res) => {
+  try {
+    res.json({ success: true, users: await userStore.list() });
+  } catch (error) {
+    console.error('Failed to list users:', error);
+    res.status(500).json({ error: 'Failed to load users' });
+  }
+});
+
+app.post('/api/users', requirePermission('admin'), async (req, res) => {
+  try {
+    const { username, password, role, displayName } = req.body;
+    const user = await userStore.create({ username, password, role, displayName });
+    res.status(201).json({ success: true, user });
+  } catch (error) {
+    if (error instanceof UserError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Failed to create user:', error);
+    res.status(500).json({ error: 'Failed to create user' });
+  }
+});
+
+app.delete('/api/users/:username', requirePermission('admin'), async (req, res) => {
+  try {
+    if (req.user && req.params.username.toLowerCase() === req.user.username) {
+      return res.status(400).json({ error: 'You cannot delete your own account' });
+    }
+
+    const deleted = await userStore.delete(req.params.username);
+    if (!deleted) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete user:', error);
+    res.status(500).json({ error: 'Failed to delete user' });
+  }
+});
+
+app.post('/api/upload', requirePermission('upload'), upload.array('documents', MAX_FILES_PER_UPLOAD), async (req, res) => {
+  const stored = req.files || [];
+
   try {
-    if (!req.files || req.files.length === 0) {
-      return res.status(400).json({ error: 'No files uploaded' });
+    const rejected = [...(req.rejectedUploads || [])];
+
+    if (stored.length === 0 && rejected.length === 0) {
+      return res.status(400).json({ error: 'No files uploaded', code: 'NO_FILES' });
     }
 
-    const uploadedFiles = req.files.map(file => ({
-      id: uuidv4(),
-      originalName: file.originalname,
-      filename: file.filename,
-      path: file.path,
-      size: file.size,
-      mimetype: file.mimetype
-    }));
+    const uploadedFiles = [];
+    for (const file of stored) {
+      try {
+        const { mimetype, sha256 } = await inspectUpload(file);
+        uploadedFiles.push({
+          id: uuidv4(),
+          uploadIndex: file.uploadIndex,
+          originalName: file.originalname,
+          filename: file.filename,
+          path: file.path,
+          size: file.size,
+          mimetype,
+          sha256,
+          // The client asks for the password and sends it with classify and process
+          passwordProtected: mimetype === 'application/pdf' && (await checkPdfPassword(file.path)) !== null
+        });
+      } catch (error) {
+        await fs.remove(file.path);
+        if (!(error instanceof UploadError)) {
+          throw error;
+        }
+        rejected.push({ uploadIndex: file.uploadIndex, originalName: file.originalname, code: error.code, error: error.message });
+      }
+    }
 
-    console.log(`📁 Uploaded ${uploadedFiles.length} files for processing`);
+    await flagDuplicateUploads(uploadedFiles);
+
+    console.log(`📁 Uploaded ${uploadedFiles.length} files for processing${rejected.length ? `, rejected ${rejected.length}` : ''}`);
 
     res.json({
       success: true,
       files: uploadedFiles,
-      message: `${uploadedFiles.length} file(s) uploaded successfully`
+      rejected: rejected.sort((a, b) => a.uploadIndex - b.uploadIndex),
+      message: `${uploadedFiles.length} file(s) uploaded successfully${rejected.length ? `, ${rejected.length} rejected` : ''}`
     });
   } catch (error) {
     console.error('Upload error:', error);
-    res.status(500).json({ error: 'File upload failed' });
+    await Promise.all(stored.map(file => fs.remove(file.path)));
+    res.status(500).json({ error: 'File upload failed', code: 'UPLOAD_FAILED' });
   }
 });
 
-app.post('/api/process', async (req, res) => {
+// Check the password of an encrypted PDF upload before classifying or processing it
+app.post('/api/unlock', requirePermission('upload'), async (req, res) => {
+  try {
+    const { file } = req.body;
+
+    if (!file || typeof file !== 'object') {
+      return res.status(400).json({ error: 'Invalid file data' });
+    }
+
+    const unavailable = await checkUploadedFiles([file]);
+    if (unavailable) {
+      return res.status(unavailable.statusCode).json(unavailable.body);
+    }
+
+    res.json({ success: true, fileId: file.id });
+  } catch (error) {
+    console.error('Unlock error:', error.message);
+    res.status(500).json({ error: 'Could not check the password' });
+  }
+});
+
+app.post('/api/classify', requirePermission('upload'), async (req, res) => {
   try {
     const { files } = req.body;
-    
+
     if (!files || !Array.isArray(files)) {
       return res.status(400).json({ error: 'Invalid files data' });
     }
 
-    console.log(`🔄 Processing ${files.length} documents with dual Ollama models`);
-    console.log(`📊 Extraction: qwen2.5vl:7b | Analysis: deepseek-r1:8b`);
+    const unavailable = await checkUploadedFiles(files);
+    if (unavailable) {
+      return res.status(unavailable.statusCode).json(unavailable.body);
+    }
 
-    // Process documents with qwen2.5vl:7b for extraction
-    const processedResults = await processDocuments(files);
+    console.log(`🏷️  Classifying ${files.length} document(s) with ${ollamaClient.visionModel}`);
+
+    // A classification request is its own run in the model call log
+    const runId = uuidv4();
+    const classifications = await withModelCallContext({ runId }, () => classifyDocuments(files));
+
+    res.json({
+      success: true,
+      runId,
+      classifications
+    });
+  } catch (error) {
+    console.error('Classification error:', error);
+    res.status(500).json({
+      error: 'Document classification failed',
+      details: error.message
+    });
+  }
+});
+
+app.post('/api/process', requirePermission('process'), async (req, res) => {
+  try {
+    const { files, applicant, scoringMode } = req.body;
     
-    // Generate credit analysis with deepseek-r1:8b for reasoning
-    const creditAnalysis = await analyzeCredit(processedResults);
+    if (!files || !Array.isArray(files)) {
+      return res.status(400).json({ error: 'Invalid files data' });
+    }
 
-    // Clean up uploaded files
-    for (const file of files) {
-      try {
-        await fs.remove(file.path);
-      } catch (cleanupError) {
-        console.warn('Failed to cleanup file:', file.path, cleanupError);
-      }
+    if (applicant !== undefined && (typeof applicant !== 'object' || applicant === null)) {
+      return res.status(400).json({ error: 'Invalid applicant data' });
     }
 
-    console.log(`✅ Processing completed successfully`);
-    console.log(`📈 Credit Score: ${creditAnalysis.recommendation.score}`);
-    console.log(`⚠️  Risk Level: ${creditAnalysis.overallRisk}`);
+    if (scoringMode !== undefined && !SCORING_MODES.includes(scoringMode)) {
+      return res.status(400).json({ error: `Invalid scoring mode "${scoringMode}". Use one of: ${SCORING_MODES.join(', ')}` });
+    }
 
-    res.json({
+    // Optional; affordability is only assessed when a loan request comes with the documents
+    const loanRequest = req.body.loanRequest ? validateLoanRequest(req.body.loanRequest) : null;
+
+    const invalidType = files.find(file => file.documentType && !DOCUMENT_TYPES.includes(file.documentType));
+    if (invalidType) {
+      return res.status(400).json({
+        error: `Invalid document type "${invalidType.documentType}" for ${invalidType.originalName}`
+      });
+    }
+
+    const unavailable = await checkUploadedFiles(files);
+    if (unavailable) {
+      return res.status(unavailable.statusCode).json(unavailable.body);
+    }
+
+    console.log(`🔄 Submitting ${files.length} documents for processing with extraction and analysis models`);
+    console.log(`📊 Extraction: ${ollamaClient.visionModel} | Analysis: ${ollamaClient.reasoningModel}`);
+
+    // Processing runs in the background; clients poll GET /api/jobs/:id
+    const job = jobQueue.submit(files, { applicant, scoringMode, loanRequest });
+
+    res.status(202).json({
       success: true,
-      results: {
-        files: processedResults,
-        creditRecommendation: creditAnalysis.recommendation,
-        overallRisk: creditAnalysis.overallRisk,
-        confidence: creditAnalysis.confidence,
-        modelInfo: creditAnalysis.modelInfo,
-        documentSummary: creditAnalysis.documentSummary
-      }
+      jobId: job.id,
+      job: jobQueue.serialize(job)
     });
   } catch (error) {
+    if (error instanceof LoanRequestError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
     console.error('Processing error:', error);
     res.status(500).json({ 
       error: 'Document processing failed',
@@ -128,45 +325,432 @@ app.post('/api/process', async (req, res) => {
   }
 });
 
+app.get('/api/jobs/:id', requirePermission('view_results'), (req, res) => {
+  const job = jobQueue.getJob(req.params.id);
+
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.json({
+    success: true,
+    job: forCaller(req, jobQueue.serialize(job))
+  });
+});
+
+// Image of a processed page, for checking extracted figures against the source
+app.get('/api/files/:fileId/pages/:pageNumber/preview', requirePermission('view_results'), async (req, res) => {
+  const previewPath = pagePreviewPath(req.params.fileId, Number(req.params.pageNumber));
+
+  if (!previewPath || !(await fs.pathExists(previewPath))) {
+    return res.status(404).json({ error: 'Page preview not available' });
+  }
+
+  res.sendFile(previewPath);
+});
+
+// Model call log of a run: a processing job id, or the runId of a classification request.
+// Read from disk, so it outlives the in-memory job.
+app.get('/api/runs/:runId/model-calls', requirePermission('view_results'), async (req, res) => {
+  try {
+    const calls = await modelCallLog.list(req.params.runId);
+    res.json({ success: true, runId: req.params.runId, calls: forCaller(req, calls) });
+  } catch (error) {
+    console.error('Failed to read model call log:', error);
+    res.status(500).json({ error: 'Failed to read model call log' });
+  }
+});
+
+app.get('/api/extraction-cache', requirePermission('admin'), async (req, res) => {
+  try {
+    res.json({ success: true, cache: await extractionCache.stats() });
+  } catch (error) {
+    console.error('Failed to read extraction cache stats:', error);
+    res.status(500).json({ error: 'Failed to read extraction cache stats' });
+  }
+});
+
+// Drop cached extractions, e.g. after updating a model's weights under the
+// same name. ?model= limits it to one model.
+app.delete('/api/extraction-cache', requirePermission('admin'), async (req, res) => {
+  try {
+    const model = typeof req.query.model === 'string' && req.query.model ? req.query.model : null;
+    const removed = await extractionCache.clear({ model });
+
+    console.log(`🗑️  Removed ${removed} cached extraction(s)${model ? ` of ${model}` : ''}`);
+    res.json({ success: true, removed });
+  } catch (error) {
+    console.error('Failed to clear extraction cache:', error);
+    res.status(500).json({ error: 'Failed to clear extraction cache' });
+  }
+});
+
+// Server-Sent Events stream of live job progress. Past events are replayed
+// first so clients that connect (or reconnect) late still see the full history.
+app.get('/api/jobs/:id/events', requirePermission('view_results'), (req, res) => {
+  const job = jobQueue.getJob(req.params.id);
+
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive'
+  });
+  res.flushHeaders();
+
+  const lastEventId = parseInt(req.get('Last-Event-ID') || '0', 10) || 0;
+
+  const sendEvent = (event) => {
+    res.write(`id: ${event.sequence}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  job.events
+    .filter(event => event.sequence > lastEventId)
+    .forEach(sendEvent);
+
+  if (jobQueue.isFinished(job)) {
+    return res.end();
+  }
+
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+
+  const onEvent = (event) => {
+    if (event.jobId !== job.id) return;
+
+    sendEvent(event);
+    if (jobQueue.isFinished(job)) {
+      cleanup();
+      res.end();
+    }
+  };
+
+  const cleanup = () => {
+    clearInterval(heartbeat);
+    jobQueue.off('event', onEvent);
+  };
+
+  jobQueue.on('event', onEvent);
+  req.on('close', cleanup);
+});
+
+app.post('/api/jobs/:id/cancel', requirePermission('process'), (req, res) => {
+  const job = jobQueue.cancel(req.params.id);
+
+  if (!job) {
+    return res.status(404).json({ error: 'Job not found' });
+  }
+
+  res.json({
+    success: true,
+    job: forCaller(req, jobQueue.serialize(job))
+  });
+});
+
+app.get('/api/applications', requirePermission('view_results'), async (req, res) => {
+  try {
+    const applications = await applicationStore.list();
+    res.json({ success: true, applications: forCaller(req, applications) });
+  } catch (error) {
+    console.error('Failed to list applications:', error);
+    res.status(500).json({ error: 'Failed to load applications' });
+  }
+});
+
+// Assessment ids are UUIDs; anything else can't name one
+app.use('/api/applications/:id', (req, res, next) => {
+  if (!isUuid(req.params.id)) {
+    return res.status(400).json({ error: 'Invalid application id' });
+  }
+  next();
+});
+
+app.get('/api/applications/:id', requirePermission('view_results'), async (req, res) => {
+  try {
+    const application = await applicationStore.get(req.params.id);
+
+    if (!application) {
+      return res.status(404).json({ error: 'Application not found' });
+    }
+
+    res.json({ success: true, application: forCaller(req, serializeApplication(application)) });
+  } catch (error) {
+    console.error('Failed to load application:', error);
+    res.status(500).json({ error: 'Failed to load application' });
+  }
+});
+
+// Underwriter override of score, credit limit or interest rate (value null removes it)
+app.post('/api/applications/:id/overrides', requirePermission('review'), async (req, res) => {
+  try {
+    const { field, value, justification } = req.body;
+    const user = auditUser(req);
+    const application = await applicationStore.update(req.params.id, current =>
+      overrideField(current, { field, value, justification, user })
+    );
+
+    if (!application) {
+      return res.status(404).json({ error: 'Application not found' });
+    }
+
+    res.json({ success: true, application: forCaller(req, serializeApplication(application)) });
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Failed to override application:', error);
+    res.status(500).json({ error: 'Failed to save override' });
+  }
+});
+
+// Move an assessment through draft → under review → approved/declined/referred
+app.post('/api/applications/:id/status', requirePermission('review'), async (req, res) => {
+  try {
+    const { status, comment } = req.body;
+    const user = auditUser(req);
+    const application = await applicationStore.update(req.params.id, current =>
+      changeStatus(current, { status, comment, user })
+    );
+
+    if (!application) {
+      return res.status(404).json({ error: 'Application not found' });
+    }
+
+    res.json({ success: true, application: forCaller(req, serializeApplication(application)) });
+  } catch (error) {
+    if (error instanceof ReviewError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    console.error('Failed to change application status:', error);
+    res.status(500).json({ error: 'Failed to change review status' });
+  }
+});
+
+// Model calls made by the job that produced a saved assessment
+app.get('/api/applications/:id/model-calls', requirePermission('view_results'), async (req, res) => {
+  try {
+    const application = await applicationStore.get(req.params.id);
+
+    if (!application) {
+      return res.status(404).json({ error: 'Application not found' });
+    }
+
+    const calls = application.jobId ? await modelCallLog.list(application.jobId) : [];
+    res.json({ success: true, runId: application.jobId, calls: forCaller(req, calls) });
+  } catch (error) {
+    console.error('Failed to read model call log:', error);
+    res.status(500).json({ error: 'Failed to read model call log' });
+  }
+});
+
+// Credit memo of a saved assessment, as a PDF or canonical JSON download
+app.get('/api/applications/:id/export', requirePermission('view_results'), async (req, res) => {
+  try {
+    const format = req.query.format || 'pdf';
+    if (!MEMO_FORMATS.includes(format)) {
+      return res.status(400).json({ error: `Invalid export format "${format}". Use one of: ${MEMO_FORMATS.join(', ')}` });
+    }
+
+    const application = await applicationStore.get(req.params.id);
+    if (!application) {
+      return res.status(404).json({ error: 'Application not found' });
+    }
+
+    const memo = forCaller(req, buildCreditMemo(application));
+    res.attachment(creditMemoFileName(memo, format));
+
+    if (format === 'json') {
+      return res.type('application/json').send(JSON.stringify(memo, null, 2));
+    }
+
+    res.type('application/pdf').send(await renderCreditMemoPdf(memo));
+  } catch (error) {
+    console.error('Failed to export application:', error);
+    res.status(500).json({ error: 'Failed to export credit memo' });
+  }
+});
+
+app.delete('/api/applications/:id', requirePermission('admin'), async (req, res) => {
+  try {
+    const application = await applicationStore.get(req.params.id);
+    const deleted = await applicationStore.delete(req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Application not found' });
+    }
+
+    // The prompts and page previews contain the applicant's documents, so they go with the assessment
+    if (application.jobId) {
+      await modelCallLog.delete(application.jobId);
+    }
+    await removePagePreviews((application.results?.files || []).map(file => file.fileId));
+
+    res.json({ success: true });
+  } catch (error) {
+    console.error('Failed to delete application:', error);
+    res.status(500).json({ error: 'Failed to delete application' });
+  }
+});
+
+// Liveness is public; the model and scoring setup needs a signed-in caller,
+// provider connection details an admin
 app.get('/api/health', async (req, res) => {
+  const isAdmin = hasPermission(req.user, 'admin');
+
   try {
     const ollamaHealth = await ollamaClient.checkHealth();
-    
-    res.json({ 
-      status: 'healthy', 
-      timestamp: new Date().toISOString(),
-      ollama: ollamaHealth,
-      models: {
-        extraction: 'qwen2.5vl:7b',
-        analysis: 'deepseek-r1:8b'
-      }
-    });
+    const health = {
+      status: 'healthy',
+      timestamp: new Date().toISOString()
+    };
+
+    if (hasPermission(req.user, 'view_results')) {
+      health.models = {
+        provider: ollamaClient.provider.type,
+        extraction: ollamaClient.visionModel,
+        analysis: ollamaClient.reasoningModel
+      };
+      health.scoring = {
+        mode: config.scoring.mode,
+        modes: SCORING_MODES,
+        scorecard: describeActiveScorecard()
+      };
+    }
+
+    if (isAdmin) {
+      health.ollama = ollamaHealth;
+      health.models.baseURL = ollamaClient.provider.baseURL;
+    }
+
+    res.json(health);
   } catch (error) {
     res.status(500).json({
       status: 'unhealthy',
       timestamp: new Date().toISOString(),
-      error: error.message,
-      ollama: { connected: false }
+      ...(isAdmin && { error: error.message, ollama: { connected: false } })
     });
   }
 });
 
+// Files named in /api/classify and /api/process come back from the client, so
+// they must still be uploads in our directory, with the UUID the upload gave
+// them (ids become temp directory names). Their type is taken from the
+// content again, and encrypted PDFs must come with their password, which is
+// kept in memory only. Returns an error response, or null when all are usable.
+async function checkUploadedFiles(files) {
+  for (const file of files) {
+    const resolved = typeof file.path === 'string' ? path.resolve(file.path) : null;
+    if (!resolved || path.dirname(resolved) !== uploadsDir || !isUuid(file.id)) {
+      return {
+        statusCode: 400,
+        body: { error: `${file.originalName || 'A file'} is not an upload of this server`, code: 'INVALID_UPLOAD', fileId: file.id }
+      };
+    }
+
+    if (!(await fs.pathExists(resolved))) {
+      return {
+        statusCode: 410,
+        body: { error: `${file.originalName} is no longer available, please upload it again`, code: 'UPLOAD_EXPIRED', fileId: file.id }
+      };
+    }
+
+    file.path = resolved;
+    file.mimetype = await sniffMimetype(resolved);
+
+    if (file.password !== undefined && typeof file.password !== 'string') {
+      return {
+        statusCode: 400,
+        body: { error: `Invalid password for ${file.originalName}`, code: 'INVALID_PASSWORD', fileId: file.id }
+      };
+    }
+
+    if (file.mimetype === 'application/pdf') {
+      const passwordProblem = await checkPdfPassword(resolved, file.password || undefined);
+      if (passwordProblem) {
+        return {
+          statusCode: 422,
+          body: {
+            error: passwordProblem === 'PASSWORD_REQUIRED'
+              ? `${file.originalName} is password protected, please enter its password`
+              : `The password for ${file.originalName} is incorrect`,
+            code: passwordProblem,
+            fileId: file.id
+          }
+        };
+      }
+    } else {
+      delete file.password;
+    }
+  }
+  return null;
+}
+
+// The same document earlier in this upload, or in a saved assessment
+async function flagDuplicateUploads(files) {
+  for (const [index, file] of files.entries()) {
+    const earlier = files.slice(0, index).find(other => other.sha256 === file.sha256);
+    const saved = await applicationStore.findByDocumentHash(file.sha256);
+
+    file.duplicates = [
+      ...(earlier ? [{ source: 'upload', fileName: earlier.originalName }] : []),
+      ...saved.map(match => ({ source: 'application', ...match }))
+    ];
+  }
+}
+
+// Signed-in callers are recorded as themselves; the body's `user` only counts without auth
+function auditUser(req) {
+  return req.user ? req.user.displayName : req.body.user;
+}
+
+// Responses carry extracted document data; callers without PII access get it masked
+function forCaller(req, payload) {
+  return req.canViewPii ? payload : maskPii(payload);
+}
+
+function serializeApplication(application) {
+  const review = reviewOf(application);
+
+  return {
+    ...application,
+    review: { ...review, decision: review.decision ?? null, allowedTransitions: allowedTransitions(review.status) },
+    auditTrail: application.auditTrail || [],
+    results: { ...application.results, application: summarizeApplication(application) }
+  };
+}
+
+// Report the scorecard in use, or why it can't be loaded, without failing the health check
+function describeActiveScorecard() {
+  try {
+    const { name, version, effectiveDate } = loadScorecard(config.scoring.scorecardFile);
+    return { name, version, effectiveDate: effectiveDate || null };
+  } catch (error) {
+    return { error: error.message };
+  }
+}
+
 // Error handling middleware
 app.use((error, req, res, next) => {
   if (error instanceof multer.MulterError) {
     if (error.code === 'LIMIT_FILE_SIZE') {
-      return res.status(400).json({ error: 'File too large. Maximum size is 10MB.' });
+      return res.status(400).json({ error: 'File too large. Maximum size is 10MB.', code: 'FILE_TOO_LARGE' });
+    }
+    if (error.code === 'LIMIT_UNEXPECTED_FILE') {
+      return res.status(400).json({ error: `Upload at most ${MAX_FILES_PER_UPLOAD} files in the "documents" field.`, code: 'TOO_MANY_FILES' });
     }
+    return res.status(400).json({ error: error.message, code: error.code });
   }
   
   console.error('Server error:', error);
   res.status(500).json({ error: 'Internal server error' });
 });
 
-app.listen(PORT, '0.0.0.0', () => {
-  console.log(`🚀 Credit Assessment Server running on port ${PORT}`);
-  console.log(`🤖 Ollama Models:`);
-  console.log(`   📄 Document Extraction: qwen2.5vl:7b`);
-  console.log(`   🧠 Credit Analysis: deepseek-r1:8b`);
+app.listen(PORT, HOST, () => {
+  console.log(`🚀 Credit Assessment Server running on ${HOST}:${PORT}`);
+  console.log(`🤖 Models (${ollamaClient.provider.type} at ${ollamaClient.provider.baseURL}):`);
+  console.log(`   📄 Document Extraction: ${ollamaClient.visionModel}`);
+  console.log(`   🧠 Credit Analysis: ${ollamaClient.reasoningModel}`);
   console.log(`📁 Upload directory: ${uploadsDir}`);
 });
\ No newline at end of file
@@ -0,0 +1,264 @@
+import { validateAgainstSchema, formatValidationErrors } from './structuredOutput.js';
+import { annualFigures } from './financialStatements.js';
+import { config } from '../config.js';
+
+// The loan the applicant asked for and whether they can repay it: the
+// installment schedule of the requested amount, debt-to-income (individuals)
+// or debt service coverage (businesses) once its installment is added to
+// existing debt, and the largest amount that stays within policy. Amounts are
+// in the base currency.
+
+export const APPLICANT_TYPES = ['individual', 'business'];
+
+export const PRODUCT_TYPES = [
+  'term_loan', 'personal_loan', 'mortgage', 'vehicle_loan', 'equipment_finance', 'working_capital', 'credit_line'
+];
+
+export const COLLATERAL_TYPES = [
+  'none', 'property', 'vehicle', 'equipment', 'receivables', 'cash_deposit', 'guarantee', 'other'
+];
+
+const MAX_TERM_MONTHS = 480;
+const MAX_PURPOSE_LENGTH = 500;
+
+// Recommended amounts are rounded down to this
+const AMOUNT_STEP = 100;
+
+const LOAN_REQUEST_SCHEMA = {
+  type: 'object',
+  properties: {
+    amount: { type: 'number', minimum: 1 },
+    termMonths: { type: 'integer', minimum: 1, maximum: MAX_TERM_MONTHS },
+    purpose: { type: ['string', 'null'] },
+    productType: { type: 'string', enum: PRODUCT_TYPES },
+    applicantType: { type: 'string', enum: APPLICANT_TYPES },
+    collateralType: { type: 'string', enum: COLLATERAL_TYPES },
+    collateralValue: { type: ['number', 'null'], minimum: 0 },
+    existingMonthlyDebt: { type: ['number', 'null'], minimum: 0 }
+  },
+  required: ['amount', 'termMonths', 'productType', 'applicantType']
+};
+
+const round = value => Math.round(value * 100) / 100;
+
+export class LoanRequestError extends Error {
+  constructor(message, statusCode = 400) {
+    super(message);
+    this.name = 'LoanRequestError';
+    this.statusCode = statusCode;
+  }
+}
+
+// The request as submitted with /api/process, with optional fields filled in
+export function validateLoanRequest(input) {
+  const errors = validateAgainstSchema(input, LOAN_REQUEST_SCHEMA);
+  if (typeof input?.purpose === 'string' && input.purpose.length > MAX_PURPOSE_LENGTH) {
+    errors.push({ path: '$.purpose', message: `must be at most ${MAX_PURPOSE_LENGTH} characters` });
+  }
+  if (errors.length > 0) {
+    throw new LoanRequestError(`Invalid loan request:\n${formatValidationErrors(errors)}`);
+  }
+
+  const collateralType = input.collateralType ?? 'none';
+  return {
+    amount: input.amount,
+    termMonths: input.termMonths,
+    purpose: input.purpose?.trim() || null,
+    productType: input.productType,
+    applicantType: input.applicantType,
+    collateralType,
+    collateralValue: collateralType === 'none' ? null : input.collateralValue ?? null,
+    existingMonthlyDebt: input.existingMonthlyDebt ?? null
+  };
+}
+
+// Equal monthly installments repaying `amount` over the term at an annual
+// rate in percent. Credit lines are treated as drawn in full.
+export function installmentSchedule(amount, annualRate, termMonths) {
+  const installment = round(installmentFor(amount, annualRate, termMonths));
+  const monthlyRate = annualRate / 100 / 12;
+
+  const schedule = [];
+  let balance = amount;
+  for (let month = 1; month <= termMonths; month++) {
+    const interest = round(balance * monthlyRate);
+    // The last installment clears what rounding left over
+    const principal = month === termMonths ? round(balance) : round(installment - interest);
+    balance = round(balance - principal);
+    schedule.push({ month, payment: round(principal + interest), principal, interest, balance });
+  }
+
+  const totalRepayment = round(schedule.reduce((sum, row) => sum + row.payment, 0));
+  return { installment, totalInterest: round(totalRepayment - amount), totalRepayment, schedule };
+}
+
+// Affordability of the requested loan at `interestRate` (the recommended rate;
+// the configured default until there is one)
+export function assessAffordability(loanRequest, results, {
+  interestRate = config.affordability.defaultInterestRate,
+  policy = config.affordability
+} = {}) {
+  const documents = results.filter(r => !r.error);
+  const { amount, termMonths, applicantType, collateralValue } = loanRequest;
+  const { installment, totalInterest, totalRepayment, schedule } = installmentSchedule(amount, interestRate, termMonths);
+
+  const capacity = applicantType === 'business'
+    ? businessCapacity(documents, loanRequest, installment, policy)
+    : individualCapacity(documents, loanRequest, installment, policy);
+
+  let recommendedAmount = null;
+  let status = 'insufficient_data';
+  if (capacity.maxInstallment !== null) {
+    const affordable = Math.max(0, principalFor(capacity.maxInstallment, interestRate, termMonths));
+    recommendedAmount = Math.min(amount, Math.floor(affordable / AMOUNT_STEP) * AMOUNT_STEP);
+    status = recommendedAmount >= amount ? 'affordable' : recommendedAmount > 0 ? 'reduced' : 'unaffordable';
+  }
+
+  return {
+    loanRequest,
+    interestRate,
+    installment,
+    totalInterest,
+    totalRepayment,
+    basis: capacity.basis,
+    incomeSource: capacity.incomeSource,
+    monthlyIncome: capacity.monthlyIncome,
+    monthlyCashAvailable: capacity.monthlyCashAvailable,
+    existingMonthlyDebt: capacity.existingMonthlyDebt,
+    debtToIncome: capacity.debtToIncome,
+    maxDebtToIncome: applicantType === 'business' ? null : round(policy.maxDebtToIncome * 100),
+    debtServiceCoverage: capacity.debtServiceCoverage,
+    minDebtServiceCoverage: applicantType === 'business' ? policy.minDebtServiceCoverage : null,
+    loanToValue: collateralValue > 0 ? round((amount / collateralValue) * 100) : null,
+    recommendedAmount,
+    status,
+    schedule
+  };
+}
+
+// Gross monthly income from payslips and tax returns, else bank statement
+// inflows; debt-to-income is a percentage of it
+function individualCapacity(documents, loanRequest, installment, policy) {
+  const existingMonthlyDebt = loanRequest.existingMonthlyDebt ?? 0;
+  const documented = averageMetric(documents, ['payslip', 'tax_return'], m => m.monthlyIncome);
+  const banked = averageMetric(documents, ['bank_statement'], m => m.monthlyIncome);
+  const monthlyIncome = documented ?? banked;
+  const base = {
+    basis: 'debt_to_income',
+    incomeSource: documented !== null ? 'payslips_and_tax_returns' : banked !== null ? 'bank_statements' : null,
+    monthlyIncome: monthlyIncome !== null ? round(monthlyIncome) : null,
+    monthlyCashAvailable: null,
+    existingMonthlyDebt,
+    debtServiceCoverage: null
+  };
+
+  if (!(monthlyIncome > 0)) {
+    return { ...base, debtToIncome: null, maxInstallment: null };
+  }
+  return {
+    ...base,
+    debtToIncome: round(((existingMonthlyDebt + installment) / monthlyIncome) * 100),
+    maxInstallment: policy.maxDebtToIncome * monthlyIncome - existingMonthlyDebt
+  };
+}
+
+// Cash available for debt service: EBITDA of the latest financial statements,
+// else bank statement inflows less outflows with existing debt payments added
+// back. Existing debt service is the applicant's figure when given, else the
+// interest and repayments in the statements.
+function businessCapacity(documents, loanRequest, installment, policy) {
+  const statements = latestStatementFigures(documents);
+  let incomeSource = null;
+  let monthlyCashAvailable = null;
+  let existingMonthlyDebt = loanRequest.existingMonthlyDebt ?? 0;
+
+  if (statements) {
+    incomeSource = 'financial_statements';
+    monthlyCashAvailable = statements.ebitda / 12;
+    existingMonthlyDebt = loanRequest.existingMonthlyDebt ?? statements.debtService / 12;
+  } else {
+    const netFlow = averageMetric(documents, ['bank_statement'], m =>
+      typeof m.monthlyIncome === 'number' && typeof m.monthlyExpenses === 'number'
+        ? m.monthlyIncome - m.monthlyExpenses
+        : undefined
+    );
+    if (netFlow !== null) {
+      incomeSource = 'bank_statements';
+      monthlyCashAvailable = netFlow + existingMonthlyDebt;
+    }
+  }
+
+  const base = {
+    basis: 'debt_service_coverage',
+    incomeSource,
+    monthlyIncome: null,
+    monthlyCashAvailable: monthlyCashAvailable !== null ? round(monthlyCashAvailable) : null,
+    existingMonthlyDebt: round(existingMonthlyDebt),
+    debtToIncome: null
+  };
+
+  if (monthlyCashAvailable === null) {
+    return { ...base, debtServiceCoverage: null, maxInstallment: null };
+  }
+  return {
+    ...base,
+    debtServiceCoverage: round(monthlyCashAvailable / (existingMonthlyDebt + installment)),
+    maxInstallment: monthlyCashAvailable / policy.minDebtServiceCoverage - existingMonthlyDebt
+  };
+}
+
+// Annual EBITDA and debt service of the most recent financial statements that
+// report operating income, in the base currency
+function latestStatementFigures(documents) {
+  const candidates = documents
+    .filter(r => r.extractedData.documentType === 'financial' && r.extractedData.periods?.length > 0)
+    .map(r => {
+      const periods = r.extractedData.periods;
+      const periodEnd = periods[periods.length - 1].periodEnd;
+      const figures = annualFigures(periods, periodEnd);
+      const income = figures?.incomeStatement;
+      const rate = conversionRate(r);
+      if (income?.operatingIncome === undefined || rate === null) {
+        return null;
+      }
+      return {
+        periodEnd,
+        ebitda: (income.operatingIncome + (income.depreciation ?? 0)) * rate,
+        debtService: ((income.interestExpense ?? 0) + (figures.cashFlowStatement?.debtRepayments ?? 0)) * rate
+      };
+    })
+    .filter(Boolean)
+    .sort((a, b) => a.periodEnd.localeCompare(b.periodEnd));
+
+  return candidates.length > 0 ? candidates[candidates.length - 1] : null;
+}
+
+// Statement periods keep the document's own currency; null when it has no rate
+function conversionRate(result) {
+  const { currency } = result.extractedData;
+  return currency ? currency.rate : 1;
+}
+
+// Monthly installment of `amount` over the term
+function installmentFor(amount, annualRate, termMonths) {
+  const monthlyRate = annualRate / 100 / 12;
+  return monthlyRate === 0
+    ? amount / termMonths
+    : (amount * monthlyRate) / (1 - Math.pow(1 + monthlyRate, -termMonths));
+}
+
+// Amount a monthly installment repays over the term
+function principalFor(installment, annualRate, termMonths) {
+  const monthlyRate = annualRate / 100 / 12;
+  return monthlyRate === 0
+    ? installment * termMonths
+    : (installment * (1 - Math.pow(1 + monthlyRate, -termMonths))) / monthlyRate;
+}
+
+function averageMetric(documents, types, pick) {
+  const values = documents
+    .filter(r => types.includes(r.extractedData.documentType) && r.extractedData.financialMetrics)
+    .map(r => pick(r.extractedData.financialMetrics))
+    .filter(value => typeof value === 'number' && Number.isFinite(value));
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+}
@@ -0,0 +1,401 @@
+import fs from 'fs-extra';
+import { validateAgainstSchema, formatValidationErrors } from './structuredOutput.js';
+import { STATEMENT_FIELDS } from './financialStatements.js';
+
+// Amounts as printed on statements from anywhere: "1.234,56 €", "Rp 12.500.000",
+// "(4,200)", "CHF 1'250.00", "1 234,56", "2,500.00 DR". The model copies them
+// as printed; they are parsed here, the document's currency is detected, and
+// its metrics are converted to the base currency with a local rate table.
+
+// Longest first, so "HK$" isn't read as "$"
+const CURRENCY_SYMBOLS = [
+  ['HK$', 'HKD'], ['NZ$', 'NZD'], ['US$', 'USD'], ['S$', 'SGD'], ['A$', 'AUD'], ['C$', 'CAD'], ['R$', 'BRL'],
+  ['Rp', 'IDR'], ['RM', 'MYR'], ['€', 'EUR'], ['£', 'GBP'], ['¥', 'JPY'], ['₹', 'INR'], ['₱', 'PHP'],
+  ['฿', 'THB'], ['₫', 'VND'], ['₩', 'KRW'], ['₺', 'TRY'], ['zł', 'PLN'], ['$', 'USD']
+];
+
+const ISO_CURRENCIES = new Set(Intl.supportedValuesOf('currency'));
+
+// Currencies whose amounts have three decimals, so "1,250" isn't thousands
+const THREE_DECIMAL_CURRENCIES = new Set(['BHD', 'IQD', 'JOD', 'KWD', 'LYD', 'OMR', 'TND']);
+
+// Figures that are money, by document type. Ratios and percentages are plain numbers.
+const MONEY_FIELDS = {
+  bank_statement: ['openingBalance', 'closingBalance'],
+  payslip: ['grossPay', 'totalDeductions', 'taxWithheld', 'netPay', 'yearToDateGross'],
+  tax_return: ['grossIncome', 'businessIncome', 'taxableIncome', 'totalTax', 'taxPaid']
+};
+const MONEY_ROW_FIELDS = {
+  bank_statement: { list: 'transactions', fields: ['amount', 'balance'] },
+  financial: { list: 'statements', fields: Object.values(STATEMENT_FIELDS).flat() },
+  invoice: { list: 'invoices', fields: ['totalAmount', 'amountOutstanding'] }
+};
+
+// Financial metrics converted to the base currency; the rest are counts and scores
+export const MONEY_METRICS = [
+  'accountBalance', 'monthlyIncome', 'monthlyExpenses', 'averageDailyBalance',
+  'annualRevenue', 'netProfit', 'totalAssets', 'totalLiabilities', 'cashFlow',
+  'netMonthlyIncome', 'annualIncome', 'taxableIncome', 'totalTax',
+  'totalInvoiced', 'outstandingReceivables', 'overdueReceivables'
+];
+
+const RATE_TABLE_SCHEMA = {
+  type: 'object',
+  properties: {
+    baseCurrency: { type: 'string' },
+    rates: {
+      type: 'object',
+      additionalProperties: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            date: { type: 'string', pattern: '^\\d{4}-\\d{2}-\\d{2}$' },
+            rate: { type: 'number', exclusiveMinimum: 0 }
+          },
+          required: ['date', 'rate']
+        }
+      }
+    }
+  },
+  required: ['baseCurrency', 'rates']
+};
+
+// The ISO code a piece of text names by code or symbol, or null
+export function detectCurrency(text) {
+  if (typeof text !== 'string') {
+    return null;
+  }
+
+  // A bare code may be lowercase ("eur"); within an amount it is uppercase
+  const trimmed = text.trim();
+  if (/^[a-z]{3}$/i.test(trimmed) && ISO_CURRENCIES.has(trimmed.toUpperCase())) {
+    return trimmed.toUpperCase();
+  }
+
+  const code = text.match(/\b[A-Z]{3}\b/g)?.find(candidate => ISO_CURRENCIES.has(candidate));
+  if (code) {
+    return code;
+  }
+
+  const symbol = CURRENCY_SYMBOLS.find(([mark]) => symbolPattern(mark).test(text));
+  return symbol ? symbol[1] : null;
+}
+
+// Parse one printed amount. `decimalSeparator` settles "4,200" and "1.250"
+// when the rest of the page shows which separator marks decimals.
+// Returns { value, currency } or null when it isn't an amount.
+export function parseAmount(raw, { decimalSeparator = null, currency = null } = {}) {
+  if (typeof raw === 'number') {
+    return Number.isFinite(raw) ? { value: raw, currency: null } : null;
+  }
+  if (typeof raw !== 'string') {
+    return null;
+  }
+
+  const printedCurrency = detectCurrency(raw);
+  let text = stripCurrency(raw).trim();
+  let negative = false;
+
+  // Debit/credit markers used instead of signs on bank statements
+  const marker = text.match(/\s*\b(DR|CR)\.?$/i);
+  if (marker) {
+    negative = marker[1].toUpperCase() === 'DR';
+    text = text.slice(0, marker.index).trim();
+  }
+
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1).trim();
+  }
+  if (/^[-−–]/.test(text) || /[-−–]$/.test(text)) {
+    negative = true;
+    text = text.replace(/^[-−–]\s*|\s*[-−–]$/g, '');
+  }
+  if (text.startsWith('+')) {
+    text = text.slice(1);
+  }
+
+  // Spaces (including narrow no-break) and apostrophes only group digits
+  const digits = text.replace(/[\s  ']/g, '');
+  if (!/^\d[\d.,]*$/.test(digits) || !/\d$/.test(digits)) {
+    return null;
+  }
+
+  const decimal = resolveDecimalSeparator(digits, {
+    decimalSeparator,
+    threeDecimals: THREE_DECIMAL_CURRENCIES.has(printedCurrency || currency)
+  });
+  const grouping = decimal === ',' ? '.' : ',';
+  if (decimal && (digits.split(decimal).length > 2 || digits.indexOf(grouping, digits.lastIndexOf(decimal)) !== -1)) {
+    return null;
+  }
+
+  const plain = digits.split(grouping).join('').split(decimal === ',' ? ',' : '.');
+  const value = Number(decimal ? `${plain.slice(0, -1).join('')}.${plain[plain.length - 1]}` : plain.join(''));
+  if (!Number.isFinite(value)) {
+    return null;
+  }
+
+  return { value: negative ? -value : value, currency: printedCurrency };
+}
+
+// Which separator marks decimals on a page, from the amounts that aren't
+// ambiguous ("1.234,56", "12,50", "12.500.000"), or null when they don't say
+export function inferDecimalSeparator(printedAmounts) {
+  const votes = { '.': 0, ',': 0 };
+
+  for (const raw of printedAmounts) {
+    const digits = stripCurrency(String(raw)).replace(/[^\d.,]/g, '');
+    const lastDot = digits.lastIndexOf('.');
+    const lastComma = digits.lastIndexOf(',');
+
+    if (lastDot !== -1 && lastComma !== -1) {
+      votes[lastDot > lastComma ? '.' : ',']++;
+      continue;
+    }
+
+    const separator = lastDot !== -1 ? '.' : lastComma !== -1 ? ',' : null;
+    if (!separator) {
+      continue;
+    }
+    if (digits.split(separator).length > 2) {
+      // Repeated, so it groups thousands and the other one is the decimal mark
+      votes[separator === '.' ? ',' : '.']++;
+    } else if (digits.length - digits.lastIndexOf(separator) - 1 !== 3) {
+      votes[separator]++;
+    }
+  }
+
+  if (votes['.'] === votes[',']) {
+    return null;
+  }
+  return votes['.'] > votes[','] ? '.' : ',';
+}
+
+// Parse the printed amounts of one page's extraction into numbers. Returns the
+// page with numbers (null where an amount couldn't be read), the currencies
+// printed next to its amounts, and the amounts that couldn't be read.
+export function normalizePageAmounts(data, documentType) {
+  const printed = [];
+  forEachMoneyValue(data, documentType, value => {
+    if (typeof value === 'string') {
+      printed.push(value);
+    }
+    return value;
+  });
+
+  const decimalSeparator = inferDecimalSeparator(printed);
+  const declaredCurrency = detectCurrency(data.currency);
+  const currencies = new Set();
+  const unreadable = [];
+
+  const normalized = forEachMoneyValue(data, documentType, value => {
+    if (value === null || value === undefined || typeof value === 'number') {
+      return value ?? null;
+    }
+
+    const parsed = parseAmount(value, { decimalSeparator, currency: declaredCurrency });
+    if (!parsed) {
+      unreadable.push(String(value));
+      return null;
+    }
+    if (parsed.currency) {
+      currencies.add(parsed.currency);
+    }
+    return parsed.value;
+  });
+
+  return { data: normalized, currencies: [...currencies], unreadable };
+}
+
+// The document's currency: as stated in the extraction, else printed next to
+// its amounts, else the most frequent currency on its text layer pages
+export function resolveDocumentCurrency({ declared = null, printed = [], pageTexts = [] }) {
+  const stated = detectCurrency(declared);
+  if (stated) {
+    return { code: stated, detectedFrom: 'document' };
+  }
+
+  if (printed.length > 0) {
+    return { code: mostFrequent(printed), detectedFrom: 'amounts' };
+  }
+
+  const mentions = pageTexts.flatMap(text => findCurrencyMentions(text || ''));
+  if (mentions.length > 0) {
+    return { code: mostFrequent(mentions), detectedFrom: 'page_text' };
+  }
+
+  return { code: null, detectedFrom: null };
+}
+
+// The rate table is read on every use, like the scorecard, so rate updates apply without a restart
+export function loadRateTable(filePath, baseCurrency) {
+  let table;
+  try {
+    table = fs.readJsonSync(filePath);
+  } catch (error) {
+    throw new Error(`Could not read exchange rates ${filePath}: ${error.message}`);
+  }
+
+  const errors = validateAgainstSchema(table, RATE_TABLE_SCHEMA);
+  if (errors.length > 0) {
+    throw new Error(`Invalid exchange rates ${filePath}:\n${formatValidationErrors(errors)}`);
+  }
+  if (table.baseCurrency !== baseCurrency) {
+    throw new Error(`Exchange rates in ${filePath} are quoted in ${table.baseCurrency}, not the base currency ${baseCurrency}`);
+  }
+
+  return table;
+}
+
+// The rate in effect on `date` (YYYY-MM-DD): the latest one dated on or
+// before it, else the earliest one after it. Null when the currency has none.
+export function findRate(table, currency, date) {
+  const entries = [...(table.rates[currency] || [])].sort((a, b) => a.date.localeCompare(b.date));
+  if (entries.length === 0) {
+    return null;
+  }
+
+  const inEffect = entries.filter(entry => entry.date <= date).pop() || entries[0];
+  return { rate: inEffect.rate, date: inEffect.date };
+}
+
+// Convert a document's monetary metrics to the base currency. The metrics in
+// the document's own currency are kept as `originalFinancialMetrics`; without
+// a rate, monetary metrics are left out of `financialMetrics` rather than
+// mixed with base currency figures.
+export function convertDocumentAmounts(extractedData, { currency, baseCurrency, rateTable, date }) {
+  const code = currency.code || baseCurrency;
+  const conversion = {
+    code,
+    detectedFrom: currency.detectedFrom,
+    baseCurrency,
+    rate: code === baseCurrency ? 1 : null,
+    rateDate: null
+  };
+
+  if (code !== baseCurrency) {
+    const found = rateTable ? findRate(rateTable, code, date) : null;
+    if (found) {
+      Object.assign(conversion, { rate: found.rate, rateDate: found.date });
+    }
+  }
+
+  const metrics = extractedData.financialMetrics;
+  if (!metrics || conversion.rate === 1) {
+    return { ...extractedData, currency: conversion };
+  }
+
+  const converted = { ...metrics };
+  for (const field of MONEY_METRICS) {
+    if (typeof metrics[field] !== 'number') {
+      continue;
+    }
+    if (conversion.rate === null) {
+      delete converted[field];
+    } else {
+      converted[field] = Math.round(metrics[field] * conversion.rate * 100) / 100;
+    }
+  }
+
+  return {
+    ...extractedData,
+    currency: conversion,
+    financialMetrics: Object.keys(converted).length > 0 ? converted : null,
+    originalFinancialMetrics: metrics,
+    riskFactors: conversion.rate === null
+      ? [...(extractedData.riskFactors || []), `Amounts in ${code} could not be converted to ${baseCurrency}: no exchange rate configured`]
+      : extractedData.riskFactors
+  };
+}
+
+function resolveDecimalSeparator(digits, { decimalSeparator, threeDecimals }) {
+  const lastDot = digits.lastIndexOf('.');
+  const lastComma = digits.lastIndexOf(',');
+
+  if (lastDot !== -1 && lastComma !== -1) {
+    return lastDot > lastComma ? '.' : ',';
+  }
+
+  const separator = lastDot !== -1 ? '.' : lastComma !== -1 ? ',' : null;
+  if (!separator || digits.split(separator).length > 2) {
+    return null;
+  }
+
+  // One separator with three digits after it groups thousands, unless the
+  // currency or the rest of the page says it marks decimals
+  if (digits.length - digits.lastIndexOf(separator) - 1 !== 3) {
+    return separator;
+  }
+  return threeDecimals || decimalSeparator === separator ? separator : null;
+}
+
+// Apply `fn` to every money value of an extraction; returns a new extraction
+function forEachMoneyValue(data, documentType, fn) {
+  const result = { ...data };
+
+  for (const field of MONEY_FIELDS[documentType] || []) {
+    if (field in result) {
+      result[field] = fn(result[field]);
+    }
+  }
+
+  const rows = MONEY_ROW_FIELDS[documentType];
+  if (rows && Array.isArray(result[rows.list])) {
+    result[rows.list] = result[rows.list].map(row => {
+      const mapped = { ...row };
+      rows.fields.forEach(field => {
+        if (field in mapped) {
+          mapped[field] = fn(mapped[field]);
+        }
+      });
+      return mapped;
+    });
+  }
+
+  if (documentType === 'unknown' && Array.isArray(result.extractedData?.amounts)) {
+    result.extractedData = {
+      ...result.extractedData,
+      amounts: result.extractedData.amounts.map(fn).filter(value => value !== null)
+    };
+  }
+
+  return result;
+}
+
+function stripCurrency(text) {
+  let stripped = text.replace(/\b[A-Z]{3}\b/g, code => (ISO_CURRENCIES.has(code) ? '' : code));
+  for (const [mark] of CURRENCY_SYMBOLS) {
+    stripped = stripped.replace(symbolPattern(mark, 'g'), '');
+  }
+  return stripped;
+}
+
+// Letter symbols ("Rp", "RM") only count as whole words, optionally with a dot
+function symbolPattern(mark, flags = '') {
+  const escaped = mark.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return /^[A-Za-z]/.test(mark)
+    ? new RegExp(`(?<![A-Za-z])${escaped}\\.?(?![A-Za-z])`, flags)
+    : new RegExp(escaped, flags);
+}
+
+// Codes only count next to a figure, so headings like "ALL TRANSACTIONS" don't
+function findCurrencyMentions(text) {
+  const mentions = [...text.matchAll(/\b([A-Z]{3})\s?(?=[\d(-])|[\d)]\s?([A-Z]{3})\b/g)]
+    .map(match => match[1] || match[2])
+    .filter(code => ISO_CURRENCIES.has(code));
+  for (const [mark, code] of CURRENCY_SYMBOLS) {
+    const count = (text.match(symbolPattern(mark, 'g')) || []).length;
+    mentions.push(...Array(count).fill(code));
+    // "$" also matches inside "HK$" and the like
+    text = text.replace(symbolPattern(mark, 'g'), ' ');
+  }
+  return mentions;
+}
+
+function mostFrequent(values) {
+  const counts = new Map();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+}
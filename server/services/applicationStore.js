@@ -0,0 +1,167 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { fileURLToPath } from 'url';
+import { reviewOf, effectiveRecommendation } from './reviewWorkflow.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, '../data');
+
+// Embedded JSON-file store for applicant records and their assessments.
+// The whole collection is cached in memory and written atomically on change.
+// Records are keyed by id in an object without a prototype, and only its own
+// keys count, so ids such as "__proto__" or "constructor" find nothing.
+class ApplicationStore {
+  constructor(filePath) {
+    this.filePath = filePath;
+    this.applications = null;
+    this.writeQueue = Promise.resolve();
+  }
+
+  async load() {
+    if (this.applications) {
+      return this.applications;
+    }
+
+    await fs.ensureDir(path.dirname(this.filePath));
+
+    if (await fs.pathExists(this.filePath)) {
+      try {
+        const data = await fs.readJson(this.filePath);
+        this.applications = Object.assign(Object.create(null), data.applications);
+      } catch (error) {
+        console.error('Failed to read application store, starting empty:', error.message);
+        this.applications = Object.create(null);
+      }
+    } else {
+      this.applications = Object.create(null);
+    }
+
+    return this.applications;
+  }
+
+  // Serialize writes so concurrent updates never interleave on disk
+  persist() {
+    this.writeQueue = this.writeQueue
+      .catch(() => {})
+      .then(async () => {
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.writeJson(tempPath, { version: 1, applications: this.applications }, { spaces: 2 });
+        await fs.move(tempPath, this.filePath, { overwrite: true });
+      });
+
+    return this.writeQueue;
+  }
+
+  async create({ applicant = {}, results, jobId = null }) {
+    const applications = await this.load();
+
+    const id = uuidv4();
+    const now = new Date().toISOString();
+    const application = {
+      id,
+      applicantName: (applicant.name || '').toString().trim() || 'Unnamed applicant',
+      referenceNumber: (applicant.referenceNumber || '').toString().trim() || generateReferenceNumber(id, now),
+      jobId,
+      createdAt: now,
+      updatedAt: now,
+      results
+    };
+
+    applications[id] = application;
+    await this.persist();
+
+    console.log(`💾 Saved application ${application.referenceNumber} (${id})`);
+    return application;
+  }
+
+  async list() {
+    const applications = await this.load();
+
+    return Object.values(applications)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+      .map(summarizeApplication);
+  }
+
+  async get(id) {
+    const applications = await this.load();
+    return Object.hasOwn(applications, id) ? applications[id] : null;
+  }
+
+  // `patch` may be a function of the current record, so read-modify-write
+  // updates can't interleave with other requests
+  async update(id, patch) {
+    const applications = await this.load();
+    const application = Object.hasOwn(applications, id) ? applications[id] : null;
+    if (!application) {
+      return null;
+    }
+
+    const changes = typeof patch === 'function' ? patch(application) : patch;
+    Object.assign(application, changes, { id, updatedAt: new Date().toISOString() });
+    await this.persist();
+
+    return application;
+  }
+
+  // Saved assessments that include a document with this content hash
+  async findByDocumentHash(sha256) {
+    const applications = await this.load();
+    const matches = [];
+
+    for (const application of Object.values(applications)) {
+      for (const file of application.results?.files || []) {
+        if (file.sha256 && file.sha256 === sha256) {
+          matches.push({
+            applicationId: application.id,
+            applicantName: application.applicantName,
+            referenceNumber: application.referenceNumber,
+            createdAt: application.createdAt,
+            fileName: file.fileName
+          });
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  async delete(id) {
+    const applications = await this.load();
+    if (!Object.hasOwn(applications, id)) {
+      return false;
+    }
+
+    delete applications[id];
+    await this.persist();
+
+    return true;
+  }
+}
+
+export function summarizeApplication(application) {
+  const results = application.results || {};
+  const recommendation = effectiveRecommendation(application);
+
+  return {
+    id: application.id,
+    applicantName: application.applicantName,
+    referenceNumber: application.referenceNumber,
+    createdAt: application.createdAt,
+    updatedAt: application.updatedAt,
+    score: recommendation.score ?? null,
+    rating: recommendation.rating ?? null,
+    riskLevel: results.overallRisk ?? null,
+    documentCount: results.files?.length || 0,
+    reviewStatus: reviewOf(application).status
+  };
+}
+
+function generateReferenceNumber(id, timestamp) {
+  const datePart = timestamp.slice(0, 10).replace(/-/g, '');
+  return `APP-${datePart}-${id.slice(0, 6).toUpperCase()}`;
+}
+
+export const applicationStore = new ApplicationStore(path.join(DATA_DIR, 'applications.json'));
@@ -0,0 +1,169 @@
+import crypto from 'crypto';
+import { userStore } from './userStore.js';
+import { config } from '../config.js';
+
+// Authentication (signed bearer tokens for local accounts, API keys for
+// system-to-system use) and role-based permissions per route.
+
+export const PERMISSIONS = {
+  analyst: ['upload', 'process', 'view_results'],
+  underwriter: ['upload', 'process', 'view_results', 'review', 'view_pii'],
+  admin: ['upload', 'process', 'view_results', 'review', 'view_pii', 'admin']
+};
+
+const PERMISSION_LABELS = {
+  upload: 'upload documents',
+  process: 'process documents',
+  view_results: 'view results',
+  review: 'review assessments',
+  view_pii: 'see unmasked personal data',
+  admin: 'perform admin actions'
+};
+
+export class AuthError extends Error {
+  constructor(message, statusCode = 401) {
+    super(message);
+    this.name = 'AuthError';
+    this.statusCode = statusCode;
+  }
+}
+
+// Without a configured secret, tokens only last as long as the process
+const tokenSecret = config.auth.tokenSecret || crypto.randomBytes(32).toString('hex');
+
+export function issueToken(user) {
+  const expiresAt = new Date(Date.now() + config.auth.tokenTtlHours * 60 * 60 * 1000);
+  const payload = base64url(JSON.stringify({ sub: user.username, role: user.role, exp: expiresAt.getTime() }));
+  return { token: `${payload}.${sign(payload)}`, expiresAt: expiresAt.toISOString() };
+}
+
+export async function login(username, password) {
+  const user = await userStore.verifyPassword(username, password);
+  if (!user) {
+    throw new AuthError('Invalid username or password');
+  }
+  return { ...issueToken(user), user };
+}
+
+// Express middleware: identifies the caller from `Authorization: Bearer <token>`,
+// `X-API-Key`, or an `access_token` query parameter on GET requests (for
+// EventSource and <img>, which can't send headers). Sets req.user, or null.
+export async function authenticate(req, res, next) {
+  req.user = null;
+
+  if (!config.auth.enabled) {
+    return next();
+  }
+
+  try {
+    const apiKey = req.get('X-API-Key');
+    const bearer = req.get('Authorization')?.match(/^Bearer\s+(.+)$/i)?.[1];
+    const token = bearer || (req.method === 'GET' && typeof req.query.access_token === 'string' ? req.query.access_token : null);
+
+    if (apiKey) {
+      req.user = userForApiKey(apiKey);
+    } else if (token) {
+      req.user = await userForToken(token);
+    }
+    next();
+  } catch (error) {
+    if (error instanceof AuthError) {
+      return res.status(error.statusCode).json({ error: error.message });
+    }
+    next(error);
+  }
+}
+
+// Route guard: 401 without a signed-in caller, 403 when their role lacks the permission
+export function requirePermission(permission) {
+  return (req, res, next) => {
+    if (!config.auth.enabled) {
+      return next();
+    }
+    if (!req.user) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    if (!hasPermission(req.user, permission)) {
+      return res.status(403).json({ error: `The ${req.user.role} role may not ${PERMISSION_LABELS[permission]}` });
+    }
+    next();
+  };
+}
+
+export function hasPermission(user, permission) {
+  if (!config.auth.enabled) {
+    return true;
+  }
+  return Boolean(user && PERMISSIONS[user.role]?.includes(permission));
+}
+
+export function permissionsOf(user) {
+  if (!config.auth.enabled) {
+    return PERMISSIONS.admin;
+  }
+  return user ? PERMISSIONS[user.role] || [] : [];
+}
+
+// Creates the configured admin account when there are no users yet
+export async function ensureBootstrapAdmin() {
+  if (!config.auth.enabled || await userStore.count() > 0) {
+    return;
+  }
+
+  const { username, password } = config.auth.bootstrapAdmin;
+  if (!username || !password) {
+    console.warn('⚠️  Authentication is enabled but no users exist. Set AUTH_ADMIN_USERNAME and AUTH_ADMIN_PASSWORD to create the first admin.');
+    return;
+  }
+
+  await userStore.create({ username, password, role: 'admin' });
+}
+
+function userForApiKey(presented) {
+  const apiKey = config.auth.apiKeys.find(candidate => candidate.key && safeEqual(candidate.key, presented));
+  if (!apiKey) {
+    throw new AuthError('Invalid API key');
+  }
+  if (!PERMISSIONS[apiKey.role]) {
+    throw new AuthError(`API key ${apiKey.name} has an unknown role`, 403);
+  }
+  return { username: `api-key:${apiKey.name}`, displayName: apiKey.name, role: apiKey.role, apiKey: true };
+}
+
+async function userForToken(token) {
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature || !safeEqual(sign(payload), signature)) {
+    throw new AuthError('Invalid token');
+  }
+
+  let claims;
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    throw new AuthError('Invalid token');
+  }
+  if (!claims.exp || claims.exp < Date.now()) {
+    throw new AuthError('Session expired, sign in again');
+  }
+
+  // Deleted accounts lose access immediately
+  const user = await userStore.get(claims.sub);
+  if (!user) {
+    throw new AuthError('Account no longer exists');
+  }
+  return user;
+}
+
+function sign(payload) {
+  return crypto.createHmac('sha256', tokenSecret).update(payload).digest('base64url');
+}
+
+function base64url(text) {
+  return Buffer.from(text, 'utf8').toString('base64url');
+}
+
+function safeEqual(expected, presented) {
+  const a = Buffer.from(String(expected));
+  const b = Buffer.from(String(presented));
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
@@ -0,0 +1,272 @@
+// Merges per-page bank statement extractions into one normalized ledger and
+// computes cash-flow metrics from it deterministically.
+
+const NSF_PATTERN = /\b(nsf|insufficient funds|returned item|returned cheque|returned check|unpaid item|bounced)\b/i;
+const OVERDRAFT_PATTERN = /\b(overdraft|overdrawn|od fee|od charge)\b/i;
+const BALANCE_MARKER_PATTERN = /\b(brought forward|carried forward|opening balance|closing balance|balance forward|previous balance)\b/i;
+
+const LARGEST_DEPOSIT_COUNT = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Balances are compared to the cent
+const round = value => Math.round(value * 100) / 100;
+
+// Merge the transaction rows of every page into one chronological ledger.
+// Rows keep the `pageNumber` of the page they were read from as `page`.
+export function buildLedger(pages) {
+  const rows = [];
+  let skippedRows = 0;
+  let previousPageRows = [];
+
+  for (const page of pages) {
+    const pageRows = [];
+
+    for (const transaction of page.transactions || []) {
+      const date = normalizeDate(transaction.date);
+      // Amounts that couldn't be parsed are null (see amountNormalizer.js)
+      const amount = transaction.amount === null ? NaN : Number(transaction.amount);
+      const description = String(transaction.description || '').trim();
+
+      if (!date || !Number.isFinite(amount) || BALANCE_MARKER_PATTERN.test(description)) {
+        skippedRows++;
+        continue;
+      }
+
+      pageRows.push({
+        date,
+        description,
+        amount: round(amount),
+        balance: Number.isFinite(transaction.balance) ? round(transaction.balance) : null,
+        page: page.pageNumber ?? null
+      });
+    }
+
+    // Statements often repeat the last rows of a page at the top of the next one
+    const overlap = countBoundaryOverlap(previousPageRows, pageRows);
+    skippedRows += overlap;
+    rows.push(...pageRows.slice(overlap));
+    previousPageRows = pageRows;
+  }
+
+  const openingBalance = pages.map(page => page.openingBalance).find(Number.isFinite) ?? null;
+  const closingBalance = [...pages].reverse().map(page => page.closingBalance).find(Number.isFinite) ?? null;
+
+  // Stable sort keeps same-day rows in statement order
+  const transactions = rows
+    .map((row, index) => ({ ...row, index }))
+    .sort((a, b) => a.date.localeCompare(b.date) || a.index - b.index)
+    .map(({ index, ...row }) => row);
+
+  correctAmountSigns(transactions, openingBalance);
+
+  return { transactions, openingBalance, closingBalance, skippedRows };
+}
+
+export function computeCashFlowMetrics(ledger) {
+  const { transactions } = ledger;
+  if (transactions.length === 0) {
+    return null;
+  }
+
+  const periodStart = transactions[0].date;
+  const periodEnd = transactions[transactions.length - 1].date;
+  const deposits = transactions.filter(t => t.amount > 0);
+
+  const monthly = summarizeMonths(transactions);
+  const totalInflows = round(deposits.reduce((sum, t) => sum + t.amount, 0));
+  const totalOutflows = round(transactions.filter(t => t.amount < 0).reduce((sum, t) => sum - t.amount, 0));
+
+  const dailyBalances = computeDailyBalances(ledger);
+  const averageDailyBalance = dailyBalances.length > 0
+    ? round(dailyBalances.reduce((sum, day) => sum + day.balance, 0) / dailyBalances.length)
+    : null;
+
+  return {
+    periodStart,
+    periodEnd,
+    transactionCount: transactions.length,
+    totalInflows,
+    totalOutflows,
+    averageMonthlyInflows: round(totalInflows / monthly.length),
+    averageMonthlyOutflows: round(totalOutflows / monthly.length),
+    monthly,
+    openingBalance: estimateOpeningBalance(ledger),
+    endingBalance: dailyBalances.length > 0 ? dailyBalances[dailyBalances.length - 1].balance : ledger.closingBalance,
+    averageDailyBalance,
+    // One entry per day of the range, too many to spread into Math.min for long ranges
+    lowestBalance: dailyBalances.length > 0 ? dailyBalances.reduce((lowest, day) => Math.min(lowest, day.balance), Infinity) : null,
+    negativeBalanceDays: dailyBalances.filter(day => day.balance < 0).length,
+    nsfCount: transactions.filter(t => NSF_PATTERN.test(t.description)).length,
+    overdraftCount: transactions.filter(t => t.amount < 0 && OVERDRAFT_PATTERN.test(t.description)).length,
+    largestDeposits: [...deposits]
+      .sort((a, b) => b.amount - a.amount)
+      .slice(0, LARGEST_DEPOSIT_COUNT)
+      .map(({ date, description, amount }) => ({ date, description, amount })),
+    incomeRegularity: computeIncomeRegularity(deposits, monthly)
+  };
+}
+
+// Accepts ISO dates and the unambiguous formats models tend to fall back to
+export function normalizeDate(value) {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const iso = value.trim().match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const parsed = iso
+    ? new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])))
+    : new Date(`${value.trim()} UTC`);
+
+  if (Number.isNaN(parsed.getTime())) {
+    return null;
+  }
+  return parsed.toISOString().slice(0, 10);
+}
+
+function countBoundaryOverlap(previousRows, rows) {
+  const isSameRow = (a, b) =>
+    a.date === b.date && a.amount === b.amount && a.balance === b.balance && a.description === b.description;
+
+  for (let size = Math.min(previousRows.length, rows.length); size > 0; size--) {
+    const tail = previousRows.slice(previousRows.length - size);
+    if (tail.every((row, i) => isSameRow(row, rows[i]))) {
+      return size;
+    }
+  }
+  return 0;
+}
+
+// When consecutive running balances disagree with an amount's sign but agree
+// with its opposite, the debit/credit column was misread
+function correctAmountSigns(transactions, openingBalance) {
+  let previousBalance = openingBalance;
+
+  for (const transaction of transactions) {
+    if (previousBalance !== null && transaction.balance !== null) {
+      const expected = round(previousBalance + transaction.amount);
+      const flipped = round(previousBalance - transaction.amount);
+      if (expected !== transaction.balance && flipped === transaction.balance) {
+        transaction.amount = -transaction.amount;
+      }
+    }
+    previousBalance = transaction.balance ?? (previousBalance !== null ? round(previousBalance + transaction.amount) : null);
+  }
+}
+
+function summarizeMonths(transactions) {
+  const months = new Map();
+
+  for (const transaction of transactions) {
+    const month = transaction.date.slice(0, 7);
+    const summary = months.get(month) || { month, inflows: 0, outflows: 0, net: 0, depositCount: 0 };
+    if (transaction.amount > 0) {
+      summary.inflows = round(summary.inflows + transaction.amount);
+      summary.depositCount++;
+    } else {
+      summary.outflows = round(summary.outflows - transaction.amount);
+    }
+    summary.net = round(summary.inflows - summary.outflows);
+    months.set(month, summary);
+  }
+
+  // Include months with no activity so averages aren't inflated
+  const first = transactions[0].date.slice(0, 7);
+  const last = transactions[transactions.length - 1].date.slice(0, 7);
+  const result = [];
+  for (let month = first; month <= last; month = nextMonth(month)) {
+    result.push(months.get(month) || { month, inflows: 0, outflows: 0, net: 0, depositCount: 0 });
+  }
+  return result;
+}
+
+function nextMonth(month) {
+  const [year, monthIndex] = month.split('-').map(Number);
+  return monthIndex === 12
+    ? `${year + 1}-01`
+    : `${year}-${String(monthIndex + 1).padStart(2, '0')}`;
+}
+
+function estimateOpeningBalance(ledger) {
+  if (ledger.openingBalance !== null) {
+    return ledger.openingBalance;
+  }
+
+  // Work back from the first printed running balance
+  const firstWithBalance = ledger.transactions.findIndex(t => t.balance !== null);
+  if (firstWithBalance === -1) {
+    return null;
+  }
+  const movementBefore = ledger.transactions
+    .slice(0, firstWithBalance + 1)
+    .reduce((sum, t) => sum + t.amount, 0);
+  return round(ledger.transactions[firstWithBalance].balance - movementBefore);
+}
+
+// End-of-day balance for every calendar day in the statement period, carrying
+// balances forward over days without transactions
+function computeDailyBalances(ledger) {
+  const openingBalance = estimateOpeningBalance(ledger);
+  if (openingBalance === null) {
+    return [];
+  }
+
+  const endOfDay = new Map();
+  let balance = openingBalance;
+  for (const transaction of ledger.transactions) {
+    balance = transaction.balance ?? round(balance + transaction.amount);
+    endOfDay.set(transaction.date, balance);
+  }
+
+  const start = Date.parse(ledger.transactions[0].date);
+  const end = Date.parse(ledger.transactions[ledger.transactions.length - 1].date);
+  const days = [];
+  balance = openingBalance;
+  for (let time = start; time <= end; time += DAY_MS) {
+    const date = new Date(time).toISOString().slice(0, 10);
+    balance = endOfDay.get(date) ?? balance;
+    days.push({ date, balance });
+  }
+  return days;
+}
+
+// Score 0-100: how evenly deposits arrive across months and how much comes
+// from sources that recur in most months (e.g. payroll)
+function computeIncomeRegularity(deposits, monthly) {
+  const monthsWithDeposits = monthly.filter(month => month.inflows > 0).length;
+  const inflows = monthly.map(month => month.inflows);
+  const mean = inflows.reduce((sum, value) => sum + value, 0) / inflows.length;
+  const variance = inflows.reduce((sum, value) => sum + (value - mean) ** 2, 0) / inflows.length;
+  const coefficientOfVariation = mean > 0 ? round(Math.sqrt(variance) / mean) : null;
+
+  // Group deposits by payer, ignoring reference numbers and dates in the description
+  const sources = new Map();
+  for (const deposit of deposits) {
+    const source = deposit.description.toUpperCase().replace(/[^A-Z ]/g, ' ').replace(/\s+/g, ' ').trim();
+    const entry = sources.get(source) || { months: new Set(), total: 0 };
+    entry.months.add(deposit.date.slice(0, 7));
+    entry.total += deposit.amount;
+    sources.set(source, entry);
+  }
+
+  const recurringThreshold = Math.max(2, Math.ceil(monthly.length * 0.6));
+  const recurringSources = [...sources.entries()]
+    .filter(([, entry]) => entry.months.size >= recurringThreshold)
+    .map(([source, entry]) => ({ source, months: entry.months.size, total: round(entry.total) }));
+
+  const totalDeposits = deposits.reduce((sum, deposit) => sum + deposit.amount, 0);
+  const recurringShare = totalDeposits > 0
+    ? recurringSources.reduce((sum, source) => sum + source.total, 0) / totalDeposits
+    : 0;
+
+  const consistency = coefficientOfVariation === null ? 0 : Math.max(0, 1 - coefficientOfVariation);
+  const coverage = monthsWithDeposits / monthly.length;
+  const score = Math.round((consistency * 0.4 + coverage * 0.3 + recurringShare * 0.3) * 100);
+
+  return {
+    score,
+    monthsWithDeposits,
+    totalMonths: monthly.length,
+    coefficientOfVariation,
+    recurringSources
+  };
+}
@@ -1,42 +1,109 @@
 import { ollamaClient } from './ollamaClient.js';
+import { loadScorecard, evaluateScorecard } from './scorecard.js';
+import { createPiiTokenizer } from './pii.js';
+import { assessAffordability } from './affordability.js';
+import { config } from '../config.js';
 
-export async function analyzeCredit(processedResults) {
+// 'llm' asks the reasoning model and falls back to the scorecard when it fails;
+// 'scorecard' scores deterministically from the rules file only
+export const SCORING_MODES = ['llm', 'scorecard'];
+
+export async function analyzeCredit(processedResults, { scoringMode = config.scoring.mode, loanRequest = null } = {}) {
+  // Prepare data for the reasoning model
+  const extractedDataArray = processedResults.map(result => ({
+    fileName: result.fileName,
+    documentType: result.extractedData.documentType,
+    keyInformation: result.extractedData.keyInformation,
+    // Monetary metrics are in the base currency; see `currency` for the document's own
+    financialMetrics: result.extractedData.financialMetrics,
+    currency: result.extractedData.currency,
+    ratios: result.extractedData.ratios,
+    riskFactors: result.extractedData.riskFactors,
+    confidence: result.extractedData.confidence || 80,
+    processingTime: result.processingTime,
+    imageCount: result.imageCount
+  }));
+
+  const documentSummary = {
+    totalDocuments: processedResults.length,
+    baseCurrency: config.currency.baseCurrency,
+    documentTypes: [...new Set(processedResults.map(r => r.extractedData.documentType))],
+    documentTypeCounts: processedResults.reduce((counts, r) => {
+      counts[r.extractedData.documentType] = (counts[r.extractedData.documentType] || 0) + 1;
+      return counts;
+    }, {}),
+    averageConfidence: Math.round(
+      extractedDataArray.reduce((sum, data) => sum + (data.confidence || 80), 0) / extractedDataArray.length
+    ),
+    totalProcessingTime: processedResults.reduce((sum, r) => sum + r.processingTime, 0),
+    totalImages: processedResults.reduce((sum, r) => sum + r.imageCount, 0)
+  };
+
+  // The scorecard is always evaluated, so its breakdown is available next to the model's view
+  let scorecard = null;
   try {
-    // Prepare data for the reasoning model
-    const extractedDataArray = processedResults.map(result => ({
-      fileName: result.fileName,
-      documentType: result.extractedData.documentType,
-      keyInformation: result.extractedData.keyInformation,
-      financialMetrics: result.extractedData.financialMetrics,
-      riskFactors: result.extractedData.riskFactors,
-      confidence: result.extractedData.confidence || 80,
-      processingTime: result.processingTime,
-      imageCount: result.imageCount
-    }));
-
-    const documentSummary = {
-      totalDocuments: processedResults.length,
-      documentTypes: [...new Set(processedResults.map(r => r.extractedData.documentType))],
-      averageConfidence: Math.round(
-        extractedDataArray.reduce((sum, data) => sum + (data.confidence || 80), 0) / extractedDataArray.length
+    scorecard = evaluateScorecard(loadScorecard(config.scoring.scorecardFile), processedResults);
+  } catch (error) {
+    if (scoringMode === 'scorecard') {
+      throw error;
+    }
+    console.error('Scorecard evaluation failed:', error.message);
+  }
+
+  // The requested loan at the scorecard's rate; reassessed at the rate finally recommended
+  const affordabilityAt = interestRate => (loanRequest
+    ? assessAffordability(loanRequest, processedResults, interestRate !== undefined ? { interestRate } : {})
+    : null);
+  const initialAffordability = affordabilityAt(scorecard?.interestRate);
+
+  if (scoringMode === 'scorecard') {
+    return {
+      recommendation: generateScorecardRecommendation(
+        scorecard,
+        processedResults,
+        'Deterministic scorecard analysis',
+        initialAffordability
       ),
-      totalProcessingTime: processedResults.reduce((sum, r) => sum + r.processingTime, 0),
-      totalImages: processedResults.reduce((sum, r) => sum + r.imageCount, 0)
+      overallRisk: scorecard.riskLevel,
+      confidence: calculateFallbackConfidence(processedResults),
+      documentSummary,
+      scorecard,
+      modelInfo: {
+        ...ollamaClient.getModelInfo(),
+        analysisModel: describeScorecard(scorecard),
+        scoringMode,
+        totalProcessingTime: documentSummary.totalProcessingTime
+      }
     };
+  }
 
-    console.log('Generating credit recommendation with deepseek-r1:8b...');
+  try {
+    console.log(`Generating credit recommendation with ${ollamaClient.reasoningModel}...`);
     
-    // Use deepseek-r1:8b for comprehensive credit analysis
+    // With prompt tokenization on, the model sees placeholders instead of
+    // account numbers, tax IDs and addresses; its answer gets the values back
+    const tokenizer = config.pii.tokenizePrompts ? createPiiTokenizer() : null;
+
+    // Use the reasoning model for comprehensive credit analysis
     const creditRecommendation = await ollamaClient.generateCreditRecommendation(
-      extractedDataArray, 
-      documentSummary
+      tokenizer ? tokenizer.tokenize(extractedDataArray) : extractedDataArray,
+      documentSummary,
+      initialAffordability && withoutSchedule(initialAffordability)
     );
 
     // Validate and sanitize the recommendation
-    const sanitizedRecommendation = sanitizeCreditRecommendation(creditRecommendation);
+    const sanitizedRecommendation = sanitizeCreditRecommendation(
+      tokenizer ? tokenizer.detokenize(creditRecommendation) : creditRecommendation,
+      loanRequest
+    );
+    sanitizedRecommendation.affordability = affordabilityAt(sanitizedRecommendation.interestRate);
+    sanitizedRecommendation.maxCreditLimit = capAtAffordable(
+      sanitizedRecommendation.maxCreditLimit,
+      sanitizedRecommendation.affordability
+    );
 
     // Calculate overall risk based on the AI recommendation
-    const overallRisk = sanitizedRecommendation.riskLevel || calculateFallbackRisk(processedResults);
+    const overallRisk = sanitizedRecommendation.riskLevel || scorecard?.riskLevel || 'Medium';
     
     // Use AI confidence or calculate fallback
     const confidence = sanitizedRecommendation.confidence || calculateFallbackConfidence(processedResults);
@@ -46,32 +113,47 @@ export async function analyzeCredit(processedResults) {
       overallRisk,
       confidence,
       documentSummary,
+      scorecard,
       modelInfo: {
-        extractionModel: 'qwen2.5vl:7b',
-        analysisModel: 'deepseek-r1:8b',
+        ...ollamaClient.getModelInfo(),
+        scoringMode,
         totalProcessingTime: documentSummary.totalProcessingTime
       }
     };
   } catch (error) {
-    console.error('Credit analysis failed, using fallback:', error);
+    if (!scorecard) {
+      throw new Error(`Credit analysis failed and no scorecard is available: ${error.message}`);
+    }
+
+    console.error('Credit analysis failed, using scorecard:', error);
     
-    // Fallback to rule-based analysis if AI fails
+    // Fall back to the deterministic scorecard if AI fails
     return {
-      recommendation: generateFallbackRecommendation(processedResults),
-      overallRisk: calculateFallbackRisk(processedResults),
+      recommendation: generateScorecardRecommendation(
+        scorecard,
+        processedResults,
+        'Scorecard analysis used due to AI model unavailability',
+        initialAffordability
+      ),
+      overallRisk: scorecard.riskLevel,
       confidence: calculateFallbackConfidence(processedResults),
-      error: 'AI analysis failed, using fallback rules',
+      documentSummary,
+      scorecard,
+      error: 'AI analysis failed, using scorecard',
       modelInfo: {
-        extractionModel: 'qwen2.5vl:7b',
-        analysisModel: 'fallback-rules',
+        ...ollamaClient.getModelInfo(),
+        analysisModel: describeScorecard(scorecard),
+        scoringMode,
         error: error.message
       }
     };
   }
 }
 
-// Sanitize and validate credit recommendation data
-function sanitizeCreditRecommendation(recommendation) {
+// Sanitize and validate credit recommendation data. The limit for a loan
+// request is at most the amount requested, and is then held to the
+// affordable amount at the recommended rate.
+function sanitizeCreditRecommendation(recommendation, loanRequest) {
   const sanitized = {
     score: Math.max(300, Math.min(850, recommendation.creditScore || 650)),
     rating: validateRating(recommendation.rating) || 'Fair',
@@ -82,10 +164,14 @@ function sanitizeCreditRecommendation(recommendation) {
     maxCreditLimit: Math.max(0, recommendation.maxCreditLimit || 10000),
     interestRate: Math.max(0, Math.min(50, recommendation.interestRate || 15.0)),
     reasoning: (recommendation.reasoning || '').toString().trim() || 'Analysis completed',
-    analysisModel: recommendation.analysisModel || 'deepseek-r1:8b',
+    analysisModel: recommendation.analysisModel || ollamaClient.reasoningModel,
     generatedAt: recommendation.generatedAt || new Date().toISOString()
   };
 
+  if (loanRequest) {
+    sanitized.maxCreditLimit = Math.min(sanitized.maxCreditLimit, loanRequest.amount);
+  }
+
   return sanitized;
 }
 
@@ -110,86 +196,72 @@ function sanitizeStringArray(arr, fallback) {
   return sanitized.length > 0 ? sanitized : [fallback];
 }
 
-// Fallback functions for when AI analysis fails
-function generateFallbackRecommendation(results) {
-  let baseScore = 650;
-  let riskLevel = 'Medium';
-  
-  // Analyze financial metrics
-  const financialData = results
-    .filter(r => r.extractedData.financialMetrics)
-    .map(r => r.extractedData.financialMetrics);
-  
-  if (financialData.length > 0) {
-    const avgIncome = financialData.reduce((sum, data) => sum + (data.monthlyIncome || data.annualRevenue || 0), 0) / financialData.length;
-    const avgAssets = financialData.reduce((sum, data) => sum + (data.totalAssets || data.accountBalance || 0), 0) / financialData.length;
-    
-    if (avgIncome > 30000 && avgAssets > 75000) {
-      baseScore += 100;
-      riskLevel = 'Low';
-    } else if (avgIncome > 15000 && avgAssets > 25000) {
-      baseScore += 50;
-    } else {
-      baseScore -= 50;
-      riskLevel = 'High';
-    }
-  }
-
-  // Adjust for risk factors
-  const totalRiskFactors = results.reduce((sum, r) => sum + (r.extractedData.riskFactors?.length || 0), 0);
-  baseScore -= totalRiskFactors * 15;
-
-  // Ensure score is within bounds
-  const score = Math.max(300, Math.min(850, baseScore));
-  
-  const rating = getScoreRating(score);
-  const maxCreditLimit = calculateCreditLimit(score);
-  const interestRate = calculateInterestRate(score);
+// Recommendation built from a scorecard evaluation, used in scorecard mode and
+// when AI analysis fails. With a loan request, the limit is also held to the
+// amount the applicant can afford.
+function generateScorecardRecommendation(scorecard, results, reasoning, affordability = null) {
+  const { score, rating, riskLevel, interestRate } = scorecard;
+  const maxCreditLimit = capAtAffordable(scorecard.maxCreditLimit, affordability);
 
   return {
     score,
     rating,
     riskLevel,
     recommendation: generateFallbackRecommendationText(score, rating, results),
-    keyFactors: generateFallbackKeyFactors(results),
+    keyFactors: generateScorecardKeyFactors(scorecard),
     improvementSuggestions: generateFallbackImprovementSuggestions(results),
     maxCreditLimit,
     interestRate,
-    reasoning: 'Fallback rule-based analysis used due to AI model unavailability',
-    analysisModel: 'fallback-rules'
+    reasoning: `${reasoning} (${describeScorecard(scorecard)}): base score ${scorecard.baseScore}, ` +
+      `${scorecard.contributions.map(c => `${c.label} ${formatPoints(c.points)}`).join(', ')}.`,
+    analysisModel: describeScorecard(scorecard),
+    affordability,
+    generatedAt: new Date().toISOString()
   };
 }
 
-function getScoreRating(score) {
-  if (score >= 800) return 'Excellent';
-  if (score >= 740) return 'Good';
-  if (score >= 670) return 'Fair';
-  if (score >= 580) return 'Poor';
-  return 'Very Poor';
+// A credit limit held to the amount the applicant can afford, when that is known
+function capAtAffordable(limit, affordability) {
+  return affordability?.recommendedAmount !== null && affordability?.recommendedAmount !== undefined
+    ? Math.min(limit, affordability.recommendedAmount)
+    : limit;
 }
 
-function calculateCreditLimit(score) {
-  if (score >= 800) return 50000;
-  if (score >= 740) return 25000;
-  if (score >= 670) return 15000;
-  if (score >= 580) return 8000;
-  return 3000;
+// The schedule has a row per month; the prompt gets the totals
+function withoutSchedule(affordability) {
+  const { schedule, ...rest } = affordability;
+  return rest;
 }
 
-function calculateInterestRate(score) {
-  if (score >= 800) return 6.5;
-  if (score >= 740) return 9.2;
-  if (score >= 670) return 13.5;
-  if (score >= 580) return 18.9;
-  return 24.9;
+function describeScorecard(scorecard) {
+  return `scorecard ${scorecard.name} v${scorecard.version}`;
+}
+
+function formatPoints(points) {
+  return points >= 0 ? `+${points}` : `${points}`;
+}
+
+// The variables that added the most points; deductions are in the breakdown
+function generateScorecardKeyFactors(scorecard) {
+  const factors = scorecard.contributions
+    .filter(c => c.points > 0)
+    .sort((a, b) => b.points - a.points)
+    .slice(0, 6)
+    .map(c => `${c.label}: ${c.bin} (${formatPoints(c.points)} points)`);
+
+  return factors.length > 0 ? factors : [`Scored with ${describeScorecard(scorecard)}`];
 }
 
 function generateFallbackRecommendationText(score, rating, results) {
   const hasFinancialDocs = results.some(r => r.extractedData.documentType === 'financial');
   const hasBankDocs = results.some(r => r.extractedData.documentType === 'bank_statement');
   const hasLegalDocs = results.some(r => r.extractedData.documentType === 'legal');
+  const hasIncomeDocs = results.some(r => ['payslip', 'tax_return'].includes(r.extractedData.documentType));
+  const identityStatuses = results
+    .filter(r => r.extractedData.documentType === 'identity')
+    .map(r => r.extractedData.keyInformation?.identityStatus);
 
-  let recommendation = `Based on rule-based analysis of ${results.length} document(s) extracted using qwen2.5vl:7b, the applicant shows a ${rating.toLowerCase()} credit profile with a score of ${score}. `;
+  let recommendation = `Based on rule-based analysis of ${results.length} document(s) extracted using ${ollamaClient.visionModel}, the applicant shows a ${rating.toLowerCase()} credit profile with a score of ${score}. `;
 
   if (hasFinancialDocs && hasBankDocs) {
     recommendation += "The comprehensive financial documentation provides strong evidence of financial stability and creditworthiness. ";
@@ -197,10 +269,20 @@ function generateFallbackRecommendationText(score, rating, results) {
     recommendation += "The financial documentation provides adequate evidence of creditworthiness, though additional documentation could strengthen the application. ";
   }
 
+  if (hasIncomeDocs) {
+    recommendation += "Payslips or tax returns provide direct evidence of the applicant's income. ";
+  }
+
   if (hasLegalDocs) {
     recommendation += "Legal documentation appears to be in order with no significant compliance issues identified. ";
   }
 
+  if (identityStatuses.includes('valid')) {
+    recommendation += "A valid identity document was provided. ";
+  } else if (identityStatuses.includes('expired')) {
+    recommendation += "The identity document provided has expired and should be replaced. ";
+  }
+
   if (score >= 740) {
     recommendation += "This applicant is recommended for approval with favorable terms.";
   } else if (score >= 670) {
@@ -212,29 +294,6 @@ function generateFallbackRecommendationText(score, rating, results) {
   return recommendation;
 }
 
-function generateFallbackKeyFactors(results) {
-  const factors = [];
-  
-  // Analyze document types
-  const docTypes = results.map(r => r.extractedData.documentType);
-  if (docTypes.includes('bank_statement')) {
-    factors.push('Bank statement analysis completed with qwen2.5vl:7b');
-  }
-  if (docTypes.includes('financial')) {
-    factors.push('Financial statement review conducted');
-  }
-  if (docTypes.includes('legal')) {
-    factors.push('Legal documentation verified');
-  }
-  
-  // Add processing-specific factors
-  factors.push('AI-powered document extraction using computer vision');
-  factors.push('Multi-document cross-validation performed');
-  factors.push('Automated risk assessment completed');
-  
-  return factors.slice(0, 6);
-}
-
 function generateFallbackImprovementSuggestions(results) {
   const suggestions = [];
   const riskFactors = results.flatMap(r => r.extractedData.riskFactors || []);
@@ -259,15 +318,6 @@ function generateFallbackImprovementSuggestions(results) {
   return suggestions.slice(0, 4);
 }
 
-function calculateFallbackRisk(results) {
-  const totalRiskFactors = results.reduce((sum, r) => sum + (r.extractedData.riskFactors?.length || 0), 0);
-  const avgRiskFactors = totalRiskFactors / results.length;
-  
-  if (avgRiskFactors < 1.5) return 'Low';
-  if (avgRiskFactors < 2.5) return 'Medium';
-  return 'High';
-}
-
 function calculateFallbackConfidence(results) {
   // Base confidence on successful processing
   let confidence = 75; // Lower for fallback
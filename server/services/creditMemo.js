@@ -0,0 +1,305 @@
+import PDFDocument from 'pdfkit';
+import { reviewOf, effectiveRecommendation } from './reviewWorkflow.js';
+
+// Credit memo exports of a saved assessment: a canonical JSON document and a
+// formatted PDF rendered from it, for attaching to the loan record.
+
+export const MEMO_FORMATS = ['pdf', 'json'];
+
+const MEMO_FORMAT_VERSION = 1;
+
+// Canonical form of an assessment. Keys are always emitted in the same order
+// and debugging fields (raw model output) are left out.
+export function buildCreditMemo(application, { exportedAt = new Date().toISOString() } = {}) {
+  const results = application.results || {};
+  // Decision figures include underwriter overrides; the model's originals are kept alongside
+  const recommendation = effectiveRecommendation(application);
+  const review = reviewOf(application);
+
+  return {
+    format: 'credit-memo',
+    formatVersion: MEMO_FORMAT_VERSION,
+    exportedAt,
+    application: {
+      id: application.id,
+      applicantName: application.applicantName,
+      referenceNumber: application.referenceNumber,
+      createdAt: application.createdAt,
+      updatedAt: application.updatedAt
+    },
+    decision: {
+      score: recommendation.score ?? null,
+      rating: recommendation.rating ?? null,
+      riskLevel: results.overallRisk ?? recommendation.riskLevel ?? null,
+      confidence: results.confidence ?? null,
+      maxCreditLimit: recommendation.maxCreditLimit ?? null,
+      interestRate: recommendation.interestRate ?? null,
+      recommendation: recommendation.recommendation ?? null,
+      reasoning: recommendation.reasoning ?? null,
+      keyFactors: recommendation.keyFactors || [],
+      improvementSuggestions: recommendation.improvementSuggestions || [],
+      generatedAt: recommendation.generatedAt ?? null
+    },
+    affordability: recommendation.affordability ?? null,
+    review: {
+      status: review.status,
+      decision: review.decision ?? null,
+      overrides: review.overrides
+    },
+    auditTrail: application.auditTrail || [],
+    documents: (results.files || []).map(file => ({
+      fileName: file.fileName,
+      documentType: file.extractedData?.documentType ?? 'unknown',
+      classification: file.classification
+        ? { source: file.classification.source, confidence: file.classification.confidence }
+        : null,
+      pageCount: file.pageCount ?? file.imageCount ?? null,
+      confidence: file.extractedData?.confidence ?? null,
+      error: file.error ?? null,
+      keyInformation: withoutDebugFields(file.extractedData?.keyInformation),
+      financialMetrics: file.extractedData?.financialMetrics ?? null,
+      originalFinancialMetrics: file.extractedData?.originalFinancialMetrics ?? null,
+      currency: file.extractedData?.currency ?? null,
+      cashFlow: file.extractedData?.cashFlow ?? null,
+      periods: file.extractedData?.periods ?? null,
+      ratios: file.extractedData?.ratios ?? null,
+      transactions: file.extractedData?.transactions ?? null,
+      payslips: file.extractedData?.payslips ?? null,
+      invoices: file.extractedData?.invoices ?? null,
+      provenance: file.extractedData?.provenance ?? null,
+      riskFactors: file.extractedData?.riskFactors || []
+    })),
+    reconciliation: results.reconciliation ?? null,
+    scorecard: results.scorecard ?? null,
+    modelInfo: results.modelInfo ?? null
+  };
+}
+
+export function creditMemoFileName(memo, format) {
+  const reference = (memo.application.referenceNumber || memo.application.id).replace(/[^A-Za-z0-9_-]+/g, '-');
+  return `credit-memo-${reference}-${memo.exportedAt.slice(0, 10)}.${format}`;
+}
+
+export function renderCreditMemoPdf(memo) {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({
+      size: 'A4',
+      margin: 50,
+      info: {
+        Title: `Credit Memo - ${memo.application.applicantName}`,
+        Subject: `Credit assessment ${memo.application.referenceNumber}`
+      }
+    });
+
+    const chunks = [];
+    doc.on('data', chunk => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+
+    writeMemo(doc, memo);
+    doc.end();
+  });
+}
+
+function writeMemo(doc, memo) {
+  const { application, decision } = memo;
+
+  doc.fontSize(20).font('Helvetica-Bold').text('Credit Memo');
+  doc.moveDown(0.3);
+  doc.fontSize(10).font('Helvetica').fillColor('#555555')
+    .text(`${application.applicantName} · Ref ${application.referenceNumber}`)
+    .text(`Assessment ${application.id} · created ${formatDate(application.createdAt)}`)
+    .text(`Recommendation generated ${formatDate(decision.generatedAt)} · exported ${formatDate(memo.exportedAt)}`);
+  doc.fillColor('black');
+
+  const { overrides } = memo.review;
+  const withOriginal = (field, text, format) => overrides[field]
+    ? `${text} (overridden; AI value ${format(overrides[field].originalValue)})`
+    : text;
+
+  section(doc, 'Decision Summary');
+  keyValues(doc, [
+    ['Review status', memo.review.status.replace('_', ' ')],
+    ['Credit score', withOriginal('score', decision.score, value => value)],
+    ['Rating', decision.rating],
+    ['Risk level', decision.riskLevel],
+    ['Confidence', decision.confidence !== null ? `${decision.confidence}%` : null],
+    ['Recommended credit limit', decision.maxCreditLimit !== null
+      ? withOriginal('maxCreditLimit', formatAmount(decision.maxCreditLimit), formatAmount)
+      : null],
+    ['Suggested interest rate', decision.interestRate !== null
+      ? withOriginal('interestRate', `${decision.interestRate}% APR`, value => `${value}%`)
+      : null]
+  ]);
+
+  if (memo.review.decision) {
+    const { status, user, at, comment } = memo.review.decision;
+    doc.moveDown(0.3);
+    paragraph(doc, `Decision: ${status} by ${user} on ${formatDate(at)}${comment ? ` - ${comment}` : ''}`);
+  }
+
+  if (memo.affordability) {
+    const { affordability } = memo;
+    const { loanRequest } = affordability;
+    section(doc, 'Loan Request and Affordability');
+    keyValues(doc, [
+      ['Requested', `${formatAmount(loanRequest.amount)} over ${loanRequest.termMonths} months`],
+      ['Product', loanRequest.productType.replace(/_/g, ' ')],
+      ['Purpose', loanRequest.purpose],
+      ['Applicant type', loanRequest.applicantType],
+      ['Collateral', loanRequest.collateralType === 'none'
+        ? 'none'
+        : `${loanRequest.collateralType.replace(/_/g, ' ')}${loanRequest.collateralValue !== null ? ` worth ${formatAmount(loanRequest.collateralValue)}` : ''}`],
+      ['Monthly installment', `${formatAmount(affordability.installment)} at ${affordability.interestRate}% APR`],
+      ['Debt-to-income after loan', affordability.debtToIncome !== null
+        ? `${affordability.debtToIncome}% (max ${affordability.maxDebtToIncome}%)`
+        : null],
+      ['Debt service coverage after loan', affordability.debtServiceCoverage !== null
+        ? `${affordability.debtServiceCoverage}x (min ${affordability.minDebtServiceCoverage}x)`
+        : null],
+      ['Loan to value', affordability.loanToValue !== null ? `${affordability.loanToValue}%` : null],
+      ['Affordable amount', affordability.recommendedAmount !== null
+        ? `${formatAmount(affordability.recommendedAmount)} (${affordability.status})`
+        : 'not enough income data']
+    ]);
+  }
+
+  section(doc, 'Recommendation');
+  paragraph(doc, decision.recommendation);
+  if (decision.reasoning) {
+    doc.moveDown(0.5);
+    paragraph(doc, decision.reasoning, { color: '#555555' });
+  }
+
+  section(doc, 'Key Factors');
+  bullets(doc, decision.keyFactors);
+
+  if (decision.improvementSuggestions.length > 0) {
+    section(doc, 'Areas for Improvement');
+    bullets(doc, decision.improvementSuggestions);
+  }
+
+  if (memo.reconciliation?.discrepancies.length > 0) {
+    section(doc, 'Cross-Document Discrepancies');
+    bullets(doc, memo.reconciliation.discrepancies.map(d => `[${d.severity}] ${d.message}`));
+  }
+
+  if (memo.scorecard) {
+    section(doc, `Scorecard (${memo.scorecard.name} v${memo.scorecard.version})`);
+    keyValues(doc, [
+      ['Base score', memo.scorecard.baseScore],
+      ...memo.scorecard.contributions.map(c => [
+        `${c.label} (${c.value === null ? 'not available' : c.value})`,
+        `${c.points >= 0 ? '+' : ''}${c.points}`
+      ]),
+      ['Scorecard score', memo.scorecard.score]
+    ]);
+  }
+
+  section(doc, 'Documents');
+  memo.documents.forEach(document => {
+    doc.fontSize(10).font('Helvetica-Bold').text(document.fileName);
+    const details = [
+      document.documentType.replace('_', ' '),
+      document.pageCount !== null ? `${document.pageCount} page(s)` : null,
+      document.confidence !== null ? `${document.confidence}% extraction confidence` : null,
+      document.error ? `failed: ${document.error}` : null
+    ].filter(Boolean).join(' · ');
+    doc.font('Helvetica').fillColor('#555555').text(details).fillColor('black');
+    if (document.ratios) {
+      const { ratios } = document;
+      const percent = value => (value !== null ? `${value}%` : null);
+      const times = value => (value !== null ? `${value}x` : null);
+      keyValues(doc, [
+        [`Period ended ${ratios.periodEnd}`, ratios.basis.replace(/_/g, ' ')],
+        ['Gross / operating / net margin', [ratios.grossMargin, ratios.operatingMargin, ratios.netMargin]
+          .map(value => percent(value) ?? '-').join(' / ')],
+        ['Current ratio', times(ratios.currentRatio)],
+        ['Debt to equity', times(ratios.debtToEquity)],
+        ['Debt to assets', times(ratios.debtToAssets)],
+        ['Debt service coverage', times(ratios.debtServiceCoverage)],
+        ['Revenue growth', percent(ratios.revenueGrowth)],
+        ['Net profit growth', percent(ratios.netProfitGrowth)]
+      ]);
+    }
+    if (document.riskFactors.length > 0) {
+      bullets(doc, document.riskFactors);
+    }
+    doc.moveDown(0.5);
+  });
+
+  if (memo.auditTrail.length > 0) {
+    section(doc, 'Review Audit Trail');
+    bullets(doc, memo.auditTrail.map(describeAuditEntry));
+  }
+
+  if (memo.modelInfo) {
+    section(doc, 'Model Information');
+    keyValues(doc, [
+      ['Provider', memo.modelInfo.provider],
+      ['Extraction model', memo.modelInfo.extractionModel],
+      ['Analysis model', memo.modelInfo.analysisModel],
+      ['Scoring mode', memo.modelInfo.scoringMode],
+      ['Analysis error', memo.modelInfo.error]
+    ]);
+  }
+}
+
+function describeAuditEntry(entry) {
+  const prefix = `${formatDate(entry.at)} ${entry.user}:`;
+  switch (entry.action) {
+    case 'override':
+      return `${prefix} set ${entry.field} from ${entry.previousValue} to ${entry.newValue} - ${entry.justification}`;
+    case 'override_removed':
+      return `${prefix} removed ${entry.field} override, back to ${entry.newValue} - ${entry.justification}`;
+    case 'status_changed':
+      return `${prefix} moved from ${entry.previousValue} to ${entry.newValue}${entry.comment ? ` - ${entry.comment}` : ''}`;
+    default:
+      return `${prefix} ${entry.action}`;
+  }
+}
+
+function section(doc, title) {
+  doc.moveDown(1);
+  doc.fontSize(13).font('Helvetica-Bold').fillColor('black').text(title);
+  doc.moveDown(0.3);
+}
+
+function paragraph(doc, text, { color = 'black' } = {}) {
+  doc.fontSize(10).font('Helvetica').fillColor(color).text(text || '-', { align: 'left' }).fillColor('black');
+}
+
+function bullets(doc, items) {
+  doc.fontSize(10).font('Helvetica');
+  if (items.length === 0) {
+    doc.text('-');
+    return;
+  }
+  items.forEach(item => doc.text(`•  ${item}`, { indent: 10 }));
+}
+
+// Rows with no value are omitted
+function keyValues(doc, rows) {
+  doc.fontSize(10);
+  rows
+    .filter(([, value]) => value !== null && value !== undefined)
+    .forEach(([label, value]) => {
+      doc.font('Helvetica-Bold').text(`${label}: `, { continued: true }).font('Helvetica').text(String(value));
+    });
+}
+
+function withoutDebugFields(keyInformation) {
+  if (!keyInformation) {
+    return null;
+  }
+  const { rawResponse, regions, ...rest } = keyInformation;
+  return rest;
+}
+
+function formatDate(value) {
+  return value ? new Date(value).toISOString().replace('T', ' ').slice(0, 16) + ' UTC' : '-';
+}
+
+function formatAmount(value) {
+  return `$${Number(value).toLocaleString('en-US')}`;
+}
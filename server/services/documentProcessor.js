@@ -3,20 +3,52 @@ import sharp from 'sharp';
 import fs from 'fs-extra';
 import path from 'path';
 import { fileURLToPath } from 'url';
-import { ollamaClient } from './ollamaClient.js';
+import { ollamaClient, EXTRACTION_PROMPT_VERSION } from './ollamaClient.js';
+import { withModelCallContext } from './modelCallLog.js';
+import { extractPdfText, hasUsableTextLayer, readPdfPageCount, renderPdfPage } from './pdfTextExtractor.js';
+import { buildLedger, computeCashFlowMetrics } from './bankStatementLedger.js';
+import { buildPeriods, annualFigures, computeFinancialRatios } from './financialStatements.js';
+import { SUPPORTING_DOCUMENT_COMBINERS } from './supportingDocuments.js';
+import { locatePageValues, mergePageValues, computedProvenance } from './fieldProvenance.js';
+import { savePagePreview } from './pagePreviews.js';
+import { hashFile } from './uploadGuard.js';
+import { mapWithConcurrency } from './modelScheduler.js';
+import { extractionCache, hashContent } from './extractionCache.js';
+import {
+  normalizePageAmounts,
+  resolveDocumentCurrency,
+  convertDocumentAmounts,
+  loadRateTable
+} from './amountNormalizer.js';
+import { config } from '../config.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
-export async function processDocuments(files) {
+export async function processDocuments(files, options = {}) {
+  const { signal, onEvent } = options;
   const results = [];
   
   for (const file of files) {
+    signal?.throwIfAborted();
+
+    const emit = (type, data = {}) => onEvent?.({ type, fileId: file.id, fileName: file.originalName, ...data });
+    emit('file_started');
+
     try {
       console.log(`Processing file: ${file.originalName}`);
-      const result = await processIndividualDocument(file);
+      const result = await withModelCallContext(
+        { fileId: file.id, fileName: file.originalName },
+        () => processIndividualDocument(file, { signal, emit })
+      );
       results.push(result);
+      emit('file_completed', { imageCount: result.imageCount, processingTime: result.processingTime });
     } catch (error) {
+      // Cancellation aborts the whole batch rather than marking one file as failed
+      if (signal?.aborted) {
+        throw error;
+      }
+
       console.error(`Failed to process ${file.originalName}:`, error);
       results.push({
         fileId: file.id,
@@ -31,55 +63,243 @@ export async function processDocuments(files) {
         imageCount: 0,
         processingTime: 0
       });
+      emit('file_failed', { error: error.message });
     }
   }
   
   return results;
 }
 
-async function processIndividualDocument(file) {
+// Classify documents from the content of their first page, before processing,
+// so the user can review the detected type
+export async function classifyDocuments(files) {
+  const results = [];
+
+  for (const file of files) {
+    const tempDir = path.join(__dirname, '../temp', `classify-${file.id}`);
+
+    try {
+      await fs.ensureDir(tempDir);
+      const firstPage = await readFirstPage(file, tempDir);
+      const classification = await withModelCallContext(
+        { fileId: file.id, fileName: file.originalName, page: 1 },
+        () => classifyPage(firstPage)
+      );
+      results.push({ fileId: file.id, ...classification });
+    } catch (error) {
+      console.error(`Failed to classify ${file.originalName}:`, error);
+      results.push({
+        fileId: file.id,
+        documentType: 'unknown',
+        detectedType: 'unknown',
+        confidence: 0,
+        source: 'model',
+        error: error.message
+      });
+    } finally {
+      try {
+        await fs.remove(tempDir);
+      } catch (cleanupError) {
+        console.warn('Failed to cleanup temp directory:', cleanupError);
+      }
+    }
+  }
+
+  return results;
+}
+
+// Classify from a page's text layer when it has one, otherwise from its image
+async function classifyPage({ text, imagePath }) {
+  const imageBase64 = text ? null : await convertImageToBase64(imagePath);
+  const result = await ollamaClient.classifyDocument(imageBase64, { pageText: text });
+
+  // Low-confidence classifications use the generic extraction prompt
+  const documentType = result.confidence >= config.classification.minConfidence
+    ? result.documentType
+    : 'unknown';
+
+  return {
+    documentType,
+    detectedType: result.documentType,
+    confidence: result.confidence,
+    reasoning: result.reasoning,
+    source: 'model'
+  };
+}
+
+async function processIndividualDocument(file, { signal, emit }) {
   const startTime = Date.now();
   const tempDir = path.join(__dirname, '../temp', file.id);
   
   try {
     // Ensure temp directory exists
     await fs.ensureDir(tempDir);
+
+    // Hashed here rather than trusting the client's copy of the upload response
+    const sha256 = await hashFile(file.path);
     
-    let images = [];
+    // Each page is read from the PDF text layer when it has one, otherwise
+    // rasterized for the vision model
+    const pages = [];
     
     if (file.mimetype === 'application/pdf') {
-      // Convert PDF to images using pdf2pic
-      images = await convertPdfToImages(file.path, tempDir);
+      const textLayer = await readTextLayer(file.path, file.password);
+      const pageCount = textLayer?.pageCount ?? null;
+
+      for (const page of textLayer?.pages || []) {
+        if (hasUsableTextLayer(page, config.textExtraction.minCharactersPerPage)) {
+          // Text positions are kept to locate extracted values on the page
+          pages.push({ ...page, source: 'text_layer' });
+          emit('page_text_extracted', { page: page.pageNumber, pageCount, characterCount: page.characterCount });
+        }
+      }
+
+      // Rasterize only the pages without usable text (all pages if the text layer couldn't be read)
+      const rasterPageNumbers = textLayer
+        ? textLayer.pages.map(page => page.pageNumber).filter(n => !pages.some(p => p.pageNumber === n))
+        : null;
+
+      if (rasterPageNumbers === null || rasterPageNumbers.length > 0) {
+        signal?.throwIfAborted();
+        const images = await convertPdfToImages(file.path, tempDir, (page, total) => {
+          emit('page_rasterized', { page, pageCount: pageCount ?? total });
+        }, rasterPageNumbers, file.password);
+        pages.push(...images.map(image => ({ pageNumber: image.pageNumber, source: 'vision', imagePath: image.path })));
+      }
+
+      pages.sort((a, b) => a.pageNumber - b.pageNumber);
     } else if (file.mimetype.startsWith('image/')) {
       // Process single image
       const processedImage = await processImage(file.path, tempDir);
-      images = [processedImage];
+      pages.push({ pageNumber: 1, source: 'vision', imagePath: processedImage });
+      emit('page_rasterized', { page: 1, pageCount: 1 });
     }
     
-    // Determine document type from filename
-    const documentType = determineDocumentType(file.originalName);
-    
-    // Process each image with Ollama
-    const extractedDataArray = [];
-    for (let i = 0; i < images.length; i++) {
-      const imagePath = images[i];
-      console.log(`Processing image ${i + 1}/${images.length} for ${file.originalName}`);
-      
-      const imageBase64 = await convertImageToBase64(imagePath);
-      const extractedData = await ollamaClient.extractFinancialData(imageBase64, documentType);
-      extractedDataArray.push(extractedData);
+    // A type confirmed by the user wins; otherwise classify from the first page
+    let classification;
+    if (file.documentType && file.classification?.documentType === file.documentType) {
+      classification = { ...file.classification, source: 'model' };
+    } else if (file.documentType) {
+      classification = { documentType: file.documentType, confidence: 100, source: 'user' };
+    } else if (pages.length > 0) {
+      try {
+        classification = await withModelCallContext({ page: pages[0].pageNumber }, () => classifyPage(pages[0]));
+      } catch (classificationError) {
+        console.warn(`Classification failed for ${file.originalName}:`, classificationError.message);
+        classification = { documentType: 'unknown', confidence: 0, source: 'model', error: classificationError.message };
+      }
+    } else {
+      classification = { documentType: 'unknown', confidence: 0, source: 'model' };
     }
+
+    const documentType = classification.documentType;
+    emit('file_classified', { documentType, confidence: classification.confidence, source: classification.source });
+
+    const previewPages = await savePagePreviews(file, pages, tempDir);
     
-    // Combine extracted data from all images
-    const combinedData = combineExtractedData(extractedDataArray, documentType);
+    // Extract pages with the model, from their text or their image, several at
+    // a time. A page that still fails after retries is left out of the document
+    // rather than failing it.
+    const pageResults = await mapWithConcurrency(pages, config.models.vision.concurrency, async (page) => {
+      signal?.throwIfAborted();
+
+      console.log(`Processing page ${page.pageNumber} (${page.source}) for ${file.originalName}`);
+      emit('page_extraction_started', { page: page.pageNumber, pageCount: pages.length, source: page.source });
+
+      try {
+        const imageBase64 = page.imagePath ? await convertImageToBase64(page.imagePath) : null;
+
+        // The same page content read the same way gives the same extraction
+        const cacheEntry = {
+          model: ollamaClient.visionModel,
+          promptVersion: EXTRACTION_PROMPT_VERSION,
+          documentType,
+          source: page.source
+        };
+        const cacheKey = extractionCache.keyFor({ ...cacheEntry, contentHash: hashContent(imageBase64 ?? page.text) });
+        let extractedData = await extractionCache.get(cacheKey);
+        const fromCache = extractedData !== null;
+
+        if (!fromCache) {
+          extractedData = await withModelCallContext(
+            { page: page.pageNumber },
+            () => ollamaClient.extractFinancialData(imageBase64, documentType, { pageText: page.text })
+          );
+          // Extractions that failed validation are worth another try next time
+          if (!extractedData.error) {
+            await extractionCache.set(cacheKey, extractedData, cacheEntry);
+          }
+        }
+
+        emit('page_extracted', { page: page.pageNumber, pageCount: pages.length, source: page.source, fromCache });
+        // Figures are located as printed, then parsed into numbers
+        const regions = locatePageValues(page, extractedData);
+        const { data, currencies, unreadable } = normalizePageAmounts(extractedData, documentType);
+        return {
+          pageNumber: page.pageNumber,
+          source: page.source,
+          fromCache,
+          regions,
+          data,
+          currencies,
+          unreadable
+        };
+      } catch (error) {
+        if (signal?.aborted) {
+          throw error;
+        }
+
+        console.error(`Failed to extract page ${page.pageNumber} of ${file.originalName}:`, error.message);
+        emit('page_failed', { page: page.pageNumber, pageCount: pages.length, source: page.source, error: error.message });
+        return { pageNumber: page.pageNumber, source: page.source, error: error.message };
+      }
+    });
+
+    const pageExtractions = pageResults.filter(page => !page.error);
+    const failedPages = pageResults.filter(page => page.error);
+    if (failedPages.length > 0 && pageExtractions.length === 0) {
+      throw new Error(`No page could be extracted: ${failedPages[0].error}`);
+    }
+
+    // Combine extracted data from all pages
+    const combinedData = convertToBaseCurrency(
+      combineExtractedData(pageExtractions, documentType),
+      pageExtractions,
+      pages
+    );
+    const unreadable = pageExtractions.flatMap(page => page.unreadable);
+    if (unreadable.length > 0) {
+      combinedData.riskFactors = [
+        ...(combinedData.riskFactors || []),
+        `${unreadable.length} amount(s) could not be read: ${unreadable.slice(0, 3).join(', ')}`
+      ];
+    }
+    if (failedPages.length > 0) {
+      const pageList = failedPages.map(page => page.pageNumber).join(', ');
+      combinedData.riskFactors = [
+        ...(combinedData.riskFactors || []),
+        `Page(s) ${pageList} could not be read; figures from this document may be incomplete`
+      ];
+    }
     
     const processingTime = Math.round((Date.now() - startTime) / 1000);
     
     return {
       fileId: file.id,
       fileName: file.originalName,
+      sha256,
       extractedData: combinedData,
-      imageCount: images.length,
+      classification,
+      pageCount: pages.length,
+      pages: pageResults.map(({ pageNumber, source, fromCache, error }) => ({
+        pageNumber,
+        source,
+        hasPreview: previewPages.has(pageNumber),
+        status: error ? 'failed' : 'extracted',
+        fromCache: Boolean(fromCache),
+        ...(error && { error })
+      })),
+      imageCount: pages.filter(page => page.source === 'vision').length,
       processingTime
     };
     
@@ -93,58 +313,165 @@ async function processIndividualDocument(file) {
   }
 }
 
-async function convertPdfToImages(pdfPath, outputDir) {
+// Keep an image of every page for reviewers to check figures against. Text
+// layer pages are rendered only for this. Returns the page numbers saved;
+// preview failures never fail the document.
+async function savePagePreviews(file, pages, tempDir) {
+  const saved = new Set();
+  if (!config.pagePreviews.enabled) {
+    return saved;
+  }
+
+  const imagePaths = new Map(pages.filter(page => page.imagePath).map(page => [page.pageNumber, page.imagePath]));
+  const unrendered = pages.filter(page => !page.imagePath).map(page => page.pageNumber);
+  if (unrendered.length > 0) {
+    try {
+      const images = await convertPdfToImages(file.path, tempDir, null, unrendered, file.password);
+      images.forEach(image => imagePaths.set(image.pageNumber, image.path));
+    } catch (error) {
+      console.warn(`Could not render page previews for ${file.originalName}:`, error.message);
+    }
+  }
+
+  for (const [pageNumber, imagePath] of imagePaths) {
+    try {
+      await savePagePreview(file.id, pageNumber, imagePath);
+      saved.add(pageNumber);
+    } catch (error) {
+      console.warn(`Could not save preview of page ${pageNumber} of ${file.originalName}:`, error.message);
+    }
+  }
+
+  return saved;
+}
+
+// Returns null when text extraction is disabled or the PDF can't be parsed,
+// in which case every page is rasterized
+async function readTextLayer(pdfPath, password) {
+  if (!config.textExtraction.enabled) {
+    return null;
+  }
+
   try {
-    console.log(`Converting PDF to images: ${pdfPath}`);
-    
-    // Configure pdf2pic with enhanced options for encrypted PDFs
-    const convert = fromPath(pdfPath, {
-      density: 200,           // Higher DPI for better quality
-      saveFilename: "page",   // Filename prefix
-      savePath: outputDir,    // Output directory
-      format: "jpeg",         // Output format
-      width: 1024,           // Max width
-      height: 1024,          // Max height
-      quality: 85,           // JPEG quality
-      preserveAspectRatio: true,
-      // Additional options for handling encrypted PDFs
-      graphicsMagick: false,  // Use ImageMagick instead of GraphicsMagick
-      buffer: false          // Save to files instead of buffer
+    return await extractPdfText(pdfPath, { password });
+  } catch (error) {
+    console.warn(`Could not read PDF text layer, falling back to rasterization: ${error.message}`);
+    return null;
+  }
+}
+
+const RASTER_OPTIONS = {
+  density: 200,           // Higher DPI for better quality
+  width: 1024,           // Max width
+  height: 1024,          // Max height
+  quality: 85            // JPEG quality
+};
+
+function createPdfConverter(pdfPath, outputDir, password = null) {
+  if (password) {
+    return createProtectedPdfConverter(pdfPath, outputDir, password);
+  }
+
+  return fromPath(pdfPath, {
+    ...RASTER_OPTIONS,
+    saveFilename: "page",   // Filename prefix
+    savePath: outputDir,    // Output directory
+    format: "jpeg",         // Output format
+    preserveAspectRatio: true,
+    buffer: false          // Save to files instead of buffer
+  });
+}
+
+// pdf2pic can't pass a password, and GraphicsMagick would need it on its
+// command line, visible to other local users. Encrypted PDFs are rendered
+// with pdf.js instead, which gets the password in memory, at the same size.
+function createProtectedPdfConverter(pdfPath, outputDir, password) {
+  const convert = async (page) => {
+    const outputPath = path.join(outputDir, `page.${page}.jpeg`);
+    await renderPdfPage(pdfPath, page, outputPath, {
+      password,
+      width: RASTER_OPTIONS.width,
+      height: RASTER_OPTIONS.height,
+      quality: RASTER_OPTIONS.quality
     });
+    return { page, path: outputPath };
+  };
+
+  convert.getInfo = async () => ({ pages: await readPdfPageCount(pdfPath, { password }) });
+  return convert;
+}
+
+// Read only the first page of a document, for classification: its text layer
+// if it has one, otherwise a rendered image
+async function readFirstPage(file, outputDir) {
+  if (file.mimetype === 'application/pdf') {
+    const textLayer = await readTextLayer(file.path, file.password);
+    const firstPage = textLayer?.pages[0];
+    if (firstPage && hasUsableTextLayer(firstPage, config.textExtraction.minCharactersPerPage)) {
+      return { text: firstPage.text };
+    }
+
+    const convert = createPdfConverter(file.path, outputDir, file.password);
+    const result = await convert(1, { responseType: "image" });
+    if (!result || !result.path) {
+      throw new Error('Failed to render first PDF page');
+    }
+    return { imagePath: result.path };
+  }
+
+  if (file.mimetype.startsWith('image/')) {
+    return { imagePath: await processImage(file.path, outputDir) };
+  }
+
+  throw new Error(`Unsupported file type: ${file.mimetype}`);
+}
+
+// Rasterize the given pages (all pages when `pageNumbers` is null).
+// Returns [{ pageNumber, path }] for the pages that rendered.
+async function convertPdfToImages(pdfPath, outputDir, onPageConverted, pageNumbers = null, password = null) {
+  try {
+    console.log(`Converting PDF to images: ${path.basename(pdfPath)}`);
+    
+    const convert = createPdfConverter(pdfPath, outputDir, password);
 
     // Get PDF info to determine page count
-    let pageCount = 1;
-    try {
-      // Try to get page count, fallback to processing all pages
-      const info = await convert.getInfo();
-      pageCount = info.pages || 1;
-    } catch (infoError) {
-      console.warn('Could not get PDF info, processing all pages:', infoError.message);
+    let pageCount = pageNumbers?.length || 1;
+    if (!pageNumbers) {
+      try {
+        // Try to get page count, fallback to processing all pages
+        const info = await convert.getInfo();
+        pageCount = info.pages || 1;
+      } catch (infoError) {
+        console.warn('Could not get PDF info, processing all pages:', infoError.message);
+      }
     }
 
-    console.log(`PDF has ${pageCount} page(s)`);
+    console.log(`Rasterizing ${pageCount} page(s)`);
 
-    // Convert all pages
+    const pagesToConvert = pageNumbers || Array.from({ length: pageCount }, (_, index) => index + 1);
     const results = [];
     
-    if (pageCount === 1) {
+    if (pagesToConvert.length === 1) {
       // Single page conversion
+      const page = pagesToConvert[0];
       try {
-        const result = await convert(1, { responseType: "image" });
+        const result = await convert(page, { responseType: "image" });
         if (result && result.path) {
-          results.push(result.path);
+          results.push({ pageNumber: page, path: result.path });
+          onPageConverted?.(page, pageCount);
         }
       } catch (pageError) {
-        console.warn('Failed to convert page 1:', pageError.message);
-        throw new Error(`Failed to convert PDF page 1: ${pageError.message}`);
+        console.warn(`Failed to convert page ${page}:`, pageError.message);
+        throw new Error(`Failed to convert PDF page ${page}: ${pageError.message}`);
       }
     } else {
       // Multi-page conversion
-      for (let page = 1; page <= pageCount; page++) {
+      for (const page of pagesToConvert) {
         try {
           const result = await convert(page, { responseType: "image" });
           if (result && result.path) {
-            results.push(result.path);
+            results.push({ pageNumber: page, path: result.path });
+            onPageConverted?.(page, pageCount);
           }
         } catch (pageError) {
           console.warn(`Failed to convert page ${page}:`, pageError.message);
@@ -153,16 +480,16 @@ async function convertPdfToImages(pdfPath, outputDir) {
       }
     }
 
-    if (results.length === 0) {
+    if (results.length === 0 && !pageNumbers && convert.bulk) {
       // Fallback: try to convert without specifying pages
       try {
         console.log('Attempting fallback conversion...');
         const fallbackResult = await convert.bulk(-1, { responseType: "image" });
-        if (Array.isArray(fallbackResult)) {
-          results.push(...fallbackResult.map(r => r.path).filter(Boolean));
-        } else if (fallbackResult && fallbackResult.path) {
-          results.push(fallbackResult.path);
-        }
+        const converted = Array.isArray(fallbackResult) ? fallbackResult : [fallbackResult];
+        converted
+          .filter(r => r && r.path)
+          .forEach((r, index) => results.push({ pageNumber: r.page || index + 1, path: r.path }));
+        results.forEach((_, index) => onPageConverted?.(index + 1, results.length));
       } catch (fallbackError) {
         throw new Error(`PDF conversion failed completely: ${fallbackError.message}`);
       }
@@ -170,15 +497,15 @@ async function convertPdfToImages(pdfPath, outputDir) {
 
     // Verify files exist and are readable
     const validImages = [];
-    for (const imagePath of results) {
+    for (const image of results) {
       try {
-        await fs.access(imagePath);
-        const stats = await fs.stat(imagePath);
+        await fs.access(image.path);
+        const stats = await fs.stat(image.path);
         if (stats.size > 0) {
-          validImages.push(imagePath);
+          validImages.push(image);
         }
       } catch (accessError) {
-        console.warn(`Generated image not accessible: ${imagePath}`);
+        console.warn(`Generated image not accessible: ${path.basename(image.path)}`);
       }
     }
 
@@ -194,7 +521,7 @@ async function convertPdfToImages(pdfPath, outputDir) {
     
     // Enhanced error handling for different PDF issues
     if (error.message.includes('encrypted') || error.message.includes('password')) {
-      throw new Error('PDF is password protected or encrypted. Please provide an unlocked version.');
+      throw new Error('PDF is password protected. Enter its password before processing it.');
     } else if (error.message.includes('corrupt') || error.message.includes('damaged')) {
       throw new Error('PDF file appears to be corrupted or damaged.');
     } else if (error.message.includes('permission')) {
@@ -240,22 +567,19 @@ async function convertImageToBase64(imagePath) {
   }
 }
 
-function determineDocumentType(filename) {
-  const lowerName = filename.toLowerCase();
-  
-  if (lowerName.includes('bank') || lowerName.includes('statement')) {
-    return 'bank_statement';
-  } else if (lowerName.includes('financial') || lowerName.includes('income') || lowerName.includes('revenue')) {
-    return 'financial';
-  } else if (lowerName.includes('legal') || lowerName.includes('contract') || lowerName.includes('agreement')) {
-    return 'legal';
+// Values are merged field by field with the page each one came from (see fieldProvenance.js)
+function combineExtractedData(pageExtractions, documentType) {
+  if (documentType === 'bank_statement' && pageExtractions.length > 0) {
+    return combineBankStatementPages(pageExtractions);
+  }
+  if (documentType === 'financial' && pageExtractions.length > 0) {
+    return combineFinancialStatementPages(pageExtractions);
+  }
+  if (SUPPORTING_DOCUMENT_COMBINERS[documentType] && pageExtractions.length > 0) {
+    return SUPPORTING_DOCUMENT_COMBINERS[documentType](pageExtractions);
   }
-  
-  return 'unknown';
-}
 
-function combineExtractedData(dataArray, documentType) {
-  if (dataArray.length === 0) {
+  if (pageExtractions.length === 0) {
     return {
       documentType,
       keyInformation: {},
@@ -263,46 +587,209 @@ function combineExtractedData(dataArray, documentType) {
       confidence: 0
     };
   }
-  
-  if (dataArray.length === 1) {
-    return {
-      documentType: dataArray[0].documentType || documentType,
-      keyInformation: dataArray[0],
-      riskFactors: dataArray[0].riskFactors || [],
-      financialMetrics: extractFinancialMetrics(dataArray[0])
-    };
-  }
-  
-  // Combine data from multiple pages/images
-  const combined = {
-    documentType,
-    keyInformation: {},
-    riskFactors: [],
-    financialMetrics: {}
+
+  const { values, provenance } = mergePageValues(pageExtractions);
+
+  return {
+    documentType: pageExtractions.length === 1 ? values.documentType || documentType : documentType,
+    keyInformation: values,
+    riskFactors: values.riskFactors || [],
+    financialMetrics: extractFinancialMetrics(values),
+    provenance
   };
-  
-  // Merge all risk factors
-  dataArray.forEach(data => {
-    if (data.riskFactors) {
-      combined.riskFactors.push(...data.riskFactors);
+}
+
+// The document's currency is detected and its metrics converted to the base
+// currency at the rate in effect at the end of its period (today when unknown)
+function convertToBaseCurrency(combinedData, pageExtractions, pages) {
+  const { baseCurrency, ratesFile } = config.currency;
+  const info = combinedData.keyInformation || {};
+  const currency = resolveDocumentCurrency({
+    declared: info.currency,
+    printed: pageExtractions.flatMap(page => page.currencies),
+    pageTexts: pages.map(page => page.text)
+  });
+
+  let rateTable = null;
+  if (currency.code && currency.code !== baseCurrency) {
+    try {
+      rateTable = loadRateTable(ratesFile, baseCurrency);
+    } catch (error) {
+      console.error('Exchange rates unavailable:', error.message);
     }
+  }
+
+  const periodEnd = typeof info.periodEnd === 'string' && /^\d{4}-\d{2}-\d{2}/.test(info.periodEnd)
+    ? info.periodEnd.slice(0, 10)
+    : null;
+
+  return convertDocumentAmounts(combinedData, {
+    currency,
+    baseCurrency,
+    rateTable,
+    date: periodEnd || new Date().toISOString().slice(0, 10)
   });
-  
-  // Remove duplicates
-  combined.riskFactors = [...new Set(combined.riskFactors)];
-  
-  // Combine financial metrics (take averages or sums as appropriate)
-  const metrics = dataArray.map(data => extractFinancialMetrics(data)).filter(Boolean);
-  if (metrics.length > 0) {
-    combined.financialMetrics = combineFinancialMetrics(metrics);
+}
+
+// Bank statement pages carry transaction rows; totals are computed from the
+// merged ledger rather than taken from per-page model estimates
+function combineBankStatementPages(pageExtractions) {
+  const dataArray = pageExtractions.map(page => page.data);
+  const ledger = buildLedger(pageExtractions.map(page => ({ ...page.data, pageNumber: page.pageNumber })));
+  const cashFlow = computeCashFlowMetrics(ledger);
+  const { values: header, provenance } = mergePageValues(pageExtractions, {
+    fields: ['accountHolder', 'accountNumber', 'currency']
+  });
+
+  const keyInformation = {
+    accountHolder: header.accountHolder || null,
+    accountNumber: header.accountNumber || null,
+    currency: header.currency || null,
+    transactionCount: ledger.transactions.length
+  };
+
+  // Ledger figures are computed from every page with transactions; period
+  // start and end point at the pages of the first and last rows
+  const ledgerPages = pageExtractions.filter(page => page.data.transactions?.length > 0);
+  if (cashFlow) {
+    Object.assign(keyInformation, {
+      periodStart: cashFlow.periodStart,
+      periodEnd: cashFlow.periodEnd,
+      openingBalance: cashFlow.openingBalance,
+      endingBalance: cashFlow.endingBalance
+    });
+
+    const firstPage = ledger.transactions[0].page;
+    const lastPage = ledger.transactions[ledger.transactions.length - 1].page;
+    Object.assign(provenance, {
+      transactionCount: computedProvenance(ledgerPages),
+      periodStart: computedProvenance(ledgerPages, firstPage),
+      openingBalance: computedProvenance(ledgerPages, firstPage),
+      periodEnd: computedProvenance(ledgerPages, lastPage),
+      endingBalance: computedProvenance(ledgerPages, lastPage),
+      accountBalance: computedProvenance(ledgerPages, lastPage),
+      monthlyIncome: computedProvenance(ledgerPages),
+      monthlyExpenses: computedProvenance(ledgerPages),
+      averageDailyBalance: computedProvenance(ledgerPages),
+      nsfCount: computedProvenance(ledgerPages),
+      overdraftCount: computedProvenance(ledgerPages),
+      incomeRegularityScore: computedProvenance(ledgerPages)
+    });
   }
-  
-  // Combine key information
-  dataArray.forEach(data => {
-    Object.assign(combined.keyInformation, data);
+
+  const riskFactors = [...new Set(dataArray.flatMap(data => data.riskFactors || []))];
+  if (cashFlow?.nsfCount > 0) {
+    riskFactors.push(`${cashFlow.nsfCount} NSF / returned item transaction(s)`);
+  }
+  if (cashFlow?.overdraftCount > 0) {
+    riskFactors.push(`${cashFlow.overdraftCount} overdraft fee(s)`);
+  }
+  if (cashFlow?.negativeBalanceDays > 0) {
+    riskFactors.push(`Negative balance on ${cashFlow.negativeBalanceDays} day(s)`);
+  }
+
+  const confidences = dataArray.map(data => data.confidence).filter(value => typeof value === 'number');
+
+  return {
+    documentType: 'bank_statement',
+    keyInformation,
+    riskFactors,
+    financialMetrics: cashFlow ? {
+      accountBalance: cashFlow.endingBalance,
+      monthlyIncome: cashFlow.averageMonthlyInflows,
+      monthlyExpenses: cashFlow.averageMonthlyOutflows,
+      averageDailyBalance: cashFlow.averageDailyBalance,
+      nsfCount: cashFlow.nsfCount,
+      overdraftCount: cashFlow.overdraftCount,
+      incomeRegularityScore: cashFlow.incomeRegularity.score
+    } : undefined,
+    cashFlow,
+    transactions: ledger.transactions,
+    provenance,
+    confidence: confidences.length > 0
+      ? Math.round(confidences.reduce((sum, value) => sum + value, 0) / confidences.length)
+      : undefined
+  };
+}
+
+// Financial statement pages carry statements per reporting period; annual
+// figures are those of the latest period (flows over its twelve months,
+// balances at its end) and ratios are computed from them
+function combineFinancialStatementPages(pageExtractions) {
+  const dataArray = pageExtractions.map(page => page.data);
+  const { periods, conflicts } = buildPeriods(
+    pageExtractions.map(page => ({ ...page.data, pageNumber: page.pageNumber }))
+  );
+  const { values: header, provenance } = mergePageValues(pageExtractions, {
+    fields: ['companyName', 'registrationNumber', 'currency', 'employeeCount', 'businessAge']
   });
-  
-  return combined;
+
+  const latest = periods.length > 0 ? annualFigures(periods, periods[periods.length - 1].periodEnd) : null;
+  const ratios = computeFinancialRatios(periods);
+  const income = latest?.incomeStatement || {};
+  const balance = latest?.balanceSheet || {};
+
+  const figures = {
+    annualRevenue: income.revenue,
+    netProfit: income.netProfit,
+    totalAssets: balance.totalAssets,
+    totalLiabilities: balance.totalLiabilities,
+    cashFlow: latest?.cashFlowStatement?.operatingCashFlow
+  };
+  const financialMetrics = Object.fromEntries(
+    Object.entries(figures).filter(([, value]) => typeof value === 'number')
+  );
+
+  const keyInformation = {
+    companyName: header.companyName || null,
+    registrationNumber: header.registrationNumber || null,
+    currency: header.currency || null,
+    employeeCount: header.employeeCount,
+    businessAge: header.businessAge,
+    periodStart: latest?.periodStart ?? null,
+    periodEnd: latest?.periodEnd ?? null,
+    ...financialMetrics,
+    debtToEquityRatio: ratios?.debtToEquity ?? null,
+    profitMargin: ratios?.netMargin ?? null
+  };
+
+  // Figures point to the pages of the period they were taken from
+  const periodPages = pageExtractions.filter(page =>
+    periods.some(period => period.periodEnd === latest?.periodEnd && period.pages.includes(page.pageNumber))
+  );
+  for (const field of [...Object.keys(financialMetrics), 'periodEnd', 'debtToEquityRatio', 'profitMargin']) {
+    if (keyInformation[field] !== null && periodPages.length > 0) {
+      provenance[field] = computedProvenance(periodPages);
+    }
+  }
+
+  const riskFactors = [...new Set(dataArray.flatMap(data => data.riskFactors || []))];
+  if (periods.length === 0) {
+    riskFactors.push('No dated financial statement could be read');
+  } else if (latest.basis === 'annualized') {
+    riskFactors.push(`Annual figures extrapolated from a shorter period ending ${latest.periodEnd}`);
+  }
+  if (conflicts.length > 0) {
+    riskFactors.push(`${conflicts.length} figure(s) differ between pages for the same period`);
+  }
+  if (ratios?.debtServiceCoverage !== null && ratios?.debtServiceCoverage < 1) {
+    riskFactors.push(`Debt service coverage below 1 (${ratios.debtServiceCoverage}x)`);
+  }
+
+  const confidences = dataArray.map(data => data.confidence).filter(value => typeof value === 'number');
+
+  return {
+    documentType: 'financial',
+    keyInformation,
+    riskFactors,
+    financialMetrics: Object.keys(financialMetrics).length > 0 ? financialMetrics : null,
+    periods,
+    ratios,
+    provenance,
+    confidence: confidences.length > 0
+      ? Math.round(confidences.reduce((sum, value) => sum + value, 0) / confidences.length)
+      : undefined
+  };
 }
 
 function extractFinancialMetrics(data) {
@@ -321,19 +808,4 @@ function extractFinancialMetrics(data) {
   });
   
   return Object.keys(metrics).length > 0 ? metrics : null;
-}
-
-function combineFinancialMetrics(metricsArray) {
-  const combined = {};
-  const fields = ['accountBalance', 'monthlyIncome', 'monthlyExpenses', 'annualRevenue', 'netProfit'];
-  
-  fields.forEach(field => {
-    const values = metricsArray.map(m => m[field]).filter(v => v !== undefined);
-    if (values.length > 0) {
-      // Take the average for most fields
-      combined[field] = values.reduce((sum, val) => sum + val, 0) / values.length;
-    }
-  });
-  
-  return combined;
 }
\ No newline at end of file
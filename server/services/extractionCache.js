@@ -0,0 +1,135 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { DATA_DIR } from './applicationStore.js';
+import { config } from '../config.js';
+
+// Persistent cache of page extractions, so re-running an assessment on
+// documents seen before doesn't send their pages to the model again. Entries
+// are addressed by a hash of everything the extraction depends on: the page
+// content (image or text layer), how it was read, the document type, the
+// prompt version and the model. One JSON file per entry.
+
+// Cache keys become file names
+const KEY_PATTERN = /^[a-f0-9]{64}$/;
+
+export function hashContent(content) {
+  return crypto.createHash('sha256').update(content).digest('hex');
+}
+
+class ExtractionCache {
+  constructor(directory, { enabled = true } = {}) {
+    this.directory = directory;
+    this.enabled = enabled;
+    this.hits = 0;
+    this.misses = 0;
+    this.since = new Date().toISOString();
+  }
+
+  keyFor({ contentHash, source, documentType, promptVersion, model }) {
+    return hashContent(JSON.stringify([contentHash, source, documentType, promptVersion, model]));
+  }
+
+  // The cached extraction, or null. Unreadable entries count as misses.
+  async get(key) {
+    if (!this.enabled) {
+      return null;
+    }
+
+    try {
+      const entry = await fs.readJson(this.entryPath(key));
+      this.hits++;
+      return entry.data;
+    } catch (error) {
+      if (error.code !== 'ENOENT') {
+        console.warn('Could not read extraction cache entry:', error.message);
+      }
+      this.misses++;
+      return null;
+    }
+  }
+
+  // Cache writes never fail the extraction
+  async set(key, data, { model, promptVersion, documentType, source }) {
+    if (!this.enabled) {
+      return;
+    }
+
+    const entry = { key, model, promptVersion, documentType, source, createdAt: new Date().toISOString(), data };
+    const filePath = this.entryPath(key);
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+
+    try {
+      await fs.ensureDir(this.directory);
+      await fs.writeJson(tempPath, entry);
+      await fs.move(tempPath, filePath, { overwrite: true });
+    } catch (error) {
+      console.warn('Failed to write extraction cache entry:', error.message);
+      await fs.remove(tempPath).catch(() => {});
+    }
+  }
+
+  // Entry count and size on disk, and hits and misses since the server started
+  async stats() {
+    let entries = 0;
+    let bytes = 0;
+
+    for (const name of await this.entryNames()) {
+      try {
+        bytes += (await fs.stat(path.join(this.directory, name))).size;
+        entries++;
+      } catch {
+        // Removed concurrently
+      }
+    }
+
+    const lookups = this.hits + this.misses;
+    return {
+      enabled: this.enabled,
+      entries,
+      bytes,
+      hits: this.hits,
+      misses: this.misses,
+      hitRate: lookups > 0 ? Math.round((this.hits / lookups) * 100) / 100 : null,
+      since: this.since
+    };
+  }
+
+  // Remove every entry, or only those made with `model`. Returns the number removed.
+  async clear({ model = null } = {}) {
+    let removed = 0;
+
+    for (const name of await this.entryNames()) {
+      const filePath = path.join(this.directory, name);
+      try {
+        if (model && (await fs.readJson(filePath)).model !== model) {
+          continue;
+        }
+        await fs.remove(filePath);
+        removed++;
+      } catch (error) {
+        if (error.code !== 'ENOENT') {
+          console.warn(`Could not remove extraction cache entry ${name}:`, error.message);
+        }
+      }
+    }
+
+    return removed;
+  }
+
+  async entryNames() {
+    if (!(await fs.pathExists(this.directory))) {
+      return [];
+    }
+    return (await fs.readdir(this.directory)).filter(name => KEY_PATTERN.test(path.basename(name, '.json')));
+  }
+
+  entryPath(key) {
+    if (!KEY_PATTERN.test(key)) {
+      throw new Error(`Invalid extraction cache key: ${key}`);
+    }
+    return path.join(this.directory, `${key}.json`);
+  }
+}
+
+export const extractionCache = new ExtractionCache(path.join(DATA_DIR, 'extraction-cache'), config.extractionCache);
@@ -0,0 +1,297 @@
+import { STATEMENT_FIELDS, STATEMENT_TYPES } from './financialStatements.js';
+import { PAY_FREQUENCIES } from './supportingDocuments.js';
+
+// JSON schemas for model output. They are sent to the model as its structured
+// output format and used to validate every response before it is used.
+
+// Money is copied as printed ("1.234,56", "(4,200)", "Rp 12.500.000") and
+// parsed afterwards (see amountNormalizer.js)
+const printedAmount = { type: ['string', 'number'] };
+const nullablePrintedAmount = { type: ['string', 'number', 'null'] };
+const count = { type: 'integer', minimum: 0 };
+const confidence = { type: 'number', minimum: 0, maximum: 100 };
+const stringList = { type: 'array', items: { type: 'string' } };
+const nullableString = { type: ['string', 'null'] };
+
+// Optional: where each figure is printed on a page image, as fractions of the
+// page size [left, top, right, bottom]. Only requested from the vision model.
+const regions = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      field: { type: 'string' },
+      box: { type: 'array', items: { type: 'number', minimum: 0, maximum: 1 } }
+    },
+    required: ['field', 'box']
+  }
+};
+
+export const EXTRACTION_SCHEMAS = {
+  // Bank statements are extracted row by row; cash-flow metrics are computed
+  // from the merged ledger (see bankStatementLedger.js), not estimated by the model
+  bank_statement: {
+    type: 'object',
+    properties: {
+      documentType: { type: 'string', enum: ['bank_statement'] },
+      accountHolder: nullableString,
+      accountNumber: nullableString,
+      currency: nullableString,
+      openingBalance: nullablePrintedAmount,
+      closingBalance: nullablePrintedAmount,
+      transactions: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            date: { type: 'string' },
+            description: { type: 'string' },
+            amount: printedAmount,
+            balance: nullablePrintedAmount
+          },
+          required: ['date', 'description', 'amount', 'balance']
+        }
+      },
+      riskFactors: stringList,
+      keyFindings: stringList,
+      confidence,
+      regions
+    },
+    required: [
+      'documentType', 'accountHolder', 'accountNumber', 'currency', 'openingBalance', 'closingBalance',
+      'transactions', 'riskFactors', 'keyFindings', 'confidence'
+    ]
+  },
+
+  // Financial statements are extracted statement by statement with their
+  // reporting period; periods and ratios are computed from them (see
+  // financialStatements.js)
+  financial: {
+    type: 'object',
+    properties: {
+      documentType: { type: 'string', enum: ['financial'] },
+      companyName: nullableString,
+      registrationNumber: nullableString,
+      currency: nullableString,
+      employeeCount: count,
+      businessAge: count,
+      statements: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            statementType: { type: 'string', enum: STATEMENT_TYPES },
+            periodStart: nullableString,
+            periodEnd: { type: 'string' },
+            ...Object.fromEntries(
+              Object.values(STATEMENT_FIELDS).flat().map(field => [field, nullablePrintedAmount])
+            )
+          },
+          required: ['statementType', 'periodStart', 'periodEnd']
+        }
+      },
+      riskFactors: stringList,
+      keyFindings: stringList,
+      confidence,
+      regions
+    },
+    required: [
+      'documentType', 'companyName', 'registrationNumber', 'currency', 'employeeCount', 'businessAge',
+      'statements', 'riskFactors', 'keyFindings', 'confidence'
+    ]
+  },
+
+  legal: {
+    type: 'object',
+    properties: {
+      documentType: { type: 'string', enum: ['legal'] },
+      partyNames: stringList,
+      registrationNumber: nullableString,
+      documentStatus: { type: 'string', enum: ['Valid', 'Invalid', 'Pending', 'Expired'] },
+      expirationDate: nullableString,
+      legalRisk: { type: 'string', enum: ['Low', 'Medium', 'High'] },
+      complianceScore: confidence,
+      keyObligations: stringList,
+      riskFactors: stringList,
+      keyFindings: stringList,
+      confidence,
+      regions
+    },
+    required: [
+      'documentType', 'partyNames', 'registrationNumber', 'documentStatus', 'expirationDate',
+      'legalRisk', 'complianceScore', 'keyObligations', 'riskFactors', 'keyFindings', 'confidence'
+    ]
+  },
+
+  // Income evidence: gross pay is converted to a monthly figure from the pay
+  // frequency (see supportingDocuments.js)
+  payslip: {
+    type: 'object',
+    properties: {
+      documentType: { type: 'string', enum: ['payslip'] },
+      employeeName: nullableString,
+      employerName: nullableString,
+      currency: nullableString,
+      payDate: nullableString,
+      periodStart: nullableString,
+      periodEnd: nullableString,
+      payFrequency: { type: ['string', 'null'], enum: [...PAY_FREQUENCIES, null] },
+      grossPay: nullablePrintedAmount,
+      totalDeductions: nullablePrintedAmount,
+      taxWithheld: nullablePrintedAmount,
+      netPay: nullablePrintedAmount,
+      yearToDateGross: nullablePrintedAmount,
+      riskFactors: stringList,
+      keyFindings: stringList,
+      confidence,
+      regions
+    },
+    required: [
+      'documentType', 'employeeName', 'employerName', 'currency', 'payDate', 'periodStart', 'periodEnd',
+      'payFrequency', 'grossPay', 'totalDeductions', 'taxWithheld', 'netPay', 'yearToDateGross',
+      'riskFactors', 'keyFindings', 'confidence'
+    ]
+  },
+
+  tax_return: {
+    type: 'object',
+    properties: {
+      documentType: { type: 'string', enum: ['tax_return'] },
+      taxpayerName: nullableString,
+      taxId: nullableString,
+      taxYear: { type: ['integer', 'null'] },
+      jurisdiction: nullableString,
+      currency: nullableString,
+      grossIncome: nullablePrintedAmount,
+      businessIncome: nullablePrintedAmount,
+      taxableIncome: nullablePrintedAmount,
+      totalTax: nullablePrintedAmount,
+      taxPaid: nullablePrintedAmount,
+      riskFactors: stringList,
+      keyFindings: stringList,
+      confidence,
+      regions
+    },
+    required: [
+      'documentType', 'taxpayerName', 'taxId', 'taxYear', 'jurisdiction', 'currency', 'grossIncome',
+      'businessIncome', 'taxableIncome', 'totalTax', 'taxPaid', 'riskFactors', 'keyFindings', 'confidence'
+    ]
+  },
+
+  // Single invoices and receivables listings alike are read as a list of invoices
+  invoice: {
+    type: 'object',
+    properties: {
+      documentType: { type: 'string', enum: ['invoice'] },
+      issuerName: nullableString,
+      currency: nullableString,
+      asOfDate: nullableString,
+      invoices: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            invoiceNumber: nullableString,
+            customerName: nullableString,
+            issueDate: nullableString,
+            dueDate: nullableString,
+            totalAmount: printedAmount,
+            amountOutstanding: nullablePrintedAmount
+          },
+          required: ['invoiceNumber', 'customerName', 'issueDate', 'dueDate', 'totalAmount', 'amountOutstanding']
+        }
+      },
+      riskFactors: stringList,
+      keyFindings: stringList,
+      confidence,
+      regions
+    },
+    required: ['documentType', 'issuerName', 'currency', 'asOfDate', 'invoices', 'riskFactors', 'keyFindings', 'confidence']
+  },
+
+  identity: {
+    type: 'object',
+    properties: {
+      documentType: { type: 'string', enum: ['identity'] },
+      idType: { type: 'string', enum: ['passport', 'national_id', 'driving_licence', 'other'] },
+      fullName: nullableString,
+      documentNumber: nullableString,
+      dateOfBirth: nullableString,
+      nationality: nullableString,
+      issuingCountry: nullableString,
+      issueDate: nullableString,
+      expiryDate: nullableString,
+      riskFactors: stringList,
+      keyFindings: stringList,
+      confidence,
+      regions
+    },
+    required: [
+      'documentType', 'idType', 'fullName', 'documentNumber', 'dateOfBirth', 'nationality', 'issuingCountry',
+      'issueDate', 'expiryDate', 'riskFactors', 'keyFindings', 'confidence'
+    ]
+  },
+
+  unknown: {
+    type: 'object',
+    properties: {
+      documentType: {
+        type: 'string',
+        enum: ['bank_statement', 'financial', 'legal', 'payslip', 'tax_return', 'invoice', 'identity', 'other', 'unknown']
+      },
+      confidence,
+      extractedData: {
+        type: 'object',
+        properties: {
+          amounts: { type: 'array', items: printedAmount },
+          dates: stringList,
+          entities: stringList
+        },
+        required: ['amounts', 'dates', 'entities']
+      },
+      riskFactors: stringList,
+      keyFindings: stringList,
+      recommendation: { type: 'string' }
+    },
+    required: ['documentType', 'confidence', 'extractedData', 'riskFactors', 'keyFindings', 'recommendation']
+  }
+};
+
+// Document types with a dedicated extraction prompt and schema
+export const DOCUMENT_TYPES = Object.keys(EXTRACTION_SCHEMAS);
+
+export const CLASSIFICATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    documentType: { type: 'string', enum: DOCUMENT_TYPES },
+    confidence,
+    reasoning: { type: 'string' }
+  },
+  required: ['documentType', 'confidence', 'reasoning']
+};
+
+export const CREDIT_RECOMMENDATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    creditScore: { type: 'number', minimum: 300, maximum: 850 },
+    rating: { type: 'string', enum: ['Excellent', 'Good', 'Fair', 'Poor', 'Very Poor'] },
+    riskLevel: { type: 'string', enum: ['Low', 'Medium', 'High'] },
+    recommendation: { type: 'string' },
+    keyFactors: stringList,
+    riskFactors: stringList,
+    improvementSuggestions: stringList,
+    maxCreditLimit: { type: 'number', minimum: 0 },
+    interestRate: { type: 'number', minimum: 0, maximum: 50 },
+    reasoning: { type: 'string' },
+    confidence,
+    analysisModel: { type: 'string' }
+  },
+  required: [
+    'creditScore', 'rating', 'riskLevel', 'recommendation', 'keyFactors', 'riskFactors',
+    'improvementSuggestions', 'maxCreditLimit', 'interestRate', 'reasoning', 'confidence'
+  ]
+};
+
+export function getExtractionSchema(documentType) {
+  return EXTRACTION_SCHEMAS[documentType] || EXTRACTION_SCHEMAS.unknown;
+}
@@ -0,0 +1,163 @@
+import { locateInTextLayer } from './pdfTextExtractor.js';
+
+// Field-level provenance of extracted values: which page of the file each
+// value was taken from and, where it can be located, the region of the page
+// it is printed in, so reviewers can check figures against the source.
+
+// Extraction bookkeeping rather than document content: merged as before
+// (later pages win) and not tracked
+const METADATA_FIELDS = new Set([
+  'documentType', 'confidence', 'extractionModel', 'extractionSource', 'extractionAttempts',
+  'rawResponse', 'validationErrors', 'error', 'regions', 'transactions'
+]);
+
+// The model's commentary, combined from every page without provenance
+const NARRATIVE_FIELDS = new Set(['riskFactors', 'keyFindings', 'recommendation']);
+
+// Regions of the extracted values on one page, by field: from the model's
+// `regions` for page images, or by finding the printed value in the text layer
+export function locatePageValues(page, data) {
+  const located = {};
+
+  if (page.source === 'text_layer') {
+    for (const [field, value] of Object.entries(data)) {
+      if (isTrackedField(field) && (typeof value === 'number' || typeof value === 'string')) {
+        const region = locateInTextLayer(page, value);
+        if (region) {
+          located[field] = region;
+        }
+      }
+    }
+    return located;
+  }
+
+  for (const { field, box } of Array.isArray(data.regions) ? data.regions : []) {
+    if (isTrackedField(field) && isValidBox(box) && !located[field]) {
+      located[field] = box;
+    }
+  }
+  return located;
+}
+
+// Merge per-page extractions ({ pageNumber, source, regions, data }) field by
+// field. The first page with a value wins; pages that report a different value
+// are kept as conflicts rather than silently overwriting it. Lists are combined.
+export function mergePageValues(pageExtractions, { fields = null } = {}) {
+  const values = {};
+  const provenance = {};
+
+  for (const { data } of pageExtractions) {
+    for (const field of Object.keys(data)) {
+      if (METADATA_FIELDS.has(field)) {
+        values[field] = data[field];
+      }
+    }
+  }
+
+  const tracked = fields || [...new Set(pageExtractions.flatMap(({ data }) => Object.keys(data)))]
+    .filter(field => !METADATA_FIELDS.has(field));
+
+  for (const field of tracked) {
+    const reporting = pageExtractions.filter(({ data }) => data[field] !== undefined);
+    if (reporting.length === 0) {
+      continue;
+    }
+
+    if (reporting.some(({ data }) => Array.isArray(data[field]))) {
+      values[field] = unique(reporting.flatMap(({ data }) => data[field] || []));
+      if (!NARRATIVE_FIELDS.has(field) && values[field].length > 0) {
+        provenance[field] = pageProvenance(reporting.filter(({ data }) => !isEmpty(data[field])), field);
+      }
+      continue;
+    }
+
+    const withValue = reporting.filter(({ data }) => !isEmpty(data[field]));
+    const chosen = withValue[0] || reporting[0];
+    values[field] = chosen.data[field];
+
+    // Fields no page shows have nothing to point to
+    if (!NARRATIVE_FIELDS.has(field) && withValue.length > 0) {
+      provenance[field] = {
+        ...pageProvenance([chosen, ...withValue.filter(page => page !== chosen)], field),
+        conflicts: withValue
+          .filter(page => !sameValue(page.data[field], chosen.data[field]))
+          .map(page => ({ pageNumber: page.pageNumber, value: page.data[field] }))
+      };
+    }
+  }
+
+  return { values, provenance };
+}
+
+// Provenance of a value computed from several pages (e.g. the bank statement
+// ledger) rather than read from one place
+export function computedProvenance(pageExtractions, pageNumber = null) {
+  const pages = pageExtractions.map(page => page.pageNumber);
+  const primary = pageExtractions.find(page => page.pageNumber === pageNumber) || pageExtractions[0];
+
+  return {
+    pageNumber: primary?.pageNumber ?? null,
+    extractionSource: primary?.source ?? null,
+    region: null,
+    pages,
+    conflicts: [],
+    computed: true
+  };
+}
+
+function pageProvenance(pages, field) {
+  const [primary] = pages;
+  return {
+    pageNumber: primary?.pageNumber ?? null,
+    extractionSource: primary?.source ?? null,
+    region: primary?.regions?.[field] ?? null,
+    pages: pages.map(page => page.pageNumber),
+    conflicts: [],
+    computed: false
+  };
+}
+
+function isTrackedField(field) {
+  return typeof field === 'string' && !METADATA_FIELDS.has(field) && !NARRATIVE_FIELDS.has(field);
+}
+
+function isValidBox(box) {
+  return Array.isArray(box) &&
+    box.length === 4 &&
+    box.every(value => typeof value === 'number' && value >= 0 && value <= 1) &&
+    box[0] < box[2] &&
+    box[1] < box[3];
+}
+
+// Prompts ask for 0 when a figure isn't shown, so 0 doesn't count as a value
+function isEmpty(value) {
+  if (value === null || value === undefined || value === '' || value === 0) {
+    return true;
+  }
+  if (Array.isArray(value)) {
+    return value.length === 0;
+  }
+  if (typeof value === 'object') {
+    return Object.values(value).every(isEmpty);
+  }
+  return false;
+}
+
+function sameValue(a, b) {
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.trim().toUpperCase() === b.trim().toUpperCase();
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function unique(items) {
+  const seen = new Set();
+  return items.filter(item => {
+    const key = JSON.stringify(item);
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
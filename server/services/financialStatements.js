@@ -0,0 +1,300 @@
+// Merges the statements read from each page of a financial statement document
+// (income statement, balance sheet, cash flow statement) into reporting
+// periods and computes standard ratios from them deterministically.
+
+// Flows cover a period; balance sheet figures are as of its end
+export const STATEMENT_FIELDS = {
+  income_statement: ['revenue', 'costOfSales', 'operatingIncome', 'interestExpense', 'depreciation', 'netProfit'],
+  balance_sheet: ['currentAssets', 'totalAssets', 'currentLiabilities', 'totalLiabilities', 'totalEquity', 'totalDebt'],
+  cash_flow: ['operatingCashFlow', 'debtRepayments']
+};
+
+export const STATEMENT_TYPES = Object.keys(STATEMENT_FIELDS);
+
+// Costs are printed as negatives on some statements and positives on others;
+// they are kept as positive figures
+const COST_FIELDS = new Set(['costOfSales', 'interestExpense', 'depreciation', 'debtRepayments']);
+
+const SECTIONS = {
+  income_statement: 'incomeStatement',
+  balance_sheet: 'balanceSheet',
+  cash_flow: 'cashFlowStatement'
+};
+
+const FLOW_TYPES = ['income_statement', 'cash_flow'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = value => Math.round(value * 100) / 100;
+
+// Group the statements of every page by reporting period. Flows are keyed by
+// their start and end, so a quarter and the year ending on the same day stay
+// apart; balances are attached to the period ending on their date. A figure
+// shown on several pages is taken from the first; different values on later
+// pages are kept as conflicts.
+export function buildPeriods(pages) {
+  const flows = new Map();
+  const balances = new Map();
+  const conflicts = [];
+  let skippedStatements = 0;
+
+  for (const page of pages) {
+    for (const statement of page.statements || []) {
+      const fields = STATEMENT_FIELDS[statement.statementType];
+      const periodEnd = normalizePeriodDate(statement.periodEnd, 'end');
+      if (!fields || !periodEnd) {
+        skippedStatements++;
+        continue;
+      }
+
+      const isFlow = FLOW_TYPES.includes(statement.statementType);
+      const periodStart = isFlow ? normalizePeriodDate(statement.periodStart, 'start') : null;
+      // A start after the end, or a period under a month, is a misread date
+      if (periodStart && monthsBetween(periodStart, periodEnd, true) < 1) {
+        skippedStatements++;
+        continue;
+      }
+      const periods = isFlow ? flows : balances;
+      const key = isFlow ? `${periodStart}|${periodEnd}` : periodEnd;
+
+      if (!periods.has(key)) {
+        periods.set(key, { periodStart, periodEnd, sections: {}, pages: new Set() });
+      }
+      const period = periods.get(key);
+      const section = period.sections[statement.statementType] ??= {};
+
+      for (const field of fields) {
+        if (typeof statement[field] !== 'number' || !Number.isFinite(statement[field])) {
+          continue;
+        }
+        const value = COST_FIELDS.has(field) ? Math.abs(statement[field]) : statement[field];
+        if (section[field] === undefined) {
+          section[field] = value;
+          period.pages.add(page.pageNumber);
+        } else if (section[field] !== value) {
+          conflicts.push({ periodEnd, field, pageNumber: page.pageNumber ?? null, value, used: section[field] });
+        }
+      }
+    }
+  }
+
+  const periods = [...flows.values()].map(flow => {
+    const balance = balances.get(flow.periodEnd);
+    return toPeriod(flow, balance);
+  });
+
+  // Balance sheets without an income or cash flow statement for a period ending on their date
+  const flowEnds = new Set([...flows.values()].map(flow => flow.periodEnd));
+  for (const balance of balances.values()) {
+    if (!flowEnds.has(balance.periodEnd)) {
+      periods.push(toPeriod(null, balance));
+    }
+  }
+
+  periods.sort((a, b) => a.periodEnd.localeCompare(b.periodEnd) || (a.months ?? 0) - (b.months ?? 0));
+  return { periods, conflicts, skippedStatements };
+}
+
+// Twelve months of flows ending on `periodEnd`, with the balances as of that
+// date: a reported annual period, else consecutive shorter periods (quarters,
+// months) added up, else the longest period ending then scaled to a year.
+// Null when nothing was reported for that date.
+export function annualFigures(periods, periodEnd) {
+  const ending = periods.filter(period => period.periodEnd === periodEnd);
+  if (ending.length === 0) {
+    return null;
+  }
+
+  const balanceSheet = ending.find(period => period.balanceSheet)?.balanceSheet ?? null;
+  const flowPeriods = periods.filter(period => period.months !== null);
+  const base = { periodEnd, months: 12, balanceSheet };
+
+  const reported = ending.find(period => period.months === 12);
+  if (reported) {
+    return { ...base, periodStart: reported.periodStart, basis: 'reported', ...flowSections([reported]) };
+  }
+
+  const chain = consecutivePeriods(flowPeriods, periodEnd, 12);
+  if (chain) {
+    return { ...base, periodStart: chain[chain.length - 1].periodStart, basis: 'aggregated', ...flowSections(chain) };
+  }
+
+  const longest = ending
+    .filter(period => period.months >= 1)
+    .sort((a, b) => b.months - a.months)[0];
+  if (longest) {
+    return {
+      ...base,
+      periodStart: null,
+      basis: 'annualized',
+      ...flowSections([longest], 12 / longest.months)
+    };
+  }
+
+  return { ...base, periodStart: null, basis: 'balance_sheet_only', incomeStatement: null, cashFlowStatement: null };
+}
+
+// Ratios for the latest period of the document, with growth against the
+// twelve months before it when those were reported too. Margins and growth
+// are percentages; the rest are multiples. Null where an input is missing.
+export function computeFinancialRatios(periods) {
+  if (periods.length === 0) {
+    return null;
+  }
+
+  const latestEnd = periods[periods.length - 1].periodEnd;
+  const current = annualFigures(periods, latestEnd);
+  const priorEnd = periods
+    .map(period => period.periodEnd)
+    .filter(end => Math.abs(monthsBetween(end, latestEnd) - 12) <= 1)
+    .pop();
+  const prior = priorEnd ? annualFigures(periods, priorEnd) : null;
+
+  const income = current.incomeStatement || {};
+  const balance = current.balanceSheet || {};
+  const cashFlow = current.cashFlowStatement || {};
+
+  const equity = balance.totalEquity ??
+    (balance.totalAssets !== undefined && balance.totalLiabilities !== undefined
+      ? balance.totalAssets - balance.totalLiabilities
+      : undefined);
+  const ebitda = income.operatingIncome !== undefined
+    ? income.operatingIncome + (income.depreciation ?? 0)
+    : undefined;
+  const debtService = income.interestExpense !== undefined || cashFlow.debtRepayments !== undefined
+    ? (income.interestExpense ?? 0) + (cashFlow.debtRepayments ?? 0)
+    : undefined;
+
+  return {
+    periodStart: current.periodStart,
+    periodEnd: current.periodEnd,
+    basis: current.basis,
+    grossMargin: percentage(subtract(income.revenue, income.costOfSales), income.revenue),
+    operatingMargin: percentage(income.operatingIncome, income.revenue),
+    netMargin: percentage(income.netProfit, income.revenue),
+    currentRatio: ratio(balance.currentAssets, balance.currentLiabilities),
+    debtToEquity: ratio(balance.totalDebt ?? balance.totalLiabilities, equity > 0 ? equity : undefined),
+    debtToAssets: ratio(balance.totalLiabilities, balance.totalAssets),
+    debtServiceCoverage: ratio(ebitda, debtService),
+    revenueGrowth: growth(income.revenue, prior?.incomeStatement?.revenue),
+    netProfitGrowth: growth(income.netProfit, prior?.incomeStatement?.netProfit),
+    priorPeriodEnd: prior ? prior.periodEnd : null
+  };
+}
+
+function toPeriod(flow, balance) {
+  const periodEnd = (flow || balance).periodEnd;
+  const pages = new Set([...(flow?.pages || []), ...(balance?.pages || [])]);
+
+  return {
+    periodStart: flow ? flow.periodStart : null,
+    periodEnd,
+    // Flows without a start date are taken as annual, the usual reporting period
+    months: flow ? (flow.periodStart ? monthsBetween(flow.periodStart, periodEnd, true) : 12) : null,
+    incomeStatement: flow?.sections.income_statement ?? null,
+    cashFlowStatement: flow?.sections.cash_flow ?? null,
+    balanceSheet: balance?.sections.balance_sheet ?? null,
+    pages: [...pages].filter(page => page !== undefined).sort((a, b) => a - b)
+  };
+}
+
+// Periods that follow each other back from `periodEnd` and add up to `months`.
+// Each period is at least a month, so the chain has at most `months` links.
+function consecutivePeriods(periods, periodEnd, months) {
+  const chain = [];
+  let end = periodEnd;
+  let covered = 0;
+
+  while (covered < months && chain.length < months) {
+    const next = periods
+      .filter(period => period.periodEnd === end && period.periodStart && period.months >= 1 && covered + period.months <= months)
+      .sort((a, b) => b.months - a.months)[0];
+    if (!next) {
+      return null;
+    }
+    chain.push(next);
+    covered += next.months;
+    end = shiftDate(next.periodStart, -1);
+  }
+
+  return covered === months ? chain : null;
+}
+
+// Sums each flow over `periods`; a figure missing from any of them is left out
+function flowSections(periods, scale = 1) {
+  const sum = (sectionName, fields) => {
+    const sections = periods.map(period => period[sectionName]);
+    if (sections.some(section => !section)) {
+      return null;
+    }
+
+    const totals = {};
+    for (const field of fields) {
+      if (sections.every(section => section[field] !== undefined)) {
+        totals[field] = round(sections.reduce((total, section) => total + section[field], 0) * scale);
+      }
+    }
+    return totals;
+  };
+
+  return {
+    incomeStatement: sum(SECTIONS.income_statement, STATEMENT_FIELDS.income_statement),
+    cashFlowStatement: sum(SECTIONS.cash_flow, STATEMENT_FIELDS.cash_flow)
+  };
+}
+
+// ISO dates, "YYYY-MM" and "YYYY" taken as the start or end of that month or year
+function normalizePeriodDate(value, edge) {
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const match = value.trim().match(/^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?/);
+  if (!match) {
+    return null;
+  }
+
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : edge === 'end' ? 11 : 0;
+  const date = match[3]
+    ? new Date(Date.UTC(year, month, Number(match[3])))
+    : edge === 'end'
+      ? new Date(Date.UTC(year, month + 1, 0))
+      : new Date(Date.UTC(year, month, 1));
+
+  return Number.isNaN(date.getTime()) ? null : date.toISOString().slice(0, 10);
+}
+
+// Whole months from `start` to `end`; `inclusive` counts both days, as a
+// period from 2024-01-01 to 2024-12-31 is twelve months
+function monthsBetween(start, end, inclusive = false) {
+  const days = (Date.parse(end) - Date.parse(start)) / DAY_MS + (inclusive ? 1 : 0);
+  return Math.round(days / (365.25 / 12));
+}
+
+function shiftDate(date, days) {
+  return new Date(Date.parse(date) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+function subtract(a, b) {
+  return a !== undefined && b !== undefined ? a - b : undefined;
+}
+
+function ratio(numerator, denominator) {
+  if (numerator === undefined || !denominator) {
+    return null;
+  }
+  return round(numerator / denominator);
+}
+
+function percentage(numerator, denominator) {
+  const value = ratio(numerator, denominator);
+  return value === null ? null : round((numerator / denominator) * 100);
+}
+
+function growth(current, previous) {
+  if (current === undefined || previous === undefined || previous === 0) {
+    return null;
+  }
+  return round(((current - previous) / Math.abs(previous)) * 100);
+}
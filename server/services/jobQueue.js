@@ -0,0 +1,452 @@
+import { EventEmitter } from 'events';
+import fs from 'fs-extra';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { processDocuments } from './documentProcessor.js';
+import { analyzeCredit } from './creditAnalyzer.js';
+import { reconcileDocuments, applyDiscrepancyRiskFactors } from './reconciliation.js';
+import { applicationStore, summarizeApplication } from './applicationStore.js';
+import { withModelCallContext } from './modelCallLog.js';
+import { removePagePreviews } from './pagePreviews.js';
+
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled'];
+const JOB_RETENTION_MS = 60 * 60 * 1000; // Keep finished jobs for 1 hour
+const MAX_EVENTS_PER_JOB = 1000;
+
+// Share of per-file progress spent preparing pages (text layer or rasterizing); the rest is extraction
+const RASTERIZE_WEIGHT = 30;
+
+// Overall job progress bands per stage
+const EXTRACTION_PROGRESS = { start: 10, end: 85 };
+const ANALYSIS_PROGRESS = 90;
+
+class JobQueue extends EventEmitter {
+  constructor() {
+    super();
+    // Every open SSE connection adds a listener
+    this.setMaxListeners(0);
+    this.jobs = new Map();
+    this.pending = [];
+    this.running = false;
+  }
+
+  // Register a new processing job and schedule it. The job runs independently
+  // of the HTTP request that created it, so client disconnects don't affect it.
+  submit(files, { applicant = {}, scoringMode, loanRequest = null } = {}) {
+    this.pruneFinishedJobs();
+
+    const now = new Date().toISOString();
+    const job = {
+      id: uuidv4(),
+      status: 'queued',
+      stage: 'queued',
+      progress: 0,
+      files: files.map(file => ({
+        fileId: file.id,
+        fileName: file.originalName,
+        status: 'pending',
+        step: 'queued',
+        progress: 0,
+        pageCount: null,
+        pagesFromTextLayer: 0,
+        pagesRasterized: 0,
+        pagesExtracted: 0,
+        pagesFailed: 0
+      })),
+      events: [],
+      results: null,
+      applicationId: null,
+      error: null,
+      createdAt: now,
+      updatedAt: now,
+      startedAt: null,
+      completedAt: null,
+      // Internal state, never serialized
+      applicant,
+      scoringMode,
+      loanRequest,
+      uploadedFiles: files,
+      controller: new AbortController()
+    };
+
+    this.jobs.set(job.id, job);
+    this.pending.push(job.id);
+
+    files.forEach(file => this.recordEvent(job, {
+      type: 'upload_received',
+      fileId: file.id,
+      fileName: file.originalName,
+      size: file.size
+    }));
+
+    console.log(`🗂️  Queued job ${job.id} with ${files.length} file(s)`);
+
+    // Run on the next tick so the caller can respond immediately
+    setImmediate(() => this.runNext());
+
+    return job;
+  }
+
+  getJob(jobId) {
+    return this.jobs.get(jobId) || null;
+  }
+
+  cancel(jobId) {
+    const job = this.jobs.get(jobId);
+    if (!job) {
+      return null;
+    }
+
+    if (this.isFinished(job)) {
+      return job;
+    }
+
+    job.controller.abort(new Error('Job cancelled by user'));
+
+    // Queued jobs never reach the runner, so finalize them here
+    if (job.status === 'queued') {
+      this.pending = this.pending.filter(id => id !== jobId);
+      this.finishJob(job, 'cancelled');
+      this.cleanupUploads(job);
+    }
+
+    console.log(`🛑 Cancellation requested for job ${jobId}`);
+    return job;
+  }
+
+  async runNext() {
+    // Ollama handles one model call at a time well, so jobs run sequentially
+    if (this.running || this.pending.length === 0) {
+      return;
+    }
+
+    const job = this.jobs.get(this.pending.shift());
+    if (!job) {
+      return this.runNext();
+    }
+
+    this.running = true;
+    try {
+      await this.runJob(job);
+    } finally {
+      this.running = false;
+      setImmediate(() => this.runNext());
+    }
+  }
+
+  async runJob(job) {
+    const { signal } = job.controller;
+
+    this.updateJob(job, {
+      status: 'running',
+      stage: 'extracting',
+      progress: EXTRACTION_PROGRESS.start,
+      startedAt: new Date().toISOString()
+    });
+
+    try {
+      console.log(`🔄 Job ${job.id}: processing ${job.uploadedFiles.length} documents`);
+
+      // Model calls made for this job are logged under its id
+      const extractedResults = await withModelCallContext({ runId: job.id }, () => processDocuments(job.uploadedFiles, {
+        signal,
+        onEvent: (event) => this.handleProcessingEvent(job, event)
+      }));
+
+      signal.throwIfAborted();
+
+      // Compare overlapping fields across documents before scoring
+      const reconciliation = reconcileDocuments(extractedResults, { applicant: job.applicant });
+      const processedResults = applyDiscrepancyRiskFactors(extractedResults, reconciliation.discrepancies);
+      this.recordEvent(job, { type: 'documents_reconciled', discrepancyCount: reconciliation.discrepancies.length });
+
+      this.updateJob(job, { stage: 'analyzing', progress: ANALYSIS_PROGRESS });
+      this.recordEvent(job, { type: 'analysis_started' });
+
+      const creditAnalysis = await withModelCallContext(
+        { runId: job.id },
+        () => analyzeCredit(processedResults, { scoringMode: job.scoringMode, loanRequest: job.loanRequest })
+      );
+
+      signal.throwIfAborted();
+      this.recordEvent(job, {
+        type: 'analysis_completed',
+        score: creditAnalysis.recommendation.score,
+        riskLevel: creditAnalysis.overallRisk
+      });
+
+      job.results = {
+        files: processedResults,
+        creditRecommendation: creditAnalysis.recommendation,
+        overallRisk: creditAnalysis.overallRisk,
+        confidence: creditAnalysis.confidence,
+        modelInfo: creditAnalysis.modelInfo,
+        documentSummary: creditAnalysis.documentSummary,
+        scorecard: creditAnalysis.scorecard,
+        reconciliation
+      };
+
+      await this.saveApplication(job);
+
+      this.finishJob(job, 'completed');
+
+      console.log(`✅ Job ${job.id} completed successfully`);
+      console.log(`📈 Credit Score: ${creditAnalysis.recommendation.score}`);
+      console.log(`⚠️  Risk Level: ${creditAnalysis.overallRisk}`);
+    } catch (error) {
+      if (signal.aborted) {
+        console.log(`🛑 Job ${job.id} cancelled`);
+        this.finishJob(job, 'cancelled');
+      } else {
+        console.error(`Job ${job.id} failed:`, error);
+        job.error = error.message;
+        this.finishJob(job, 'failed');
+      }
+    } finally {
+      await this.cleanupUploads(job);
+    }
+  }
+
+  // Persist the finished assessment. A storage failure shouldn't throw away
+  // results the user has waited minutes for, so it is only logged.
+  async saveApplication(job) {
+    try {
+      const application = await applicationStore.create({
+        applicant: job.applicant,
+        results: job.results,
+        jobId: job.id
+      });
+      job.applicationId = application.id;
+      job.results = { ...job.results, application: summarizeApplication(application) };
+    } catch (error) {
+      console.error(`Failed to save application for job ${job.id}:`, error);
+    }
+  }
+
+  updateJob(job, patch) {
+    Object.assign(job, patch, { updatedAt: new Date().toISOString() });
+  }
+
+  // Translate document processor events into per-file state, then broadcast them
+  handleProcessingEvent(job, event) {
+    const file = job.files.find(f => f.fileId === event.fileId);
+    if (!file) {
+      return;
+    }
+
+    switch (event.type) {
+      case 'file_started':
+        Object.assign(file, { status: 'processing', step: 'rasterizing', progress: 0 });
+        break;
+      case 'page_text_extracted':
+        file.pagesFromTextLayer += 1;
+        Object.assign(file, {
+          pageCount: event.pageCount,
+          progress: Math.round(((file.pagesFromTextLayer + file.pagesRasterized) / event.pageCount) * RASTERIZE_WEIGHT)
+        });
+        break;
+      case 'page_rasterized':
+        file.pagesRasterized += 1;
+        Object.assign(file, {
+          pageCount: event.pageCount,
+          progress: Math.round(((file.pagesFromTextLayer + file.pagesRasterized) / event.pageCount) * RASTERIZE_WEIGHT)
+        });
+        break;
+      case 'file_classified':
+        Object.assign(file, { documentType: event.documentType, classificationConfidence: event.confidence });
+        break;
+      case 'page_extraction_started':
+        Object.assign(file, { step: 'extracting', pageCount: event.pageCount });
+        break;
+      case 'page_extracted':
+      case 'page_failed':
+        if (event.type === 'page_extracted') {
+          file.pagesExtracted += 1;
+        } else {
+          file.pagesFailed += 1;
+        }
+        Object.assign(file, {
+          pageCount: event.pageCount,
+          progress: RASTERIZE_WEIGHT + Math.round(((file.pagesExtracted + file.pagesFailed) / event.pageCount) * (100 - RASTERIZE_WEIGHT))
+        });
+        break;
+      case 'file_completed':
+        Object.assign(file, { status: 'completed', step: 'completed', progress: 100 });
+        break;
+      case 'file_failed':
+        Object.assign(file, { status: 'error', step: 'failed', progress: 100, error: event.error });
+        break;
+    }
+    file.message = describeEvent(event);
+
+    const averageFileProgress = job.files.reduce((sum, f) => sum + f.progress, 0) / job.files.length;
+    this.updateJob(job, {
+      progress: Math.round(
+        EXTRACTION_PROGRESS.start +
+        (averageFileProgress / 100) * (EXTRACTION_PROGRESS.end - EXTRACTION_PROGRESS.start)
+      )
+    });
+
+    this.recordEvent(job, event);
+  }
+
+  // Store an event for replay to late subscribers and notify live listeners
+  recordEvent(job, event) {
+    const record = {
+      ...event,
+      jobId: job.id,
+      sequence: job.events.length > 0 ? job.events[job.events.length - 1].sequence + 1 : 1,
+      message: describeEvent(event),
+      timestamp: new Date().toISOString(),
+      job: this.summarize(job)
+    };
+
+    job.events.push(record);
+    if (job.events.length > MAX_EVENTS_PER_JOB) {
+      job.events.shift();
+    }
+
+    this.emit('event', record);
+    return record;
+  }
+
+  isFinished(job) {
+    return FINISHED_STATUSES.includes(job.status);
+  }
+
+  finishJob(job, status) {
+    // Files that never started keep no dangling 'pending'/'processing' state
+    job.files.forEach(file => {
+      if (file.status === 'pending' || file.status === 'processing') {
+        file.status = status === 'completed' ? 'completed' : 'error';
+        file.step = status;
+      }
+    });
+
+    this.updateJob(job, {
+      status,
+      stage: status,
+      progress: status === 'completed' ? 100 : job.progress,
+      completedAt: new Date().toISOString()
+    });
+
+    this.recordEvent(job, { type: `job_${status}`, error: job.error || undefined });
+  }
+
+  async cleanupUploads(job) {
+    for (const file of job.uploadedFiles) {
+      // Passwords of encrypted PDFs are only held while the job runs
+      delete file.password;
+      try {
+        await fs.remove(file.path);
+      } catch (cleanupError) {
+        console.warn(`Failed to cleanup file ${file.originalName}:`, cleanupError.message);
+      }
+    }
+  }
+
+  // Uploads and temp directories (named by file id) of unfinished jobs, which
+  // the upload sweeper must leave alone
+  isUsingPath(entryPath) {
+    const name = path.basename(entryPath);
+    for (const job of this.jobs.values()) {
+      if (!FINISHED_STATUSES.includes(job.status) &&
+        job.uploadedFiles.some(file => path.resolve(file.path) === path.resolve(entryPath) || file.id === name)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  pruneFinishedJobs() {
+    const cutoff = Date.now() - JOB_RETENTION_MS;
+    for (const [jobId, job] of this.jobs) {
+      if (FINISHED_STATUSES.includes(job.status) && new Date(job.completedAt).getTime() < cutoff) {
+        this.jobs.delete(jobId);
+        // Saved assessments keep their page previews for the rest of the session
+        if (!job.applicationId) {
+          removePagePreviews(job.files.map(file => file.fileId))
+            .catch(error => console.warn(`Failed to remove page previews of job ${jobId}:`, error.message));
+        }
+      }
+    }
+  }
+
+  // Lightweight progress snapshot attached to every streamed event
+  summarize(job) {
+    return {
+      id: job.id,
+      status: job.status,
+      stage: job.stage,
+      progress: job.progress,
+      files: job.files.map(file => ({ ...file })),
+      error: job.error,
+      updatedAt: job.updatedAt
+    };
+  }
+
+  // Public representation of a job, safe to send to clients
+  serialize(job) {
+    return {
+      id: job.id,
+      status: job.status,
+      stage: job.stage,
+      progress: job.progress,
+      files: job.files,
+      results: job.results,
+      applicationId: job.applicationId,
+      error: job.error,
+      createdAt: job.createdAt,
+      updatedAt: job.updatedAt,
+      startedAt: job.startedAt,
+      completedAt: job.completedAt
+    };
+  }
+}
+
+function describeEvent(event) {
+  switch (event.type) {
+    case 'upload_received':
+      return `Upload received: ${event.fileName}`;
+    case 'file_started':
+      return `Started processing ${event.fileName}`;
+    case 'page_text_extracted':
+      return `Read text layer of page ${event.page} of ${event.pageCount}`;
+    case 'page_rasterized':
+      return `Rasterized page ${event.page} of ${event.pageCount}`;
+    case 'file_classified':
+      return event.source === 'user'
+        ? `Using selected document type: ${event.documentType.replace('_', ' ')}`
+        : `Classified as ${event.documentType.replace('_', ' ')} (${event.confidence}% confidence)`;
+    case 'page_extraction_started':
+      return event.source === 'text_layer'
+        ? `Extracting page ${event.page} from its text layer`
+        : `Extracting page ${event.page} with vision model`;
+    case 'page_extracted':
+      return event.fromCache ? `Reused cached extraction of page ${event.page}` : `Extracted page ${event.page}`;
+    case 'page_failed':
+      return `Could not extract page ${event.page}: ${event.error}`;
+    case 'file_completed':
+      return `Finished ${event.fileName}`;
+    case 'file_failed':
+      return `Failed to process ${event.fileName}: ${event.error}`;
+    case 'documents_reconciled':
+      return event.discrepancyCount > 0
+        ? `Found ${event.discrepancyCount} discrepancy(ies) between documents`
+        : 'Documents are consistent with each other';
+    case 'analysis_started':
+      return 'Credit analysis started';
+    case 'analysis_completed':
+      return `Credit analysis completed (score ${event.score})`;
+    case 'job_completed':
+      return 'Processing completed';
+    case 'job_failed':
+      return `Processing failed: ${event.error}`;
+    case 'job_cancelled':
+      return 'Processing cancelled';
+    default:
+      return event.type;
+  }
+}
+
+export const jobQueue = new JobQueue();
@@ -0,0 +1,101 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { DATA_DIR } from './applicationStore.js';
+import { config } from '../config.js';
+
+// Audit log of every model call: the full prompt, options, a hash of the
+// image, the full raw response, latency and whether it parsed. Calls are
+// linked to the run that made them (a processing job, or a classification
+// request) and stored as one JSON-lines file per run.
+
+// Run id, file and page of the work in progress, so calls deep inside the
+// document processor are attributed without threading ids through every layer
+const callContext = new AsyncLocalStorage();
+
+export function withModelCallContext(fields, fn) {
+  return callContext.run({ ...callContext.getStore(), ...fields }, fn);
+}
+
+// Run ids become file names
+const RUN_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+class ModelCallLog {
+  constructor(directory, { enabled = true } = {}) {
+    this.directory = directory;
+    this.enabled = enabled;
+    this.writeQueue = Promise.resolve();
+  }
+
+  // Logging failures are reported but never fail the model call itself.
+  // Calls made outside a run are not recorded.
+  record({ imageBase64, ...call }) {
+    const context = callContext.getStore() || {};
+    if (!this.enabled || !context.runId) {
+      return Promise.resolve(null);
+    }
+
+    const entry = {
+      id: uuidv4(),
+      runId: context.runId,
+      fileId: context.fileId ?? null,
+      fileName: context.fileName ?? null,
+      page: context.page ?? null,
+      ...call,
+      image: imageBase64 ? describeImage(imageBase64) : null
+    };
+
+    this.writeQueue = this.writeQueue
+      .catch(() => {})
+      .then(async () => {
+        await fs.ensureDir(this.directory);
+        await fs.appendFile(this.runPath(entry.runId), `${JSON.stringify(entry)}\n`);
+      })
+      .catch(error => console.error('Failed to write model call log:', error.message));
+
+    return this.writeQueue.then(() => entry.id);
+  }
+
+  // Calls of a run in the order they were made; empty when the run made none
+  async list(runId) {
+    if (!RUN_ID_PATTERN.test(runId)) {
+      return [];
+    }
+
+    await this.writeQueue;
+    const filePath = this.runPath(runId);
+    if (!(await fs.pathExists(filePath))) {
+      return [];
+    }
+
+    const content = await fs.readFile(filePath, 'utf8');
+    return content
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => JSON.parse(line));
+  }
+
+  async delete(runId) {
+    if (RUN_ID_PATTERN.test(runId)) {
+      await this.writeQueue;
+      await fs.remove(this.runPath(runId));
+    }
+  }
+
+  runPath(runId) {
+    return path.join(this.directory, `${runId}.jsonl`);
+  }
+}
+
+// Images are identified by hash rather than stored again
+function describeImage(imageBase64) {
+  const image = Buffer.from(imageBase64, 'base64');
+  return {
+    sha256: crypto.createHash('sha256').update(image).digest('hex'),
+    bytes: image.length
+  };
+}
+
+export const modelCallLog = new ModelCallLog(path.join(DATA_DIR, 'model-calls'), config.modelCallLog);
@@ -0,0 +1,103 @@
+// Limits how many requests each model serves at once and retries the ones
+// that failed for a reason that may pass: network errors, timeouts and an
+// overloaded or restarting server. A bad request or a missing model fails the
+// same way every time, so it is not retried.
+
+const TRANSIENT_ERROR_CODES = ['ECONNABORTED', 'ETIMEDOUT', 'ECONNRESET', 'ECONNREFUSED', 'EAI_AGAIN', 'EPIPE', 'ERR_NETWORK'];
+const TRANSIENT_STATUS_CODES = [408, 429, 500, 502, 503, 504];
+
+export function isTransientError(error) {
+  if (error.response) {
+    return TRANSIENT_STATUS_CODES.includes(error.response.status);
+  }
+  return TRANSIENT_ERROR_CODES.includes(error.code);
+}
+
+// Exponential, capped, with jitter so parallel pages don't retry in lockstep
+export function backoffDelay(retry, { initialDelayMs, maxDelayMs }) {
+  const delay = Math.min(maxDelayMs, initialDelayMs * 2 ** retry);
+  return Math.round(delay * (0.5 + Math.random() / 2));
+}
+
+// Runs at most `concurrency` tasks at once; the rest wait in order
+class Limiter {
+  constructor(concurrency) {
+    this.concurrency = Math.max(1, concurrency);
+    this.active = 0;
+    this.waiting = [];
+  }
+
+  async run(task) {
+    if (this.active < this.concurrency) {
+      this.active++;
+    } else {
+      // The slot is handed over by a finishing task, so `active` stays as is
+      await new Promise(resolve => this.waiting.push(resolve));
+    }
+
+    try {
+      return await task();
+    } finally {
+      const next = this.waiting.shift();
+      if (next) {
+        next();
+      } else {
+        this.active--;
+      }
+    }
+  }
+}
+
+export class ModelScheduler {
+  // `concurrency` maps model names to their limit; other models get 1
+  constructor({ concurrency = {}, retry }) {
+    this.concurrency = concurrency;
+    this.retry = retry;
+    this.limiters = new Map();
+  }
+
+  limiterFor(model) {
+    if (!this.limiters.has(model)) {
+      this.limiters.set(model, new Limiter(this.concurrency[model] ?? 1));
+    }
+    return this.limiters.get(model);
+  }
+
+  // `task(retry)` is one request; it is called again after a transient
+  // failure, up to `retry.maxRetries` times. Backoff waits keep the slot, so
+  // a struggling server isn't sent more work meanwhile.
+  run(model, task) {
+    return this.limiterFor(model).run(async () => {
+      for (let retry = 0; ; retry++) {
+        try {
+          return await task(retry);
+        } catch (error) {
+          if (retry >= this.retry.maxRetries || !isTransientError(error)) {
+            throw error;
+          }
+
+          const delay = backoffDelay(retry, this.retry);
+          console.warn(`${model} request failed (${error.message}), retry ${retry + 1}/${this.retry.maxRetries} in ${delay}ms`);
+          await new Promise(resolve => setTimeout(resolve, delay));
+        }
+      }
+    });
+  }
+}
+
+// Map `items` through `fn` with at most `concurrency` calls in flight.
+// Results keep the order of `items`.
+export async function mapWithConcurrency(items, concurrency, fn) {
+  const results = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(Math.max(1, concurrency), items.length) }, worker));
+  return results;
+}
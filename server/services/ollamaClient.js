@@ -1,63 +1,123 @@
-import axios from 'axios';
+import { config } from '../config.js';
+import { createModelProvider } from './providers/index.js';
+import { getExtractionSchema, CLASSIFICATION_SCHEMA, CREDIT_RECOMMENDATION_SCHEMA } from './extractionSchemas.js';
+import { parseJSONResponse, validateAgainstSchema, formatValidationErrors } from './structuredOutput.js';
+import { modelCallLog } from './modelCallLog.js';
+import { ModelScheduler } from './modelScheduler.js';
+
+// Bump when the extraction prompts or schemas change, so cached extractions
+// made with the old ones are no longer used
+export const EXTRACTION_PROMPT_VERSION = 4;
+
+// What a model call is for, in the console log
+const PURPOSE_LABELS = {
+  classification: 'document classification',
+  extraction: 'document extraction',
+  credit_recommendation: 'credit analysis'
+};
 
 class OllamaClient {
-  constructor(baseURL = 'http://localhost:11434') {
-    this.baseURL = baseURL;
-    this.visionModel = 'qwen2.5vl:7b';  // For document extraction
-    this.reasoningModel = 'deepseek-r1:8b';  // For credit recommendations
+  constructor({ modelProvider, models, structuredOutput, modelRetries } = config) {
+    this.provider = createModelProvider(modelProvider);
+    this.providerConfig = modelProvider;
+    this.modelSettings = models;
+    this.structuredOutput = structuredOutput;
+    this.visionModel = models.vision.name;  // For document extraction
+    this.reasoningModel = models.reasoning.name;  // For credit recommendations
+    this.scheduler = new ModelScheduler({
+      concurrency: {
+        [models.reasoning.name]: models.reasoning.concurrency,
+        [models.vision.name]: models.vision.concurrency
+      },
+      retry: modelRetries
+    });
   }
 
-  async generateResponse(prompt, imageBase64 = null, model = null) {
+  // Every call is recorded in the model call log, including each retry of a
+  // transient failure. `checkResponse` parses the raw response; its
+  // { status, errors } outcome is recorded with the call.
+  async generateResponse(prompt, imageBase64 = null, model = null, { format = null, purpose = null, attempt = 1, checkResponse = null } = {}) {
+    const selectedModel = model || (imageBase64 ? this.visionModel : this.reasoningModel);
+    const settings = selectedModel === this.visionModel ? this.modelSettings.vision : this.modelSettings.reasoning;
+    // Only the vision model receives images
+    const image = selectedModel === this.visionModel ? imageBase64 : null;
+    const options = {
+      temperature: settings.temperature,
+      topP: settings.topP,
+      topK: settings.topK,
+      timeout: settings.timeout,
+      format
+    };
+
+    const call = {
+      purpose,
+      attempt,
+      provider: this.provider.type,
+      model: selectedModel,
+      options,
+      prompt,
+      imageBase64: image
+    };
+
     try {
-      const selectedModel = model || (imageBase64 ? this.visionModel : this.reasoningModel);
-      
-      const payload = {
-        model: selectedModel,
-        prompt: prompt,
-        stream: false,
-        options: {
-          temperature: imageBase64 ? 0.1 : 0.3, // Lower temp for extraction, higher for reasoning
-          top_p: 0.9,
-          top_k: 40
-        }
-      };
+      const task = PURPOSE_LABELS[purpose] || (selectedModel === this.visionModel ? 'document extraction' : 'credit analysis');
+      console.log(`Using model: ${selectedModel} (${this.provider.type}) for ${task}`);
 
-      // Add image if provided (only for vision model)
-      if (imageBase64 && selectedModel === this.visionModel) {
-        payload.images = [imageBase64];
-      }
+      return await this.scheduler.run(selectedModel, async (retry) => {
+        const at = new Date().toISOString();
+        const startTime = Date.now();
 
-      console.log(`Using model: ${selectedModel} for ${imageBase64 ? 'document extraction' : 'credit analysis'}`);
+        try {
+          const response = await this.provider.generate({ model: selectedModel, prompt, imageBase64: image, ...options });
+          const outcome = checkResponse?.(response);
 
-      const response = await axios.post(`${this.baseURL}/api/generate`, payload, {
-        timeout: 180000, // 3 minutes timeout for reasoning model
-        headers: {
-          'Content-Type': 'application/json'
+          await modelCallLog.record({
+            ...call,
+            at,
+            retry,
+            status: 'succeeded',
+            rawResponse: response,
+            latencyMs: Date.now() - startTime,
+            parse: outcome ? { status: outcome.status, errors: outcome.errors } : null,
+            error: null
+          });
+
+          return response;
+        } catch (error) {
+          await modelCallLog.record({
+            ...call,
+            at,
+            retry,
+            status: 'failed',
+            rawResponse: null,
+            latencyMs: Date.now() - startTime,
+            parse: null,
+            error: error.message
+          });
+          throw error;
         }
       });
-
-      return response.data.response;
     } catch (error) {
-      console.error('Ollama API error:', error.message);
-      throw new Error(`Ollama API request failed: ${error.message}`);
+      console.error('Model API error:', error.message);
+      throw new Error(`Model API request failed: ${error.message}`);
     }
   }
 
   async checkHealth() {
     try {
-      const response = await axios.get(`${this.baseURL}/api/tags`, {
-        timeout: 5000
-      });
-      
-      const models = response.data.models || [];
-      const hasVisionModel = models.some(model => model.name.includes('qwen2.5vl'));
-      const hasReasoningModel = models.some(model => model.name.includes('deepseek-r1'));
+      const models = await this.provider.listModels();
+      const hasVisionModel = isModelAvailable(models, this.visionModel);
+      const hasReasoningModel = isModelAvailable(models, this.reasoningModel);
       
       return {
         connected: true,
+        provider: this.provider.type,
+        baseURL: this.provider.baseURL,
+        visionModel: this.visionModel,
+        reasoningModel: this.reasoningModel,
         visionModelAvailable: hasVisionModel,
         reasoningModelAvailable: hasReasoningModel,
-        models: models.map(m => m.name),
+        models,
         status: {
           vision: hasVisionModel ? 'available' : 'missing',
           reasoning: hasReasoningModel ? 'available' : 'missing'
@@ -66,140 +126,189 @@ class OllamaClient {
     } catch (error) {
       return {
         connected: false,
+        provider: this.provider.type,
+        baseURL: this.provider.baseURL,
         error: error.message
       };
     }
   }
 
-  // Enhanced JSON extraction with multiple fallback strategies
-  extractJSON(text) {
-    if (!text || typeof text !== 'string') {
-      return null;
-    }
+  // Configured models, as reported in /api/health and analysis results
+  getModelInfo() {
+    return {
+      provider: this.provider.type,
+      extractionModel: this.visionModel,
+      analysisModel: this.reasoningModel
+    };
+  }
 
-    // Strategy 1: Look for complete JSON objects
-    const jsonMatches = text.match(/\{[\s\S]*?\}/g);
-    if (jsonMatches) {
-      for (const match of jsonMatches) {
-        try {
-          const parsed = JSON.parse(match);
-          if (parsed && typeof parsed === 'object') {
-            return parsed;
-          }
-        } catch (e) {
-          continue;
-        }
-      }
-    }
+  // Request JSON that follows `schema` (passed to the model as its output
+  // format), validate the answer, and re-ask with the field-level errors when
+  // it doesn't conform. `data` is null if no attempt produced valid output.
+  async generateStructured(prompt, schema, { imageBase64 = null, model = null, purpose = null } = {}) {
+    const maxAttempts = Math.max(1, this.structuredOutput.maxAttempts);
+    let currentPrompt = prompt;
+    let rawResponse = '';
+    let errors = [];
 
-    // Strategy 2: Look for JSON between code blocks
-    const codeBlockMatch = text.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/i);
-    if (codeBlockMatch) {
-      try {
-        return JSON.parse(codeBlockMatch[1]);
-      } catch (e) {
-        // Continue to next strategy
-      }
-    }
+    for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+      let outcome;
+      rawResponse = await this.generateResponse(currentPrompt, imageBase64, model, {
+        format: schema,
+        purpose,
+        attempt,
+        checkResponse: response => (outcome = checkStructuredResponse(response, schema))
+      });
+      errors = outcome.errors;
 
-    // Strategy 3: Extract JSON from markdown-like format
-    const lines = text.split('\n');
-    let jsonStart = -1;
-    let jsonEnd = -1;
-    let braceCount = 0;
-
-    for (let i = 0; i < lines.length; i++) {
-      const line = lines[i].trim();
-      if (line.startsWith('{') && jsonStart === -1) {
-        jsonStart = i;
-        braceCount = 1;
-      } else if (jsonStart !== -1) {
-        for (const char of line) {
-          if (char === '{') braceCount++;
-          if (char === '}') braceCount--;
-        }
-        if (braceCount === 0) {
-          jsonEnd = i;
-          break;
-        }
+      if (errors.length === 0) {
+        return { data: outcome.parsed, rawResponse, attempts: attempt, errors };
       }
+
+      console.warn(`Structured output failed validation (attempt ${attempt}/${maxAttempts}):\n${formatValidationErrors(errors)}`);
+
+      currentPrompt = `${prompt}
+
+        Your previous response did not match the required JSON schema:
+        ${formatValidationErrors(errors)}
+        Respond again with ONLY a JSON object that fixes these problems.`;
     }
 
-    if (jsonStart !== -1 && jsonEnd !== -1) {
-      const jsonText = lines.slice(jsonStart, jsonEnd + 1).join('\n');
-      try {
-        return JSON.parse(jsonText);
-      } catch (e) {
-        // Continue to next strategy
+    return { data: null, rawResponse, attempts: maxAttempts, errors };
+  }
+
+  // Classify a page from its image, or from its text layer when `pageText` is given
+  async classifyDocument(imageBase64, { pageText = null } = {}) {
+    const prompt = `
+      Classify this document page for a credit assessment, based on its content.
+      Respond ONLY with valid JSON in this exact format:
+      {
+        "documentType": "bank_statement",
+        "confidence": 85,
+        "reasoning": "short explanation"
       }
-    }
 
-    // Strategy 4: Try to fix common JSON issues
-    let cleanedText = text
-      .replace(/```json/gi, '')
-      .replace(/```/g, '')
-      .replace(/^\s*[\w\s]*?(\{)/m, '$1') // Remove text before first {
-      .replace(/(\})\s*[\w\s]*?$/m, '$1') // Remove text after last }
-      .trim();
-
-    // Fix common JSON formatting issues
-    cleanedText = cleanedText
-      .replace(/,\s*}/g, '}') // Remove trailing commas
-      .replace(/,\s*]/g, ']') // Remove trailing commas in arrays
-      .replace(/([{,]\s*)(\w+):/g, '$1"$2":') // Quote unquoted keys
-      .replace(/:\s*([^",{\[\]}\s][^",{\[\]}]*?)(\s*[,}])/g, ':"$1"$2'); // Quote unquoted string values
+      Use one of these values for documentType:
+      - "bank_statement": bank account statements listing transactions and balances
+      - "financial": financial statements such as income statements, balance sheets, cash flow statements or annual reports
+      - "legal": contracts, agreements, licences, registrations and other legal documents
+      - "payslip": employer payslips, pay stubs and salary slips
+      - "tax_return": income tax returns and tax assessments
+      - "invoice": invoices issued by the applicant, and receivables or aged debtor listings
+      - "identity": passports, national identity cards and driving licences
+      - "unknown": anything else
 
-    try {
-      return JSON.parse(cleanedText);
-    } catch (e) {
-      console.warn('All JSON extraction strategies failed:', e.message);
-      return null;
+      confidence is how sure you are, from 0 to 100. Judge by the content, not the layout alone.
+      Do not include any text before or after the JSON object.
+    `;
+
+    const { data, errors } = await this.generateStructured(withPageText(prompt, pageText), CLASSIFICATION_SCHEMA, {
+      imageBase64: pageText ? null : imageBase64,
+      model: this.visionModel,
+      purpose: 'classification'
+    });
+
+    if (!data) {
+      throw new Error(`Document classification failed validation:\n${formatValidationErrors(errors)}`);
     }
+
+    return data;
   }
 
-  async extractFinancialData(imageBase64, documentType = 'unknown') {
+  // Extract from a page image, or from the page's text layer when `pageText` is
+  // given (digital PDFs), which avoids OCR-style misreads of figures
+  async extractFinancialData(imageBase64, documentType = 'unknown', { pageText = null } = {}) {
     const prompts = {
       bank_statement: `
-        Analyze this bank statement image and extract the following financial information. 
+        Analyze this bank statement page and transcribe every transaction row in the table.
         Respond ONLY with valid JSON in this exact format:
         {
           "documentType": "bank_statement",
-          "accountBalance": 0,
-          "monthlyIncome": 0,
-          "monthlyExpenses": 0,
-          "accountAge": 0,
-          "transactionCount": 0,
-          "overdraftFees": 0,
-          "averageBalance": 0,
+          "accountHolder": "name or null",
+          "accountNumber": "number or null",
+          "currency": "ISO 4217 code such as USD, EUR or IDR, or null",
+          "openingBalance": null,
+          "closingBalance": null,
+          "transactions": [
+            { "date": "2024-01-15", "description": "SALARY ACME CORP", "amount": "2,500.00", "balance": "3,120.45" },
+            { "date": "2024-01-16", "description": "CARD PURCHASE GROCERY", "amount": "-84.20", "balance": "3,036.25" }
+          ],
           "riskFactors": [],
           "keyFindings": [],
           "confidence": 85
         }
         
-        Extract numerical values where visible. For riskFactors and keyFindings, use short descriptive strings.
+        RULES:
+        - Include one entry per transaction row on this page, in the order they appear
+        - date: ISO format YYYY-MM-DD
+        - amount: as printed, with a leading minus for withdrawals/debits unless the statement
+          already marks them, e.g. "(84.20)" or "84.20 DR"
+        - balance: the running balance shown on that row, or null if the row has none
+        - Copy amounts as strings exactly as printed, keeping the thousands and decimal
+          separators of the statement ("1.234,56" stays "1.234,56")
+        - Do not include "balance brought forward" or "carried forward" rows as transactions;
+          use them for openingBalance/closingBalance instead (null when not shown on this page)
+        - Copy figures exactly as printed; do not calculate totals
+        For riskFactors and keyFindings, use short descriptive strings.
         Do not include any text before or after the JSON object.
       `,
       
       financial: `
-        Analyze this financial statement and extract key business metrics. 
+        Analyze this financial statement page and transcribe each statement on it.
         Respond ONLY with valid JSON in this exact format:
         {
           "documentType": "financial",
-          "annualRevenue": 0,
-          "netProfit": 0,
-          "totalAssets": 0,
-          "totalLiabilities": 0,
-          "cashFlow": 0,
+          "companyName": "name or null",
+          "registrationNumber": "company registration number or null",
+          "currency": "ISO 4217 code such as USD, EUR or IDR, or null",
           "employeeCount": 0,
           "businessAge": 0,
-          "debtToEquityRatio": 0,
-          "profitMargin": 0,
+          "statements": [
+            {
+              "statementType": "income_statement",
+              "periodStart": "2024-01-01",
+              "periodEnd": "2024-12-31",
+              "revenue": "1,250,000.00",
+              "costOfSales": "(700,000.00)",
+              "operatingIncome": "210,000.00",
+              "interestExpense": "18,000.00",
+              "depreciation": "35,000.00",
+              "netProfit": "150,000.00"
+            },
+            {
+              "statementType": "balance_sheet",
+              "periodStart": null,
+              "periodEnd": "2024-12-31",
+              "currentAssets": "320,000.00",
+              "totalAssets": "900,000.00",
+              "currentLiabilities": "180,000.00",
+              "totalLiabilities": "400,000.00",
+              "totalEquity": "500,000.00",
+              "totalDebt": "250,000.00"
+            }
+          ],
           "riskFactors": [],
           "keyFindings": [],
           "confidence": 85
         }
         
-        Extract exact figures where visible. Use 0 for missing values.
+        RULES:
+        - One entry per statement and reporting period shown on this page. When a statement has
+          columns for several periods (e.g. this year and last year), add one entry per column
+        - statementType: "income_statement" (profit and loss), "balance_sheet" (statement of
+          financial position) or "cash_flow"
+        - periodStart and periodEnd: ISO format YYYY-MM-DD. Balance sheets have only periodEnd,
+          the date they are drawn up at; periodStart is null
+        - Income statement lines: revenue, costOfSales, operatingIncome, interestExpense,
+          depreciation (including amortization), netProfit
+        - Balance sheet lines: currentAssets, totalAssets, currentLiabilities, totalLiabilities,
+          totalEquity, totalDebt (borrowings and loans)
+        - Cash flow lines: operatingCashFlow, debtRepayments (repayments of borrowings, as a positive figure)
+        - Use null for lines the statement doesn't show; do not calculate missing lines
+        - Copy amounts as strings exactly as printed, keeping the statement's separators and
+          negative notation
+        registrationNumber is the company/business registration or tax identifier printed on the statement.
+        For riskFactors and keyFindings, use short descriptive strings.
         Do not include any text before or after the JSON object.
       `,
       
@@ -208,6 +317,8 @@ class OllamaClient {
         Respond ONLY with valid JSON in this exact format:
         {
           "documentType": "legal",
+          "partyNames": [],
+          "registrationNumber": null,
           "documentStatus": "Valid",
           "expirationDate": null,
           "legalRisk": "Low",
@@ -220,6 +331,122 @@ class OllamaClient {
         
         Use "Valid", "Invalid", "Pending", or "Expired" for documentStatus.
         Use "Low", "Medium", or "High" for legalRisk.
+        partyNames lists the people and companies named as parties to the document.
+        registrationNumber is the company/business registration or tax identifier, or null if none is shown.
+        Do not include any text before or after the JSON object.
+      `,
+      
+      payslip: `
+        Analyze this payslip and extract the pay details.
+        Respond ONLY with valid JSON in this exact format:
+        {
+          "documentType": "payslip",
+          "employeeName": "name or null",
+          "employerName": "name or null",
+          "currency": "ISO 4217 code such as USD, EUR or IDR, or null",
+          "payDate": "2024-01-31",
+          "periodStart": "2024-01-01",
+          "periodEnd": "2024-01-31",
+          "payFrequency": "monthly",
+          "grossPay": "5,200.00",
+          "totalDeductions": "1,150.00",
+          "taxWithheld": "820.00",
+          "netPay": "4,050.00",
+          "yearToDateGross": "5,200.00",
+          "riskFactors": [],
+          "keyFindings": [],
+          "confidence": 85
+        }
+        
+        RULES:
+        - Dates: ISO format YYYY-MM-DD, or null if not shown
+        - payFrequency: "weekly", "biweekly", "semimonthly", "monthly" or "annual", or null if not shown
+        - grossPay is total earnings before deductions for this pay period; netPay is the amount paid out
+        - Copy amounts as strings exactly as printed; use null for amounts not shown
+        Do not include any text before or after the JSON object.
+      `,
+      
+      tax_return: `
+        Analyze this tax return page and extract the filing details.
+        Respond ONLY with valid JSON in this exact format:
+        {
+          "documentType": "tax_return",
+          "taxpayerName": "name or null",
+          "taxId": "tax identification number or null",
+          "taxYear": 2023,
+          "jurisdiction": "country or state, or null",
+          "currency": "ISO 4217 code such as USD, EUR or IDR, or null",
+          "grossIncome": "86,400.00",
+          "businessIncome": null,
+          "taxableIncome": "72,150.00",
+          "totalTax": "11,870.00",
+          "taxPaid": "12,300.00",
+          "riskFactors": [],
+          "keyFindings": [],
+          "confidence": 85
+        }
+        
+        RULES:
+        - taxYear: the year the income was earned, or null if not shown
+        - grossIncome: total income before deductions; businessIncome: net business or self-employment income
+        - totalTax: tax due for the year; taxPaid: tax already withheld or paid
+        - Copy amounts as strings exactly as printed; use null for amounts not shown on this page
+        Do not include any text before or after the JSON object.
+      `,
+      
+      invoice: `
+        Analyze this invoice or receivables listing and transcribe every invoice on it.
+        Respond ONLY with valid JSON in this exact format:
+        {
+          "documentType": "invoice",
+          "issuerName": "name of the business that issued the invoices, or null",
+          "currency": "ISO 4217 code such as USD, EUR or IDR, or null",
+          "asOfDate": "date of a receivables listing, or null",
+          "invoices": [
+            {
+              "invoiceNumber": "INV-1042",
+              "customerName": "GLOBEX LTD",
+              "issueDate": "2024-03-01",
+              "dueDate": "2024-03-31",
+              "totalAmount": "12,500.00",
+              "amountOutstanding": "12,500.00"
+            }
+          ],
+          "riskFactors": [],
+          "keyFindings": [],
+          "confidence": 85
+        }
+        
+        RULES:
+        - A single invoice is a list with one entry; a receivables listing has one entry per row
+        - Dates: ISO format YYYY-MM-DD, or null if not shown
+        - amountOutstanding: the amount still unpaid, "0" when marked paid, null when not shown
+        - Copy amounts as strings exactly as printed
+        Do not include any text before or after the JSON object.
+      `,
+      
+      identity: `
+        Analyze this identity document and extract its details.
+        Respond ONLY with valid JSON in this exact format:
+        {
+          "documentType": "identity",
+          "idType": "passport",
+          "fullName": "name as printed, or null",
+          "documentNumber": "document number or null",
+          "dateOfBirth": "1985-06-14",
+          "nationality": "nationality or null",
+          "issuingCountry": "country or null",
+          "issueDate": "2019-02-01",
+          "expiryDate": "2029-01-31",
+          "riskFactors": [],
+          "keyFindings": [],
+          "confidence": 85
+        }
+        
+        RULES:
+        - idType: "passport", "national_id", "driving_licence" or "other"
+        - Dates: ISO format YYYY-MM-DD, or null if not shown
+        - Note signs of alteration, damage or an unreadable photo in riskFactors
         Do not include any text before or after the JSON object.
       `,
       
@@ -239,39 +466,54 @@ class OllamaClient {
           "recommendation": ""
         }
         
-        For documentType, use: "bank_statement", "financial", "legal", "invoice", "tax", or "other".
+        For documentType, use: "bank_statement", "financial", "legal", "payslip", "tax_return", "invoice",
+        "identity", or "other".
+        List amounts as strings exactly as printed, with their currency symbol or code.
         Do not include any text before or after the JSON object.
       `
     };
 
-    const prompt = prompts[documentType] || prompts.unknown;
+    const basePrompt = prompts[documentType] || prompts.unknown;
+    const schema = getExtractionSchema(documentType);
+    // Figures on a page image can be located by the model itself; text layer
+    // pages are located from the text positions instead
+    const prompt = pageText
+      ? withPageText(basePrompt, pageText)
+      : withRegionRequest(basePrompt, Boolean(schema.properties.regions));
+    const extractionSource = pageText ? 'text_layer' : 'vision';
     
     try {
-      const response = await this.generateResponse(prompt, imageBase64, this.visionModel);
-      
-      // Extract JSON from response
-      const extractedJSON = this.extractJSON(response);
+      const { data, rawResponse, attempts, errors } = await this.generateStructured(prompt, schema, {
+        imageBase64: pageText ? null : imageBase64,
+        model: this.visionModel,
+        purpose: 'extraction'
+      });
       
-      if (extractedJSON) {
+      if (data) {
         return {
-          ...extractedJSON,
-          documentType: extractedJSON.documentType || documentType,
+          ...data,
+          documentType: data.documentType || documentType,
           extractionModel: this.visionModel,
-          rawResponse: response.substring(0, 200) + '...' // Keep first 200 chars for debugging
+          extractionSource,
+          extractionAttempts: attempts,
+          rawResponse: rawResponse.substring(0, 200) + '...' // Keep first 200 chars for debugging
         };
       }
       
-      // Fallback if JSON extraction fails
-      console.warn('JSON extraction failed, using fallback structure');
+      // No validated data: return no figures at all rather than unchecked ones
+      console.warn('Structured extraction failed validation, using fallback structure');
       return {
         documentType: documentType,
-        rawResponse: response,
+        rawResponse,
         extractedData: {},
         riskFactors: ['Unable to parse structured data from vision model'],
         keyFindings: ['Document analysis completed but data extraction failed'],
         confidence: 50,
         extractionModel: this.visionModel,
-        error: 'JSON parsing failed'
+        extractionSource,
+        extractionAttempts: attempts,
+        validationErrors: errors,
+        error: 'Schema validation failed'
       };
     } catch (error) {
       console.error('Financial data extraction failed:', error);
@@ -279,7 +521,7 @@ class OllamaClient {
     }
   }
 
-  async generateCreditRecommendation(extractedDataArray, documentSummary) {
+  async generateCreditRecommendation(extractedDataArray, documentSummary, affordability = null) {
     const prompt = `
       As an expert credit analyst, analyze the following extracted financial data and provide a comprehensive credit recommendation.
 
@@ -289,8 +531,13 @@ class OllamaClient {
       DOCUMENT SUMMARY:
       - Total documents analyzed: ${documentSummary.totalDocuments}
       - Document types: ${documentSummary.documentTypes.join(', ')}
+      - Documents by type: ${Object.entries(documentSummary.documentTypeCounts || {}).map(([type, count]) => `${type} ${count}`).join(', ')}
       - Average confidence: ${documentSummary.averageConfidence}%
 
+      Payslips and tax returns are direct evidence of income; weigh them above income estimated
+      from bank statement deposits. Invoices describe receivables, and identity documents verify
+      who the applicant is (see identityStatus).
+${affordability ? describeLoanRequest(affordability, documentSummary.baseCurrency) : ''}
       Respond ONLY with valid JSON in this exact format:
       {
         "creditScore": 650,
@@ -304,7 +551,7 @@ class OllamaClient {
         "interestRate": 12.5,
         "reasoning": "detailed explanation of scoring methodology",
         "confidence": 85,
-        "analysisModel": "deepseek-r1:8b"
+        "analysisModel": "${this.reasoningModel}"
       }
 
       REQUIREMENTS:
@@ -317,37 +564,21 @@ class OllamaClient {
     `;
 
     try {
-      const response = await this.generateResponse(prompt, null, this.reasoningModel);
-      
-      // Extract JSON from response
-      const extractedJSON = this.extractJSON(response);
+      const { data, errors } = await this.generateStructured(prompt, CREDIT_RECOMMENDATION_SCHEMA, {
+        model: this.reasoningModel,
+        purpose: 'credit_recommendation'
+      });
       
-      if (extractedJSON) {
+      if (data) {
         return {
-          ...extractedJSON,
+          ...data,
           analysisModel: this.reasoningModel,
           generatedAt: new Date().toISOString()
         };
       }
       
-      // Fallback response with valid structure
-      console.warn('Credit recommendation JSON extraction failed, using fallback');
-      return {
-        creditScore: 650,
-        rating: 'Fair',
-        riskLevel: 'Medium',
-        recommendation: 'Unable to generate detailed recommendation due to parsing error. Manual review recommended.',
-        keyFactors: ['Document analysis completed', 'Multiple documents processed'],
-        riskFactors: ['Analysis parsing failed', 'Manual review required'],
-        improvementSuggestions: ['Provide additional documentation', 'Clarify financial statements'],
-        maxCreditLimit: 10000,
-        interestRate: 15.0,
-        reasoning: 'Fallback analysis due to model response parsing failure',
-        confidence: 60,
-        analysisModel: this.reasoningModel,
-        rawResponse: response.substring(0, 200) + '...',
-        error: 'JSON parsing failed'
-      };
+      // No made-up figures: the caller falls back to the deterministic scorecard
+      throw new Error(`Credit recommendation failed validation:\n${formatValidationErrors(errors)}`);
     } catch (error) {
       console.error('Credit recommendation generation failed:', error);
       throw error;
@@ -355,4 +586,80 @@ class OllamaClient {
   }
 }
 
+// The requested loan and its affordability, for the credit recommendation prompt
+function describeLoanRequest(affordability, baseCurrency) {
+  const { loanRequest } = affordability;
+  const policy = loanRequest.applicantType === 'business'
+    ? `Debt service coverage after the loan: ${affordability.debtServiceCoverage ?? 'unknown'}x ` +
+      `(policy minimum ${affordability.minDebtServiceCoverage}x)`
+    : `Debt-to-income after the loan: ${affordability.debtToIncome ?? 'unknown'}% ` +
+      `(policy maximum ${affordability.maxDebtToIncome}%)`;
+  const income = loanRequest.applicantType === 'business'
+    ? `Cash available for debt service: ${affordability.monthlyCashAvailable ?? 'unknown'}/month`
+    : `Gross income: ${affordability.monthlyIncome ?? 'unknown'}/month`;
+
+  return `
+      LOAN REQUEST (amounts in ${baseCurrency}):
+      - Applicant type: ${loanRequest.applicantType}
+      - Product: ${loanRequest.productType}, purpose: ${loanRequest.purpose || 'not stated'}
+      - Requested amount: ${loanRequest.amount} over ${loanRequest.termMonths} months
+      - Collateral: ${loanRequest.collateralType}${loanRequest.collateralValue !== null ? ` worth ${loanRequest.collateralValue}` : ''}
+
+      AFFORDABILITY (computed at ${affordability.interestRate}% APR):
+      - Monthly installment: ${affordability.installment}, total interest ${affordability.totalInterest}
+      - ${income}, existing debt payments ${affordability.existingMonthlyDebt}/month
+      - ${policy}
+      - Largest affordable amount within policy: ${affordability.recommendedAmount ?? 'unknown (no income data)'}
+      - Loan to collateral value: ${affordability.loanToValue !== null ? `${affordability.loanToValue}%` : 'no collateral value given'}
+
+      maxCreditLimit is the amount you recommend lending for this request: no more than the
+      requested amount, and above the largest affordable amount only with a stated reason.
+`;
+}
+
+function withRegionRequest(prompt, supportsRegions) {
+  if (!supportsRegions) {
+    return prompt;
+  }
+
+  return `${prompt}
+        Also include "regions": a list of { "field": "<field name>", "box": [left, top, right, bottom] }
+        giving where each extracted figure or name is printed on the page, as fractions (0 to 1)
+        of the page width and height. Leave out fields you cannot locate.
+  `;
+}
+
+function checkStructuredResponse(rawResponse, schema) {
+  const parsed = parseJSONResponse(rawResponse);
+  if (parsed === undefined) {
+    return { parsed, status: 'invalid_json', errors: [{ path: '$', message: 'response is not valid JSON' }] };
+  }
+
+  const errors = validateAgainstSchema(parsed, schema);
+  return { parsed, status: errors.length === 0 ? 'valid' : 'schema_invalid', errors };
+}
+
+// Digital PDF pages are sent as their text layer instead of an image
+function withPageText(prompt, pageText) {
+  if (!pageText) {
+    return prompt;
+  }
+
+  return `${prompt}
+        The document page is provided below as text from the PDF's embedded text layer, not as an image.
+        Column alignment is preserved with spaces.
+
+        PAGE TEXT:
+        """
+${pageText}
+        """
+  `;
+}
+
+// Ollama tags default to ":latest" when omitted, so match on the bare name too
+function isModelAvailable(availableModels, modelName) {
+  const normalize = name => (name.includes(':') ? name : `${name}:latest`);
+  return availableModels.some(name => name === modelName || normalize(name) === normalize(modelName));
+}
+
 export const ollamaClient = new OllamaClient();
\ No newline at end of file
@@ -0,0 +1,47 @@
+import sharp from 'sharp';
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+// Page images of processed documents, kept for the session so reviewers can
+// check extracted figures against the source page. Removed with their job.
+export const PREVIEWS_DIR = path.join(__dirname, '../previews');
+
+const PREVIEW_SIZE = 1024;
+
+// File ids become directory names
+const FILE_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+export async function savePagePreview(fileId, pageNumber, imagePath) {
+  const previewPath = pagePreviewPath(fileId, pageNumber);
+  await fs.ensureDir(path.dirname(previewPath));
+  await sharp(imagePath)
+    .resize(PREVIEW_SIZE, PREVIEW_SIZE, { fit: 'inside', withoutEnlargement: true })
+    .flatten({ background: '#ffffff' })
+    .jpeg({ quality: 80 })
+    .toFile(previewPath);
+}
+
+// Null when the ids can't name a preview
+export function pagePreviewPath(fileId, pageNumber) {
+  if (!FILE_ID_PATTERN.test(fileId) || !Number.isInteger(pageNumber) || pageNumber < 1) {
+    return null;
+  }
+  return path.join(PREVIEWS_DIR, fileId, `page-${pageNumber}.jpg`);
+}
+
+export async function removePagePreviews(fileIds) {
+  for (const fileId of fileIds) {
+    if (FILE_ID_PATTERN.test(fileId)) {
+      await fs.remove(path.join(PREVIEWS_DIR, fileId));
+    }
+  }
+}
+
+// Previews don't outlive the server process that made them
+export async function clearPagePreviews() {
+  await fs.emptyDir(PREVIEWS_DIR);
+}
@@ -0,0 +1,203 @@
+import fs from 'fs-extra';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { createCanvas } from '@napi-rs/canvas';
+import { getDocument, PasswordResponses } from 'pdfjs-dist/legacy/build/pdf.mjs';
+
+// Glyphs of the standard 14 fonts and character maps, which pdf.js needs to
+// draw text that isn't embedded in the PDF
+const PDFJS_DIR = path.dirname(fileURLToPath(import.meta.resolve('pdfjs-dist/package.json')));
+const RENDER_OPTIONS = {
+  standardFontDataUrl: `${path.join(PDFJS_DIR, 'standard_fonts')}/`,
+  cMapUrl: `${path.join(PDFJS_DIR, 'cmaps')}/`,
+  cMapPacked: true
+};
+
+// Items whose baselines are within this many points share a line
+const LINE_TOLERANCE = 2;
+
+// Read the embedded text layer of a PDF, page by page. Text is laid out by
+// position so columns in tables (e.g. bank statement rows) stay aligned.
+// Each page also keeps its positioned text items, to locate extracted values.
+// Encrypted PDFs need their `password`, which is only handed to pdf.js.
+export async function extractPdfText(pdfPath, { password } = {}) {
+  const data = new Uint8Array(await fs.readFile(pdfPath));
+  const pdf = await getDocument({ data, password, useSystemFonts: true, isEvalSupported: false }).promise;
+
+  try {
+    const pages = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items = positionItems(content.items.filter(item => typeof item.str === 'string'));
+      const text = layoutText(items);
+      const { width, height } = page.getViewport({ scale: 1 });
+
+      pages.push({
+        pageNumber,
+        text,
+        characterCount: text.replace(/\s/g, '').length,
+        width,
+        height,
+        items
+      });
+
+      page.cleanup();
+    }
+
+    return { pageCount: pdf.numPages, pages };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+export async function readPdfPageCount(pdfPath, { password } = {}) {
+  const data = new Uint8Array(await fs.readFile(pdfPath));
+  const pdf = await getDocument({ data, password, isEvalSupported: false }).promise;
+
+  try {
+    return pdf.numPages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// Render one page to a JPEG at `outputPath`, scaled so it covers `width` x
+// `height` (like GraphicsMagick's "^" resize). Used for encrypted PDFs: the
+// password stays in this process instead of reaching a converter's command line.
+export async function renderPdfPage(pdfPath, pageNumber, outputPath, { password, width, height, quality }) {
+  const data = new Uint8Array(await fs.readFile(pdfPath));
+  const pdf = await getDocument({ data, password, isEvalSupported: false, ...RENDER_OPTIONS }).promise;
+
+  try {
+    const page = await pdf.getPage(pageNumber);
+    const unscaled = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: Math.max(width / unscaled.width, height / unscaled.height) });
+    const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+
+    await page.render({ canvasContext: canvas.getContext('2d'), viewport }).promise;
+    await fs.writeFile(outputPath, await canvas.encode('jpeg', quality));
+    page.cleanup();
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// Why a PDF can't be opened with `password`: 'PASSWORD_REQUIRED' when it is
+// encrypted and no password was given, 'INCORRECT_PASSWORD' when it was wrong.
+// Returns null when it opens, or fails for a reason other than encryption.
+export async function checkPdfPassword(pdfPath, password) {
+  const data = new Uint8Array(await fs.readFile(pdfPath));
+  const loadingTask = getDocument({ data, password, isEvalSupported: false });
+
+  try {
+    await loadingTask.promise;
+    return null;
+  } catch (error) {
+    if (error.name !== 'PasswordException') {
+      return null;
+    }
+    return error.code === PasswordResponses.INCORRECT_PASSWORD ? 'INCORRECT_PASSWORD' : 'PASSWORD_REQUIRED';
+  } finally {
+    await loadingTask.destroy();
+  }
+}
+
+// A page counts as digital when its text layer has enough visible characters
+export function hasUsableTextLayer(page, minCharacters) {
+  return page.characterCount >= minCharacters;
+}
+
+// Locate a text item that prints `value`, as a region of the page in
+// fractions of its width and height: [left, top, right, bottom]
+export function locateInTextLayer(page, value) {
+  const matches = typeof value === 'number' ? numberMatcher(value) : textMatcher(value);
+  if (!matches || !page.items) {
+    return null;
+  }
+
+  const item = page.items.find(candidate => matches(candidate.text));
+  if (!item) {
+    return null;
+  }
+
+  // PDF coordinates grow upwards from the bottom-left corner; y is the baseline
+  return [
+    item.x / page.width,
+    1 - (item.y + item.fontSize) / page.height,
+    (item.x + item.width) / page.width,
+    1 - (item.y - item.fontSize * 0.25) / page.height
+  ].map(fraction => Math.round(Math.min(1, Math.max(0, fraction)) * 1000) / 1000);
+}
+
+// Printed figures carry separators, currency symbols and brackets for negatives
+function numberMatcher(value) {
+  if (!Number.isFinite(value) || value === 0) {
+    return null;
+  }
+  return text => {
+    const digits = text.replace(/[^0-9.]/g, '');
+    return digits.length > 0 && Math.abs(Number(digits) - Math.abs(value)) < 0.005;
+  };
+}
+
+function textMatcher(value) {
+  const normalize = text => text.toUpperCase().replace(/\s+/g, ' ').trim();
+  if (typeof value !== 'string' || normalize(value).length < 3) {
+    return null;
+  }
+  return text => normalize(text).includes(normalize(value));
+}
+
+function positionItems(items) {
+  return items
+    .filter(item => item.str.trim().length > 0)
+    .map(item => ({
+      text: item.str,
+      x: item.transform[4],
+      y: item.transform[5],
+      width: item.width,
+      fontSize: Math.hypot(item.transform[2], item.transform[3]) || 10
+    }));
+}
+
+function layoutText(items) {
+  if (items.length === 0) {
+    return '';
+  }
+
+  // PDF coordinates grow upwards, so read lines top to bottom
+  const positioned = [...items].sort((a, b) => b.y - a.y || a.x - b.x);
+
+  const lines = [];
+  for (const item of positioned) {
+    const line = lines[lines.length - 1];
+    if (line && Math.abs(line.y - item.y) <= LINE_TOLERANCE) {
+      line.items.push(item);
+    } else {
+      lines.push({ y: item.y, items: [item] });
+    }
+  }
+
+  const minX = Math.min(...positioned.map(item => item.x));
+
+  return lines
+    .map(line => {
+      line.items.sort((a, b) => a.x - b.x);
+
+      let output = '';
+      for (const item of line.items) {
+        // Approximate a monospaced column from the item's horizontal position
+        const charWidth = item.fontSize * 0.5;
+        const column = Math.round((item.x - minX) / charWidth);
+        if (column > output.length) {
+          output += ' '.repeat(column - output.length);
+        } else if (output.length > 0 && !output.endsWith(' ')) {
+          output += ' ';
+        }
+        output += item.text;
+      }
+      return output.trimEnd();
+    })
+    .join('\n');
+}
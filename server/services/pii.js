@@ -0,0 +1,233 @@
+import util from 'util';
+import { config } from '../config.js';
+import { hasPermission } from './auth.js';
+
+// Detection and masking of personally identifiable information in extracted
+// data: account numbers, card numbers, tax IDs, identity document numbers,
+// dates of birth and addresses. Used to mask logs and API responses for
+// callers without PII access, and optionally to tokenize values before they
+// are sent to the reasoning model.
+
+export const PII_TYPES = ['account_number', 'card_number', 'tax_id', 'identity_number', 'date_of_birth', 'address'];
+
+// Values of these fields are PII whatever they look like
+const SENSITIVE_FIELDS = {
+  accountnumber: 'account_number',
+  iban: 'account_number',
+  cardnumber: 'card_number',
+  registrationnumber: 'tax_id',
+  taxid: 'tax_id',
+  taxnumber: 'tax_id',
+  nationalid: 'tax_id',
+  ssn: 'tax_id',
+  npwp: 'tax_id',
+  documentnumber: 'identity_number',
+  passportnumber: 'identity_number',
+  dateofbirth: 'date_of_birth',
+  address: 'address',
+  billingaddress: 'address',
+  mailingaddress: 'address'
+};
+
+// Placeholders of every type, as created by createPiiTokenizer
+const TOKEN_PATTERN = new RegExp(`\\[(?:${PII_TYPES.map(type => type.toUpperCase()).join('|')})_\\d+\\]`, 'g');
+
+// Identifiers and hashes are never PII, and masking them would break clients
+const SKIPPED_FIELD_PATTERN = /^(id|sha256)$|Ids?$/;
+
+// In priority order: earlier patterns win where matches overlap
+const PATTERNS = [
+  { type: 'card_number', pattern: /(?<![\w-])\d(?:[ -]?\d){12,18}(?![\w-])/g, accept: value => passesLuhn(digitsOf(value)) },
+  { type: 'tax_id', pattern: /\b\d{3}-\d{2}-\d{4}\b/g }, // US SSN
+  { type: 'tax_id', pattern: /\b\d{2}-\d{7}\b/g }, // US EIN
+  { type: 'tax_id', pattern: /\b\d{2}\.\d{3}\.\d{3}\.\d-\d{3}\.\d{3}\b/g }, // Indonesian NPWP
+  { type: 'account_number', pattern: /\b[A-Z]{2}\d{2}[A-Z0-9]{11,30}\b/g }, // IBAN
+  // Plain digit runs only after account wording, so amounts and dates ("15000000", "20240115") are kept
+  {
+    type: 'account_number',
+    pattern: /(?<=\b(?:account|acct|a\/c|iban|rekening)\b[^\d\n]{0,20})\d{8,20}(?![\w-]|[.,]\d)/gi
+  },
+  {
+    type: 'address',
+    pattern: /\b\d{1,5}\s+(?:[A-Za-z0-9.'-]+\s+){1,4}(?:street|st|avenue|ave|road|rd|boulevard|blvd|lane|ln|drive|dr|court|ct|way|place|pl|jalan|jl)\b\.?/gi
+  }
+];
+
+export function detectPii(text) {
+  if (typeof text !== 'string' || text.length === 0) {
+    return [];
+  }
+
+  const matches = [];
+  for (const { type, pattern, accept } of PATTERNS) {
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index;
+      const end = start + match[0].length;
+      const overlaps = matches.some(existing => start < existing.end && end > existing.start);
+      if (!overlaps && (!accept || accept(match[0]))) {
+        matches.push({ type, start, end, value: match[0] });
+      }
+    }
+  }
+
+  return matches.sort((a, b) => a.start - b.start);
+}
+
+export function maskText(text) {
+  return replaceMatches(text, detectPii(text), match => maskFragment(match.type, match.value));
+}
+
+// Deep copy of `value` with PII masked, by field name and by content
+export function maskPii(value) {
+  return transformPii(value, {
+    field: (type, fieldValue) => maskFragment(type, String(fieldValue)),
+    text: maskText
+  });
+}
+
+// Replaces PII with stable placeholders ("[ACCOUNT_NUMBER_1]") and restores it
+// afterwards, so the reasoning model never sees the real values
+export function createPiiTokenizer() {
+  const tokensByValue = new Map();
+  const valuesByToken = new Map();
+  const counts = {};
+
+  const tokenFor = (type, original) => {
+    const key = `${type}:${original}`;
+    if (!tokensByValue.has(key)) {
+      counts[type] = (counts[type] || 0) + 1;
+      const token = `[${type.toUpperCase()}_${counts[type]}]`;
+      tokensByValue.set(key, token);
+      valuesByToken.set(token, original);
+    }
+    return tokensByValue.get(key);
+  };
+
+  return {
+    tokenize: value => transformPii(value, {
+      field: (type, fieldValue) => tokenFor(type, fieldValue),
+      text: text => replaceMatches(text, detectPii(text), match => tokenFor(match.type, match.value))
+    }),
+    detokenize: value => restoreTokens(value, valuesByToken),
+    get tokenCount() {
+      return valuesByToken.size;
+    }
+  };
+}
+
+// Express middleware, after authentication: callers whose role has the
+// view_pii permission see PII unmasked
+export function piiAccess(req, res, next) {
+  req.canViewPii = !config.pii.maskResponses || hasPermission(req.user, 'view_pii');
+  next();
+}
+
+// Mask PII in everything the server writes to the console
+export function installLogMasking() {
+  if (!config.pii.maskLogs) {
+    return;
+  }
+
+  for (const method of ['log', 'info', 'warn', 'error']) {
+    const original = console[method].bind(console);
+    console[method] = (...args) => original(...args.map(maskLogArgument));
+  }
+}
+
+function maskLogArgument(argument) {
+  if (typeof argument === 'string') {
+    return maskText(argument);
+  }
+  if (argument instanceof Error) {
+    return maskText(util.inspect(argument));
+  }
+  if (argument && typeof argument === 'object') {
+    return maskPii(argument);
+  }
+  return argument;
+}
+
+function transformPii(value, handlers, field = null) {
+  const sensitiveType = field ? SENSITIVE_FIELDS[field.toLowerCase()] : undefined;
+  if (!sensitiveType && field && SKIPPED_FIELD_PATTERN.test(field)) {
+    return value;
+  }
+
+  if (sensitiveType && (typeof value === 'string' || typeof value === 'number') && value !== '') {
+    return handlers.field(sensitiveType, value);
+  }
+
+  if (typeof value === 'string') {
+    return handlers.text(value);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => transformPii(item, handlers, sensitiveType ? field : null));
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date) && !Buffer.isBuffer(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, transformPii(item, handlers, key)])
+    );
+  }
+  return value;
+}
+
+function restoreTokens(value, valuesByToken) {
+  if (typeof value === 'string') {
+    return value.replace(TOKEN_PATTERN, token => {
+      const original = valuesByToken.get(token);
+      return original === undefined ? token : String(original);
+    });
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => restoreTokens(item, valuesByToken));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, restoreTokens(item, valuesByToken)]));
+  }
+  return value;
+}
+
+function replaceMatches(text, matches, replacement) {
+  let output = '';
+  let position = 0;
+  for (const match of matches) {
+    output += text.slice(position, match.start) + replacement(match);
+    position = match.end;
+  }
+  return output + text.slice(position);
+}
+
+// Numbers keep their last four characters so reviewers can still tell them apart
+function maskFragment(type, value) {
+  if (type === 'address') {
+    return '[ADDRESS REDACTED]';
+  }
+  if (type === 'date_of_birth') {
+    return '[DATE OF BIRTH REDACTED]';
+  }
+
+  const compact = value.replace(/[\s.-]/g, '');
+  return compact.length > 4 ? `****${compact.slice(-4)}` : '****';
+}
+
+function digitsOf(value) {
+  return value.replace(/\D/g, '');
+}
+
+function passesLuhn(digits) {
+  if (digits.length < 13 || digits.length > 19) {
+    return false;
+  }
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
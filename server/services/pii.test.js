@@ -0,0 +1,40 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { PII_TYPES, createPiiTokenizer, maskText } from './pii.js';
+
+// A value of every PII type, by a field that is always treated as that type
+const SAMPLES = {
+  account_number: { field: 'accountNumber', value: '0123456789' },
+  card_number: { field: 'cardNumber', value: '4111 1111 1111 1111' },
+  tax_id: { field: 'taxId', value: '12-3456789' },
+  identity_number: { field: 'documentNumber', value: 'X1234567' },
+  date_of_birth: { field: 'dateOfBirth', value: '1985-04-12' },
+  address: { field: 'address', value: '42 Harbour Road, Springfield' }
+};
+
+test('every PII type has a sample', () => {
+  assert.deepEqual(Object.keys(SAMPLES).sort(), [...PII_TYPES].sort());
+});
+
+for (const type of PII_TYPES) {
+  test(`${type} placeholders are restored in the model's answer`, () => {
+    const { field, value } = SAMPLES[type];
+    const tokenizer = createPiiTokenizer();
+
+    const token = tokenizer.tokenize({ keyInformation: { [field]: value } }).keyInformation[field];
+    assert.equal(token, `[${type.toUpperCase()}_1]`);
+
+    const answer = { recommendation: `Verified ${token} against the application`, keyFactors: [token] };
+    assert.deepEqual(tokenizer.detokenize(answer), {
+      recommendation: `Verified ${value} against the application`,
+      keyFactors: [value]
+    });
+  });
+}
+
+test('plain digit runs are masked only after account wording', () => {
+  assert.equal(maskText('Account number: 0123456789 credited'), 'Account number: ****6789 credited');
+  assert.equal(maskText('A/C No. 1234567890'), 'A/C No. ****7890');
+  assert.equal(maskText('amount 15000000'), 'amount 15000000');
+  assert.equal(maskText('ref 20240115'), 'ref 20240115');
+});
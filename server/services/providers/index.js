@@ -0,0 +1,23 @@
+import { OllamaProvider } from './ollamaProvider.js';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider.js';
+
+// A model provider turns a prompt (plus an optional image) into raw text.
+// Every provider implements:
+//   generate({ model, prompt, imageBase64, temperature, topP, topK, timeout, format }) -> Promise<string>
+// where `format` is an optional JSON schema the output must follow.
+//   listModels() -> Promise<string[]>
+const PROVIDERS = {
+  ollama: OllamaProvider,
+  openai: OpenAICompatibleProvider
+};
+
+export function createModelProvider(providerConfig) {
+  const Provider = PROVIDERS[providerConfig.type];
+  if (!Provider) {
+    throw new Error(
+      `Unknown model provider "${providerConfig.type}". Supported providers: ${Object.keys(PROVIDERS).join(', ')}`
+    );
+  }
+
+  return new Provider(providerConfig);
+}
@@ -0,0 +1,49 @@
+import axios from 'axios';
+
+// Native Ollama API (/api/generate, /api/tags)
+export class OllamaProvider {
+  constructor({ baseURL, healthTimeout }) {
+    this.type = 'ollama';
+    this.baseURL = baseURL.replace(/\/+$/, '');
+    this.healthTimeout = healthTimeout;
+  }
+
+  async generate({ model, prompt, imageBase64, temperature, topP, topK, timeout, format }) {
+    const payload = {
+      model,
+      prompt,
+      stream: false,
+      options: {
+        temperature,
+        top_p: topP,
+        top_k: topK
+      }
+    };
+
+    if (imageBase64) {
+      payload.images = [imageBase64];
+    }
+
+    // Ollama constrains decoding to the given JSON schema
+    if (format) {
+      payload.format = format;
+    }
+
+    const response = await axios.post(`${this.baseURL}/api/generate`, payload, {
+      timeout,
+      headers: {
+        'Content-Type': 'application/json'
+      }
+    });
+
+    return response.data.response;
+  }
+
+  async listModels() {
+    const response = await axios.get(`${this.baseURL}/api/tags`, {
+      timeout: this.healthTimeout
+    });
+
+    return (response.data.models || []).map(m => m.name);
+  }
+}
@@ -0,0 +1,63 @@
+import axios from 'axios';
+
+// OpenAI-compatible chat completions API, as served by llama.cpp, vLLM and
+// similar local servers. baseURL should include the version prefix, e.g.
+// http://localhost:8080/v1
+export class OpenAICompatibleProvider {
+  constructor({ baseURL, apiKey, healthTimeout }) {
+    this.type = 'openai';
+    this.baseURL = baseURL.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+    this.healthTimeout = healthTimeout;
+  }
+
+  headers() {
+    const headers = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+
+  async generate({ model, prompt, imageBase64, temperature, topP, timeout, format }) {
+    const content = imageBase64
+      ? [
+          { type: 'text', text: prompt },
+          { type: 'image_url', image_url: { url: `data:image/jpeg;base64,${imageBase64}` } }
+        ]
+      : prompt;
+
+    const payload = {
+      model,
+      messages: [{ role: 'user', content }],
+      temperature,
+      top_p: topP,
+      stream: false
+    };
+
+    // Not strict: strict mode requires every property to be required, and the
+    // schemas have optional ones (e.g. regions). Responses are validated anyway.
+    if (format) {
+      payload.response_format = {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema: format, strict: false }
+      };
+    }
+
+    const response = await axios.post(`${this.baseURL}/chat/completions`, payload, {
+      timeout,
+      headers: this.headers()
+    });
+
+    return response.data.choices?.[0]?.message?.content || '';
+  }
+
+  async listModels() {
+    const response = await axios.get(`${this.baseURL}/models`, {
+      timeout: this.healthTimeout,
+      headers: this.headers()
+    });
+
+    return (response.data.data || []).map(m => m.id);
+  }
+}
@@ -0,0 +1,221 @@
+import { config } from '../config.js';
+
+// Cross-document reconciliation. Each document is extracted on its own; this
+// step compares fields that several documents report and records where they
+// disagree, before the application is scored.
+
+// Legal-form suffixes that differ between documents without changing the entity
+const LEGAL_SUFFIXES = new Set([
+  'LTD', 'LIMITED', 'INC', 'INCORPORATED', 'LLC', 'LLP', 'PLC', 'CORP', 'CORPORATION',
+  'CO', 'COMPANY', 'PTY', 'GMBH', 'SA', 'BV', 'PT', 'TBK', 'SDN', 'BHD', 'THE'
+]);
+
+export function reconcileDocuments(results, { applicant = {}, tolerances = config.reconciliation } = {}) {
+  const documents = results.filter(r => !r.error);
+  const checks = [
+    checkIncome(documents, tolerances.incomeTolerance),
+    checkNames(documents, applicant, tolerances.nameMatchThreshold),
+    checkRegistrationNumbers(documents)
+  ];
+
+  return {
+    checks: checks.map(({ discrepancies, ...check }) => ({ ...check, discrepancyCount: discrepancies.length })),
+    discrepancies: checks.flatMap(check => check.discrepancies)
+  };
+}
+
+// Discrepancies become risk factors of every document they involve
+export function applyDiscrepancyRiskFactors(results, discrepancies) {
+  return results.map(result => {
+    const related = discrepancies.filter(d => d.values.some(v => v.fileId === result.fileId));
+    if (related.length === 0) {
+      return result;
+    }
+
+    return {
+      ...result,
+      extractedData: {
+        ...result.extractedData,
+        riskFactors: [
+          ...(result.extractedData.riskFactors || []),
+          ...related.map(d => `Cross-document discrepancy: ${d.message}`)
+        ]
+      }
+    };
+  });
+}
+
+// Bank statement inflows vs. income reported in financial statements, tax
+// returns and payslips
+function checkIncome(documents, tolerance) {
+  const bankIncome = documents
+    .filter(r => r.extractedData.documentType === 'bank_statement')
+    .map(r => documentValue(r, r.extractedData.financialMetrics?.monthlyIncome))
+    .filter(v => isPositive(v.value));
+  const reportedIncome = documents
+    .map(r => documentValue(r, reportedMonthlyIncome(r)))
+    .filter(v => isPositive(v.value));
+
+  const check = { check: 'income', label: 'Monthly income', tolerance, discrepancies: [] };
+  if (bankIncome.length === 0 || reportedIncome.length === 0) {
+    return { ...check, status: 'insufficient_data' };
+  }
+
+  const bankAverage = averageOf(bankIncome);
+  const reportedAverage = averageOf(reportedIncome);
+  const difference = relativeDifference(bankAverage, reportedAverage);
+
+  if (difference > tolerance) {
+    check.discrepancies.push({
+      check: 'income',
+      field: 'monthlyIncome',
+      severity: difference > tolerance * 2 ? 'high' : 'medium',
+      message: `Bank statement inflows (${formatAmount(bankAverage)}/month) differ from reported income ` +
+        `(${formatAmount(reportedAverage)}/month) by ${Math.round(difference * 100)}%`,
+      difference: round(difference),
+      tolerance,
+      values: [...bankIncome, ...reportedIncome]
+    });
+  }
+
+  return { ...check, status: check.discrepancies.length > 0 ? 'discrepancy' : 'consistent' };
+}
+
+// Account holder, company, party, employee, taxpayer and ID holder names vs.
+// the applicant (or, without an applicant name, the first name found)
+function checkNames(documents, applicant, threshold) {
+  const named = documents
+    .map(r => ({ result: r, names: documentNames(r) }))
+    .filter(entry => entry.names.length > 0);
+
+  const check = { check: 'name', label: 'Applicant and party names', discrepancies: [] };
+  const reference = applicant.name?.trim()
+    ? { name: applicant.name.trim(), source: 'applicant' }
+    : named.length > 0 ? { name: named[0].names[0], source: named[0].result.fileName } : null;
+
+  const toCompare = reference?.source === 'applicant' ? named : named.slice(1);
+  if (!reference || toCompare.length === 0) {
+    return { ...check, status: 'insufficient_data' };
+  }
+
+  for (const { result, names } of toCompare) {
+    // A document matches when any of its names refers to the reference entity
+    const bestMatch = Math.max(...names.map(name => nameSimilarity(name, reference.name)));
+    if (bestMatch < threshold) {
+      check.discrepancies.push({
+        check: 'name',
+        field: result.extractedData.documentType === 'legal' ? 'partyNames' : 'name',
+        severity: 'high',
+        message: `${result.fileName} names ${names.map(n => `"${n}"`).join(', ')}, ` +
+          `which does not match "${reference.name}" (${reference.source === 'applicant' ? 'applicant' : reference.source})`,
+        difference: round(1 - bestMatch),
+        tolerance: round(1 - threshold),
+        values: [documentValue(result, names.join(', '))]
+      });
+    }
+  }
+
+  return { ...check, status: check.discrepancies.length > 0 ? 'discrepancy' : 'consistent' };
+}
+
+// Company registration / tax identifiers must be identical wherever they appear
+function checkRegistrationNumbers(documents) {
+  const identified = documents
+    .map(r => documentValue(r, r.extractedData.keyInformation?.registrationNumber))
+    .filter(v => typeof v.value === 'string' && normalizeIdentifier(v.value).length > 0);
+
+  const check = { check: 'registration_number', label: 'Company identifiers', discrepancies: [] };
+  if (identified.length < 2) {
+    return { ...check, status: 'insufficient_data' };
+  }
+
+  const distinct = new Set(identified.map(v => normalizeIdentifier(v.value)));
+  if (distinct.size > 1) {
+    check.discrepancies.push({
+      check: 'registration_number',
+      field: 'registrationNumber',
+      severity: 'high',
+      message: `Documents show different company identifiers: ${[...new Set(identified.map(v => v.value))].join(', ')}`,
+      values: identified
+    });
+  }
+
+  return { ...check, status: check.discrepancies.length > 0 ? 'discrepancy' : 'consistent' };
+}
+
+// Monthly income a document reports. Payslips count net pay, which is what
+// reaches the bank account.
+function reportedMonthlyIncome(result) {
+  const metrics = result.extractedData.financialMetrics;
+  switch (result.extractedData.documentType) {
+    case 'financial':
+      return monthlyFromAnnual(metrics?.annualRevenue);
+    case 'tax_return':
+      return metrics?.monthlyIncome;
+    case 'payslip':
+      return metrics?.netMonthlyIncome ?? metrics?.monthlyIncome;
+    default:
+      return undefined;
+  }
+}
+
+function documentNames(result) {
+  const info = result.extractedData.keyInformation || {};
+  const names = [
+    info.accountHolder, info.companyName, info.employeeName, info.taxpayerName, info.fullName, info.issuerName,
+    ...(Array.isArray(info.partyNames) ? info.partyNames : [])
+  ];
+  return names.filter(name => typeof name === 'string' && normalizeName(name).length > 0);
+}
+
+// Token overlap (Jaccard) of normalized names, 0-1
+function nameSimilarity(a, b) {
+  const tokensA = new Set(normalizeName(a));
+  const tokensB = new Set(normalizeName(b));
+  if (tokensA.size === 0 || tokensB.size === 0) {
+    return 0;
+  }
+
+  const shared = [...tokensA].filter(token => tokensB.has(token)).length;
+  return shared / (tokensA.size + tokensB.size - shared);
+}
+
+function normalizeName(name) {
+  return name
+    .toUpperCase()
+    .replace(/[^A-Z0-9 ]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token && !LEGAL_SUFFIXES.has(token));
+}
+
+function normalizeIdentifier(value) {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function documentValue(result, value) {
+  return { fileId: result.fileId, fileName: result.fileName, documentType: result.extractedData.documentType, value };
+}
+
+function monthlyFromAnnual(annual) {
+  return typeof annual === 'number' ? annual / 12 : undefined;
+}
+
+function isPositive(value) {
+  return typeof value === 'number' && Number.isFinite(value) && value > 0;
+}
+
+function averageOf(values) {
+  return values.reduce((sum, v) => sum + v.value, 0) / values.length;
+}
+
+function relativeDifference(a, b) {
+  return Math.abs(a - b) / Math.max(Math.abs(a), Math.abs(b));
+}
+
+function formatAmount(value) {
+  return Math.round(value).toLocaleString('en-US');
+}
+
+function round(value) {
+  return Math.round(value * 100) / 100;
+}
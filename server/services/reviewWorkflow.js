@@ -0,0 +1,167 @@
+import { v4 as uuidv4 } from 'uuid';
+
+// Underwriter review of a saved assessment: overrides of the model's figures,
+// the review status and an append-only audit trail of every change.
+
+export const REVIEW_STATUSES = ['draft', 'under_review', 'approved', 'declined', 'referred'];
+
+// Allowed status changes; approved and declined are final
+const TRANSITIONS = {
+  draft: ['under_review'],
+  under_review: ['draft', 'approved', 'declined', 'referred'],
+  referred: ['under_review', 'approved', 'declined'],
+  approved: [],
+  declined: []
+};
+
+// Figures can only be changed before a final decision
+const EDITABLE_STATUSES = ['draft', 'under_review', 'referred'];
+
+export const OVERRIDABLE_FIELDS = {
+  score: { min: 300, max: 850, integer: true },
+  maxCreditLimit: { min: 0 },
+  interestRate: { min: 0, max: 50 }
+};
+
+export class ReviewError extends Error {
+  constructor(message, statusCode = 400) {
+    super(message);
+    this.name = 'ReviewError';
+    this.statusCode = statusCode;
+  }
+}
+
+// Records saved before reviews existed start out as drafts
+export function reviewOf(application) {
+  return application.review || { status: 'draft', overrides: {} };
+}
+
+// The recommendation with underwriter overrides applied
+export function effectiveRecommendation(application) {
+  const recommendation = application.results?.creditRecommendation || {};
+  const { overrides } = reviewOf(application);
+
+  const effective = { ...recommendation };
+  for (const [field, override] of Object.entries(overrides)) {
+    effective[field] = override.value;
+  }
+  return effective;
+}
+
+// Returns the changes to store; `value: null` removes an existing override
+export function overrideField(application, { field, value, justification, user }) {
+  const review = reviewOf(application);
+  requireUser(user);
+
+  if (!EDITABLE_STATUSES.includes(review.status)) {
+    throw new ReviewError(`Cannot change figures of an assessment that is ${review.status}`, 409);
+  }
+
+  // Own keys only: "constructor" or "__proto__" must not pass as a field
+  const rules = typeof field === 'string' && Object.hasOwn(OVERRIDABLE_FIELDS, field) ? OVERRIDABLE_FIELDS[field] : null;
+  if (!rules) {
+    throw new ReviewError(`Field "${field}" cannot be overridden. Use one of: ${Object.keys(OVERRIDABLE_FIELDS).join(', ')}`);
+  }
+
+  if (typeof justification !== 'string' || justification.trim().length === 0) {
+    throw new ReviewError('A justification is required for every override');
+  }
+
+  if (value !== null) {
+    validateValue(field, value, rules);
+  }
+
+  const originalValue = application.results?.creditRecommendation?.[field] ?? null;
+  const previousValue = effectiveRecommendation(application)[field] ?? null;
+  const now = new Date().toISOString();
+
+  const overrides = { ...review.overrides };
+  if (value === null) {
+    if (!overrides[field]) {
+      throw new ReviewError(`${field} has no override to remove`);
+    }
+    delete overrides[field];
+  } else {
+    overrides[field] = { value, originalValue, justification: justification.trim(), user: user.trim(), at: now };
+  }
+
+  return {
+    review: { ...review, overrides },
+    auditTrail: [
+      ...(application.auditTrail || []),
+      {
+        id: uuidv4(),
+        at: now,
+        user: user.trim(),
+        action: value === null ? 'override_removed' : 'override',
+        field,
+        previousValue,
+        newValue: value === null ? originalValue : value,
+        justification: justification.trim()
+      }
+    ]
+  };
+}
+
+export function changeStatus(application, { status, comment, user }) {
+  const review = reviewOf(application);
+  requireUser(user);
+
+  if (!REVIEW_STATUSES.includes(status)) {
+    throw new ReviewError(`Invalid review status "${status}". Use one of: ${REVIEW_STATUSES.join(', ')}`);
+  }
+
+  if (!TRANSITIONS[review.status].includes(status)) {
+    throw new ReviewError(`Cannot move an assessment from ${review.status} to ${status}`, 409);
+  }
+
+  const now = new Date().toISOString();
+  const note = typeof comment === 'string' && comment.trim() ? comment.trim() : null;
+
+  return {
+    review: {
+      ...review,
+      status,
+      decision: ['approved', 'declined', 'referred'].includes(status)
+        ? { status, user: user.trim(), at: now, comment: note }
+        : review.decision ?? null
+    },
+    auditTrail: [
+      ...(application.auditTrail || []),
+      {
+        id: uuidv4(),
+        at: now,
+        user: user.trim(),
+        action: 'status_changed',
+        previousValue: review.status,
+        newValue: status,
+        comment: note
+      }
+    ]
+  };
+}
+
+export function allowedTransitions(status) {
+  return TRANSITIONS[status] || [];
+}
+
+function requireUser(user) {
+  if (typeof user !== 'string' || user.trim().length === 0) {
+    throw new ReviewError('The reviewing user is required');
+  }
+}
+
+function validateValue(field, value, rules) {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new ReviewError(`${field} must be a number`);
+  }
+  if (rules.integer && !Number.isInteger(value)) {
+    throw new ReviewError(`${field} must be a whole number`);
+  }
+  if (rules.min !== undefined && value < rules.min) {
+    throw new ReviewError(`${field} must be at least ${rules.min}`);
+  }
+  if (rules.max !== undefined && value > rules.max) {
+    throw new ReviewError(`${field} must be at most ${rules.max}`);
+  }
+}
@@ -0,0 +1,190 @@
+import fs from 'fs-extra';
+import { validateAgainstSchema, formatValidationErrors } from './structuredOutput.js';
+
+// Deterministic scorecard engine. Credit policy lives in a versioned JSON rules
+// file (see server/scorecards/default.json); this module only knows how to
+// compute the features the rules can refer to.
+
+// Features available to scorecard variables, computed from processed documents
+const FEATURES = {
+  monthlyIncome: results => average(financialMetrics(results)
+    .map(m => m.monthlyIncome ?? (m.annualRevenue !== undefined ? m.annualRevenue / 12 : undefined))),
+  assets: results => average(financialMetrics(results).map(m => m.totalAssets ?? m.accountBalance)),
+  averageDailyBalance: results => average(financialMetrics(results).map(m => m.averageDailyBalance)),
+  nsfAndOverdraftCount: results => sum(financialMetrics(results)
+    .filter(m => m.nsfCount !== undefined || m.overdraftCount !== undefined)
+    .map(m => (m.nsfCount ?? 0) + (m.overdraftCount ?? 0))),
+  incomeRegularityScore: results => average(financialMetrics(results).map(m => m.incomeRegularityScore)),
+  debtToEquityRatio: results => average(financialRatios(results).map(r => r.debtToEquity)),
+  profitMargin: results => average(financialRatios(results).map(r => r.netMargin)),
+  currentRatio: results => average(financialRatios(results).map(r => r.currentRatio)),
+  debtServiceCoverageRatio: results => average(financialRatios(results).map(r => r.debtServiceCoverage)),
+  revenueGrowth: results => average(financialRatios(results).map(r => r.revenueGrowth)),
+  documentedMonthlyIncome: results => average(ofType(results, 'payslip', 'tax_return')
+    .map(r => r.extractedData.financialMetrics?.monthlyIncome)),
+  overdueReceivablesShare: results => average(ofType(results, 'invoice')
+    .map(r => r.extractedData.financialMetrics?.overdueShare)),
+  validIdentityDocumentCount: results => ofType(results, 'identity')
+    .filter(r => r.extractedData.keyInformation?.identityStatus === 'valid').length,
+  riskFactorCount: results => results.reduce((total, r) => total + (r.extractedData.riskFactors?.length || 0), 0),
+  documentCount: results => results.length,
+  documentTypeCount: results => new Set(results.map(r => r.extractedData.documentType)).size,
+  failedDocumentCount: results => results.filter(r => r.error).length
+};
+
+export const SCORECARD_FEATURES = Object.keys(FEATURES);
+
+const RATINGS = ['Excellent', 'Good', 'Fair', 'Poor', 'Very Poor'];
+const RISK_LEVELS = ['Low', 'Medium', 'High'];
+
+const SCORECARD_SCHEMA = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    version: { type: 'string' },
+    effectiveDate: { type: 'string' },
+    baseScore: { type: 'number' },
+    minScore: { type: 'number' },
+    maxScore: { type: 'number' },
+    variables: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          label: { type: 'string' },
+          feature: { type: 'string', enum: SCORECARD_FEATURES },
+          weight: { type: 'number' },
+          missingPoints: { type: 'number' },
+          bins: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                label: { type: 'string' },
+                min: { type: 'number' },
+                max: { type: 'number' },
+                points: { type: 'number' },
+                pointsPerUnit: { type: 'number' }
+              },
+              required: ['label', 'points']
+            }
+          }
+        },
+        required: ['id', 'label', 'feature', 'bins']
+      }
+    },
+    bands: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          minScore: { type: 'number' },
+          rating: { type: 'string', enum: RATINGS },
+          riskLevel: { type: 'string', enum: RISK_LEVELS },
+          maxCreditLimit: { type: 'number', minimum: 0 },
+          interestRate: { type: 'number', minimum: 0, maximum: 50 }
+        },
+        required: ['minScore', 'rating', 'riskLevel', 'maxCreditLimit', 'interestRate']
+      }
+    }
+  },
+  required: ['name', 'version', 'baseScore', 'minScore', 'maxScore', 'variables', 'bands']
+};
+
+// The rules file is read on every evaluation so policy changes apply without a restart
+export function loadScorecard(filePath) {
+  let rules;
+  try {
+    rules = fs.readJsonSync(filePath);
+  } catch (error) {
+    throw new Error(`Could not read scorecard ${filePath}: ${error.message}`);
+  }
+
+  const errors = validateAgainstSchema(rules, SCORECARD_SCHEMA);
+  if (rules.bands?.length === 0) {
+    errors.push({ path: '$.bands', message: 'must define at least one band' });
+  }
+  if (errors.length > 0) {
+    throw new Error(`Invalid scorecard ${filePath}:\n${formatValidationErrors(errors)}`);
+  }
+
+  return {
+    ...rules,
+    // Highest band first, so the first band a score reaches is its band
+    bands: [...rules.bands].sort((a, b) => b.minScore - a.minScore)
+  };
+}
+
+export function evaluateScorecard(scorecard, results) {
+  const contributions = scorecard.variables.map(variable => {
+    const value = FEATURES[variable.feature](results);
+    const weight = variable.weight ?? 1;
+
+    if (value === null) {
+      return {
+        variable: variable.id,
+        label: variable.label,
+        value: null,
+        bin: 'Missing',
+        points: round((variable.missingPoints ?? 0) * weight)
+      };
+    }
+
+    const bin = variable.bins.find(b => (b.min === undefined || value >= b.min) && (b.max === undefined || value < b.max));
+    const points = bin ? bin.points + (bin.pointsPerUnit ?? 0) * value : 0;
+
+    return {
+      variable: variable.id,
+      label: variable.label,
+      value: round(value),
+      bin: bin ? bin.label : 'No matching bin',
+      points: round(points * weight)
+    };
+  });
+
+  const rawScore = round(scorecard.baseScore + contributions.reduce((total, c) => total + c.points, 0));
+  const score = Math.round(Math.max(scorecard.minScore, Math.min(scorecard.maxScore, rawScore)));
+  const band = scorecard.bands.find(b => score >= b.minScore) || scorecard.bands[scorecard.bands.length - 1];
+
+  return {
+    name: scorecard.name,
+    version: scorecard.version,
+    effectiveDate: scorecard.effectiveDate || null,
+    baseScore: scorecard.baseScore,
+    rawScore,
+    score,
+    rating: band.rating,
+    riskLevel: band.riskLevel,
+    maxCreditLimit: band.maxCreditLimit,
+    interestRate: band.interestRate,
+    contributions
+  };
+}
+
+function financialMetrics(results) {
+  return results.map(r => r.extractedData.financialMetrics).filter(Boolean);
+}
+
+function ofType(results, ...documentTypes) {
+  return results.filter(r => !r.error && documentTypes.includes(r.extractedData.documentType));
+}
+
+function financialRatios(results) {
+  return results.map(r => r.extractedData.ratios).filter(Boolean);
+}
+
+// Aggregates return null when no document provides the value
+function average(values) {
+  const numbers = values.filter(v => typeof v === 'number' && Number.isFinite(v));
+  return numbers.length > 0 ? numbers.reduce((total, v) => total + v, 0) / numbers.length : null;
+}
+
+function sum(values) {
+  const numbers = values.filter(v => typeof v === 'number' && Number.isFinite(v));
+  return numbers.length > 0 ? numbers.reduce((total, v) => total + v, 0) : null;
+}
+
+function round(value) {
+  return Math.round(value * 100) / 100;
+}
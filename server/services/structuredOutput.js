@@ -0,0 +1,168 @@
+// Parsing and validation of structured (JSON) model output.
+// Supports the subset of JSON Schema used by our extraction schemas:
+// type, enum, properties, required, items, minimum, maximum.
+
+export function parseJSONResponse(text) {
+  if (!text || typeof text !== 'string') {
+    return undefined;
+  }
+
+  // Reasoning models may wrap their answer in <think> blocks or code fences
+  const cleaned = text
+    .replace(/<think>[\s\S]*?<\/think>/gi, '')
+    .replace(/```(?:json)?/gi, '')
+    .trim();
+
+  try {
+    return JSON.parse(cleaned);
+  } catch {
+    // Fall through to locating the first complete object in the text
+  }
+
+  const candidate = findFirstJSONObject(cleaned);
+  if (candidate) {
+    try {
+      return JSON.parse(candidate);
+    } catch {
+      return undefined;
+    }
+  }
+
+  return undefined;
+}
+
+// Locate the first balanced {...} block, ignoring braces inside strings
+function findFirstJSONObject(text) {
+  const start = text.indexOf('{');
+  if (start === -1) {
+    return null;
+  }
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}') {
+      depth--;
+      if (depth === 0) {
+        return text.slice(start, i + 1);
+      }
+    }
+  }
+
+  return null;
+}
+
+// Returns a list of { path, message } errors; an empty list means valid.
+// Supports type, enum, minimum, exclusiveMinimum, maximum, pattern, required,
+// properties, additionalProperties (a schema for every other key) and items.
+export function validateAgainstSchema(value, schema, path = '$') {
+  const errors = [];
+
+  if (schema.type) {
+    const allowedTypes = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!allowedTypes.some(type => matchesType(value, type))) {
+      errors.push({ path, message: `expected ${allowedTypes.join(' or ')}, got ${describeType(value)}` });
+      return errors;
+    }
+  }
+
+  if (schema.enum && !schema.enum.includes(value)) {
+    errors.push({ path, message: `must be one of ${schema.enum.map(v => JSON.stringify(v)).join(', ')}` });
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) {
+      errors.push({ path, message: `must be >= ${schema.minimum}` });
+    }
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      errors.push({ path, message: `must be > ${schema.exclusiveMinimum}` });
+    }
+    if (schema.maximum !== undefined && value > schema.maximum) {
+      errors.push({ path, message: `must be <= ${schema.maximum}` });
+    }
+  }
+
+  if (typeof value === 'string' && schema.pattern && !new RegExp(schema.pattern).test(value)) {
+    errors.push({ path, message: `must match ${schema.pattern}` });
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required || []) {
+      if (!(key in value)) {
+        errors.push({ path: `${path}.${key}`, message: 'is required' });
+      }
+    }
+
+    for (const [key, propertySchema] of Object.entries(schema.properties || {})) {
+      if (key in value) {
+        errors.push(...validateAgainstSchema(value[key], propertySchema, `${path}.${key}`));
+      }
+    }
+
+    if (isPlainObject(schema.additionalProperties)) {
+      for (const [key, item] of Object.entries(value)) {
+        if (!(key in (schema.properties || {}))) {
+          errors.push(...validateAgainstSchema(item, schema.additionalProperties, `${path}.${key}`));
+        }
+      }
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, index) => {
+      errors.push(...validateAgainstSchema(item, schema.items, `${path}[${index}]`));
+    });
+  }
+
+  return errors;
+}
+
+export function formatValidationErrors(errors) {
+  return errors.map(error => `- ${error.path} ${error.message}`).join('\n');
+}
+
+function matchesType(value, type) {
+  switch (type) {
+    case 'null':
+      return value === null;
+    case 'object':
+      return isPlainObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function describeType(value) {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function isPlainObject(value) {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
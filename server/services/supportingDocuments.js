@@ -0,0 +1,362 @@
+import { normalizeDate } from './bankStatementLedger.js';
+import { mergePageValues, computedProvenance } from './fieldProvenance.js';
+
+// Combines the pages of payslips, tax returns, invoices and identity documents
+// and maps them to the metrics used in scoring. Payslips and tax returns are
+// income evidence; invoices describe receivables; identity documents verify
+// who the applicant is.
+
+export const PAY_FREQUENCIES = ['weekly', 'biweekly', 'semimonthly', 'monthly', 'annual'];
+
+const PAYS_PER_YEAR = { weekly: 52, biweekly: 26, semimonthly: 24, monthly: 12, annual: 1 };
+
+// Gross pay differing more than this between payslips is a risk factor
+const PAY_VARIATION_THRESHOLD = 0.25;
+
+// Shares of receivables above these are risk factors
+const OVERDUE_SHARE_THRESHOLD = 30;
+const CUSTOMER_CONCENTRATION_THRESHOLD = 50;
+
+// Tax returns for years longer ago than this are a risk factor
+const MAX_TAX_YEAR_AGE = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const round = value => Math.round(value * 100) / 100;
+
+export const SUPPORTING_DOCUMENT_COMBINERS = {
+  payslip: combinePayslipPages,
+  tax_return: combineTaxReturnPages,
+  invoice: combineInvoicePages,
+  identity: combineIdentityPages
+};
+
+// Each page showing pay figures is one payslip; the same payslip repeated on
+// another page counts once. Monthly income is the average of every payslip's
+// pay converted from its pay frequency.
+function combinePayslipPages(pageExtractions, { now = new Date() } = {}) {
+  const { values: header, provenance } = mergePageValues(pageExtractions, {
+    fields: ['employeeName', 'employerName', 'currency']
+  });
+  const riskFactors = narrativeRiskFactors(pageExtractions);
+
+  const seen = new Set();
+  const payslips = [];
+  for (const { pageNumber, data } of pageExtractions) {
+    if (!isAmount(data.grossPay) && !isAmount(data.netPay)) {
+      continue;
+    }
+
+    const payslip = {
+      payDate: normalizeDate(data.payDate),
+      periodStart: normalizeDate(data.periodStart),
+      periodEnd: normalizeDate(data.periodEnd),
+      grossPay: isAmount(data.grossPay) ? data.grossPay : null,
+      netPay: isAmount(data.netPay) ? data.netPay : null,
+      taxWithheld: isAmount(data.taxWithheld) ? data.taxWithheld : null,
+      yearToDateGross: isAmount(data.yearToDateGross) ? data.yearToDateGross : null,
+      page: pageNumber ?? null
+    };
+    const key = JSON.stringify([payslip.payDate ?? payslip.periodEnd, payslip.grossPay, payslip.netPay]);
+    if (!seen.has(key)) {
+      seen.add(key);
+      payslips.push({ ...payslip, payFrequency: data.payFrequency ?? null });
+    }
+  }
+
+  payslips.sort((a, b) => (a.payDate ?? a.periodEnd ?? '').localeCompare(b.payDate ?? b.periodEnd ?? ''));
+  const inferred = inferPayFrequency(payslips);
+  let assumedFrequency = false;
+  for (const payslip of payslips) {
+    payslip.payFrequency = payslip.payFrequency ?? frequencyOfPeriod(payslip) ?? inferred;
+    if (!payslip.payFrequency) {
+      payslip.payFrequency = 'monthly';
+      assumedFrequency = true;
+    }
+  }
+
+  const monthly = field => average(payslips
+    .filter(payslip => payslip[field] !== null)
+    .map(payslip => (payslip[field] * PAYS_PER_YEAR[payslip.payFrequency]) / 12));
+  const monthlyIncome = monthly('grossPay');
+  const netMonthlyIncome = monthly('netPay');
+  const latest = payslips[payslips.length - 1];
+
+  if (payslips.length === 0) {
+    riskFactors.push('No pay figures could be read from the payslip');
+  }
+  if (assumedFrequency) {
+    riskFactors.push('Pay frequency not shown; monthly pay assumed');
+  }
+  const grossPays = payslips.map(payslip => payslip.grossPay).filter(value => value !== null);
+  if (grossPays.length > 1) {
+    const variation = (Math.max(...grossPays) - Math.min(...grossPays)) / Math.max(...grossPays);
+    if (variation > PAY_VARIATION_THRESHOLD) {
+      riskFactors.push(`Gross pay varies by ${Math.round(variation * 100)}% between payslips`);
+    }
+  }
+  const latestDate = latest?.payDate ?? latest?.periodEnd;
+  if (latestDate && ageInDays(latestDate, now) > 90) {
+    riskFactors.push(`Most recent payslip is from ${latestDate}, more than three months ago`);
+  }
+
+  const financialMetrics = withoutEmpty({
+    monthlyIncome: monthlyIncome !== null ? round(monthlyIncome) : null,
+    netMonthlyIncome: netMonthlyIncome !== null ? round(netMonthlyIncome) : null,
+    annualIncome: monthlyIncome !== null ? round(monthlyIncome * 12) : null
+  });
+
+  const keyInformation = {
+    employeeName: header.employeeName || null,
+    employerName: header.employerName || null,
+    currency: header.currency || null,
+    payslipCount: payslips.length,
+    payFrequency: latest?.payFrequency ?? null,
+    periodEnd: latestDate ?? null,
+    grossPay: latest?.grossPay ?? null,
+    netPay: latest?.netPay ?? null,
+    yearToDateGross: latest?.yearToDateGross ?? null
+  };
+
+  const payPages = pageExtractions.filter(page => payslips.some(payslip => payslip.page === page.pageNumber));
+  if (payPages.length > 0) {
+    const latestPage = latest?.page ?? null;
+    for (const field of ['payslipCount', 'payFrequency', 'periodEnd', 'grossPay', 'netPay', 'yearToDateGross']) {
+      if (keyInformation[field] !== null) {
+        provenance[field] = computedProvenance(payPages, field === 'payslipCount' ? null : latestPage);
+      }
+    }
+    for (const field of Object.keys(financialMetrics)) {
+      provenance[field] = computedProvenance(payPages);
+    }
+  }
+
+  return {
+    documentType: 'payslip',
+    keyInformation,
+    riskFactors,
+    financialMetrics: Object.keys(financialMetrics).length > 0 ? financialMetrics : null,
+    payslips,
+    provenance,
+    confidence: averageConfidence(pageExtractions)
+  };
+}
+
+// A return is usually one filing over several pages: the first page showing a figure wins
+function combineTaxReturnPages(pageExtractions, { now = new Date() } = {}) {
+  const { values, provenance } = mergePageValues(pageExtractions);
+  const riskFactors = narrativeRiskFactors(pageExtractions);
+
+  const annualIncome = isAmount(values.grossIncome) && values.grossIncome !== 0
+    ? values.grossIncome
+    : isAmount(values.businessIncome) ? values.businessIncome : null;
+  const taxYear = Number.isInteger(values.taxYear) ? values.taxYear : null;
+
+  if (annualIncome === null) {
+    riskFactors.push('No income figure could be read from the tax return');
+  }
+  if (taxYear === null) {
+    riskFactors.push('Tax year not shown on the return');
+  } else if (now.getUTCFullYear() - taxYear > MAX_TAX_YEAR_AGE) {
+    riskFactors.push(`Tax return is for ${taxYear}, more than ${MAX_TAX_YEAR_AGE} years ago`);
+  }
+
+  const financialMetrics = withoutEmpty({
+    annualIncome,
+    monthlyIncome: annualIncome !== null ? round(annualIncome / 12) : null,
+    taxableIncome: isAmount(values.taxableIncome) ? values.taxableIncome : null,
+    totalTax: isAmount(values.totalTax) ? values.totalTax : null
+  });
+  if (annualIncome !== null) {
+    const source = provenance.grossIncome?.pageNumber ?? provenance.businessIncome?.pageNumber ?? null;
+    provenance.annualIncome = computedProvenance(pageExtractions, source);
+    provenance.monthlyIncome = computedProvenance(pageExtractions, source);
+  }
+
+  return {
+    documentType: 'tax_return',
+    keyInformation: { ...values, periodEnd: taxYear !== null ? `${taxYear}-12-31` : null },
+    riskFactors,
+    financialMetrics: Object.keys(financialMetrics).length > 0 ? financialMetrics : null,
+    provenance,
+    confidence: averageConfidence(pageExtractions)
+  };
+}
+
+// Invoices from every page, the same invoice counted once. Receivables are
+// overdue when still outstanding after their due date.
+function combineInvoicePages(pageExtractions, { now = new Date() } = {}) {
+  const { values: header, provenance } = mergePageValues(pageExtractions, {
+    fields: ['issuerName', 'currency', 'asOfDate']
+  });
+  const riskFactors = narrativeRiskFactors(pageExtractions);
+  const asOfDate = normalizeDate(header.asOfDate) ?? now.toISOString().slice(0, 10);
+
+  const seen = new Set();
+  const invoices = [];
+  for (const { pageNumber, data } of pageExtractions) {
+    for (const invoice of data.invoices || []) {
+      if (!isAmount(invoice.totalAmount)) {
+        continue;
+      }
+      const key = invoice.invoiceNumber
+        ? `number:${invoice.invoiceNumber.trim().toUpperCase()}`
+        : JSON.stringify([invoice.customerName, invoice.issueDate, invoice.totalAmount]);
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+
+      const dueDate = normalizeDate(invoice.dueDate);
+      const outstanding = isAmount(invoice.amountOutstanding) ? invoice.amountOutstanding : null;
+      invoices.push({
+        invoiceNumber: invoice.invoiceNumber || null,
+        customerName: invoice.customerName || null,
+        issueDate: normalizeDate(invoice.issueDate),
+        dueDate,
+        totalAmount: invoice.totalAmount,
+        amountOutstanding: outstanding,
+        overdue: Boolean(dueDate && dueDate < asOfDate && outstanding > 0),
+        page: pageNumber ?? null
+      });
+    }
+  }
+
+  const totalInvoiced = round(sum(invoices.map(invoice => invoice.totalAmount)));
+  const outstandingReceivables = round(sum(invoices.map(invoice => invoice.amountOutstanding ?? 0)));
+  const overdueReceivables = round(sum(invoices.filter(invoice => invoice.overdue).map(invoice => invoice.amountOutstanding)));
+
+  const byCustomer = new Map();
+  for (const invoice of invoices) {
+    const customer = (invoice.customerName || 'Unknown').trim().toUpperCase();
+    byCustomer.set(customer, (byCustomer.get(customer) || 0) + invoice.totalAmount);
+  }
+  const largestCustomerShare = totalInvoiced > 0
+    ? round((Math.max(...byCustomer.values()) / totalInvoiced) * 100)
+    : null;
+  const overdueShare = outstandingReceivables > 0 ? round((overdueReceivables / outstandingReceivables) * 100) : null;
+
+  if (invoices.length === 0) {
+    riskFactors.push('No invoice amounts could be read');
+  }
+  if (overdueShare !== null && overdueShare > OVERDUE_SHARE_THRESHOLD) {
+    riskFactors.push(`${overdueShare}% of outstanding receivables are overdue`);
+  }
+  if (byCustomer.size > 1 && largestCustomerShare > CUSTOMER_CONCENTRATION_THRESHOLD) {
+    riskFactors.push(`Largest customer accounts for ${largestCustomerShare}% of invoiced amounts`);
+  }
+
+  const financialMetrics = invoices.length > 0
+    ? { totalInvoiced, outstandingReceivables, overdueReceivables, overdueShare, largestCustomerShare }
+    : null;
+
+  const keyInformation = {
+    issuerName: header.issuerName || null,
+    currency: header.currency || null,
+    periodEnd: asOfDate,
+    invoiceCount: invoices.length,
+    customerCount: byCustomer.size
+  };
+
+  const invoicePages = pageExtractions.filter(page => invoices.some(invoice => invoice.page === page.pageNumber));
+  if (invoicePages.length > 0) {
+    for (const field of ['invoiceCount', 'customerCount', ...Object.keys(financialMetrics || {})]) {
+      provenance[field] = computedProvenance(invoicePages);
+    }
+  }
+
+  return {
+    documentType: 'invoice',
+    keyInformation,
+    riskFactors,
+    financialMetrics,
+    invoices,
+    provenance,
+    confidence: averageConfidence(pageExtractions)
+  };
+}
+
+// Front and back of a card, or the pages of a passport
+function combineIdentityPages(pageExtractions, { now = new Date() } = {}) {
+  const { values, provenance } = mergePageValues(pageExtractions);
+  const riskFactors = narrativeRiskFactors(pageExtractions);
+
+  const expiryDate = normalizeDate(values.expiryDate);
+  const today = now.toISOString().slice(0, 10);
+  const status = !values.fullName
+    ? 'unreadable'
+    : expiryDate === null ? 'unknown' : expiryDate < today ? 'expired' : 'valid';
+
+  if (status === 'expired') {
+    riskFactors.push(`Identity document expired on ${expiryDate}`);
+  } else if (status === 'unreadable') {
+    riskFactors.push('Name on the identity document could not be read');
+  }
+
+  return {
+    documentType: 'identity',
+    keyInformation: { ...values, identityStatus: status },
+    riskFactors,
+    financialMetrics: null,
+    provenance,
+    confidence: averageConfidence(pageExtractions)
+  };
+}
+
+// From the stated period when there is one, e.g. 14 days is biweekly
+function frequencyOfPeriod({ periodStart, periodEnd }) {
+  if (!periodStart || !periodEnd) {
+    return null;
+  }
+  return frequencyOfDays((Date.parse(periodEnd) - Date.parse(periodStart)) / DAY_MS + 1);
+}
+
+// From the typical gap between pay dates of consecutive payslips
+function inferPayFrequency(payslips) {
+  const dates = payslips.map(payslip => payslip.payDate).filter(Boolean);
+  const gaps = dates.slice(1).map((date, i) => (Date.parse(date) - Date.parse(dates[i])) / DAY_MS);
+  if (gaps.length === 0) {
+    return null;
+  }
+  return frequencyOfDays(gaps.sort((a, b) => a - b)[Math.floor(gaps.length / 2)]);
+}
+
+function frequencyOfDays(days) {
+  if (days <= 0) return null;
+  if (days <= 8) return 'weekly';
+  if (days <= 14) return 'biweekly';
+  if (days <= 17) return 'semimonthly';
+  if (days <= 35) return 'monthly';
+  if (days >= 350 && days <= 380) return 'annual';
+  return null;
+}
+
+function narrativeRiskFactors(pageExtractions) {
+  return [...new Set(pageExtractions.flatMap(page => page.data.riskFactors || []))];
+}
+
+function averageConfidence(pageExtractions) {
+  const confidence = average(pageExtractions.map(page => page.data.confidence));
+  return confidence !== null ? Math.round(confidence) : undefined;
+}
+
+function withoutEmpty(metrics) {
+  return Object.fromEntries(Object.entries(metrics).filter(([, value]) => value !== null));
+}
+
+function isAmount(value) {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function ageInDays(date, now) {
+  return (now.getTime() - Date.parse(date)) / DAY_MS;
+}
+
+function sum(values) {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+function average(values) {
+  const numbers = values.filter(isAmount);
+  return numbers.length > 0 ? sum(numbers) / numbers.length : null;
+}
@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+
+// Checks on uploaded files that don't trust what the client says about them:
+// the content must really be a PDF, JPEG or PNG, and a SHA-256 of the content
+// identifies the same document uploaded again.
+
+export const ALLOWED_MIMETYPES = ['application/pdf', 'image/jpeg', 'image/png'];
+
+// Browsers and clients send either spelling
+const MIMETYPE_ALIASES = { 'image/jpg': 'image/jpeg', 'image/pjpeg': 'image/jpeg' };
+
+const SIGNATURES = [
+  { mimetype: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] }, // %PDF-
+  { mimetype: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { mimetype: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] }
+];
+
+// Some PDF writers put a few bytes of junk before the header; readers accept up to 1KB
+const PDF_HEADER_WINDOW = 1024;
+
+export class UploadError extends Error {
+  constructor(code, message, statusCode = 400) {
+    super(message);
+    this.name = 'UploadError';
+    this.code = code;
+    this.statusCode = statusCode;
+  }
+}
+
+export function normalizeMimetype(mimetype) {
+  const lower = (mimetype || '').toLowerCase();
+  return MIMETYPE_ALIASES[lower] || lower;
+}
+
+// The type the file's leading bytes identify, or null
+export async function sniffMimetype(filePath) {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(PDF_HEADER_WINDOW);
+    const { bytesRead } = await fs.read(handle, buffer, 0, PDF_HEADER_WINDOW, 0);
+    const head = buffer.subarray(0, bytesRead);
+
+    const match = SIGNATURES.find(({ bytes }) => bytes.every((byte, index) => head[index] === byte));
+    if (match) {
+      return match.mimetype;
+    }
+    return head.includes('%PDF-') ? 'application/pdf' : null;
+  } finally {
+    await fs.close(handle);
+  }
+}
+
+export function hashFile(filePath) {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('error', reject)
+      .on('data', chunk => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')));
+  });
+}
+
+// Verifies a stored upload against the type the client declared.
+// Returns { mimetype, sha256 } or throws an UploadError.
+export async function inspectUpload({ path: filePath, mimetype, size }) {
+  if (size === 0) {
+    throw new UploadError('EMPTY_FILE', 'The file is empty.');
+  }
+
+  const declared = normalizeMimetype(mimetype);
+  const detected = await sniffMimetype(filePath);
+
+  if (!detected) {
+    throw new UploadError('UNRECOGNIZED_CONTENT', 'The file content is not a PDF, JPEG or PNG.');
+  }
+  if (detected !== declared) {
+    throw new UploadError(
+      'CONTENT_TYPE_MISMATCH',
+      `The file claims to be ${declared || 'of an unknown type'} but its content is ${detected}.`
+    );
+  }
+
+  return { mimetype: detected, sha256: await hashFile(filePath) };
+}
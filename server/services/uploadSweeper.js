@@ -0,0 +1,65 @@
+import fs from 'fs-extra';
+import path from 'path';
+
+// Deletes uploads and temp directories nobody came back for: files uploaded
+// without a later /api/process call, and leftovers of interrupted processing.
+// Entries still used by an unfinished job are never touched.
+export class UploadSweeper {
+  constructor({ directories, retentionMs, intervalMs, isInUse = () => false }) {
+    this.directories = directories;
+    this.retentionMs = retentionMs;
+    this.intervalMs = intervalMs;
+    this.isInUse = isInUse;
+    this.timer = null;
+  }
+
+  start() {
+    if (this.timer || this.intervalMs <= 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.sweep().catch(error => console.error('Upload sweep failed:', error.message));
+    }, this.intervalMs);
+    // The sweeper alone shouldn't keep the process alive
+    this.timer.unref();
+  }
+
+  stop() {
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  // Returns the number of entries removed
+  async sweep(now = Date.now()) {
+    const cutoff = now - this.retentionMs;
+    let removed = 0;
+
+    for (const directory of this.directories) {
+      if (!(await fs.pathExists(directory))) {
+        continue;
+      }
+
+      for (const name of await fs.readdir(directory)) {
+        const entryPath = path.join(directory, name);
+        try {
+          const stats = await fs.stat(entryPath);
+          if (stats.mtimeMs < cutoff && !this.isInUse(entryPath)) {
+            await fs.remove(entryPath);
+            removed++;
+          }
+        } catch (error) {
+          // Removed concurrently, e.g. by the job that owned it
+          if (error.code !== 'ENOENT') {
+            console.warn(`Could not sweep ${name}:`, error.message);
+          }
+        }
+      }
+    }
+
+    if (removed > 0) {
+      console.log(`🧹 Removed ${removed} expired upload(s) and temp folder(s)`);
+    }
+    return removed;
+  }
+}
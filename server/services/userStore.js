@@ -0,0 +1,160 @@
+import crypto from 'crypto';
+import fs from 'fs-extra';
+import path from 'path';
+import { promisify } from 'util';
+import { DATA_DIR } from './applicationStore.js';
+
+const scrypt = promisify(crypto.scrypt);
+
+const KEY_LENGTH = 64;
+const MIN_PASSWORD_LENGTH = 8;
+const USERNAME_PATTERN = /^[A-Za-z0-9._-]{3,64}$/;
+
+export const ROLES = ['analyst', 'underwriter', 'admin'];
+
+export class UserError extends Error {
+  constructor(message, statusCode = 400) {
+    super(message);
+    this.name = 'UserError';
+    this.statusCode = statusCode;
+  }
+}
+
+// Local user accounts, stored next to the applications as a JSON file.
+// Passwords are kept as salted scrypt hashes only.
+class UserStore {
+  constructor(filePath) {
+    this.filePath = filePath;
+    this.users = null;
+    this.writeQueue = Promise.resolve();
+  }
+
+  async load() {
+    if (this.users) {
+      return this.users;
+    }
+
+    await fs.ensureDir(path.dirname(this.filePath));
+
+    if (await fs.pathExists(this.filePath)) {
+      // Unlike applications, a corrupt user file must not silently become "no users"
+      const data = await fs.readJson(this.filePath);
+      this.users = data.users || {};
+    } else {
+      this.users = {};
+    }
+
+    return this.users;
+  }
+
+  persist() {
+    this.writeQueue = this.writeQueue
+      .catch(() => {})
+      .then(async () => {
+        const tempPath = `${this.filePath}.tmp`;
+        await fs.writeJson(tempPath, { version: 1, users: this.users }, { spaces: 2, mode: 0o600 });
+        await fs.move(tempPath, this.filePath, { overwrite: true });
+      });
+
+    return this.writeQueue;
+  }
+
+  async count() {
+    return Object.keys(await this.load()).length;
+  }
+
+  async list() {
+    const users = await this.load();
+    return Object.values(users)
+      .map(publicUser)
+      .sort((a, b) => a.username.localeCompare(b.username));
+  }
+
+  async get(username) {
+    const users = await this.load();
+    const user = users[normalizeUsername(username)];
+    return user ? publicUser(user) : null;
+  }
+
+  async create({ username, password, role, displayName }) {
+    const users = await this.load();
+    const key = normalizeUsername(username);
+
+    if (!USERNAME_PATTERN.test(key)) {
+      throw new UserError('Username must be 3-64 letters, digits, dots, dashes or underscores');
+    }
+    if (users[key]) {
+      throw new UserError(`User ${key} already exists`, 409);
+    }
+    if (!ROLES.includes(role)) {
+      throw new UserError(`Invalid role "${role}". Use one of: ${ROLES.join(', ')}`);
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      throw new UserError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+    }
+
+    users[key] = {
+      username: key,
+      displayName: (displayName || '').toString().trim() || key,
+      role,
+      passwordHash: await hashPassword(password),
+      createdAt: new Date().toISOString()
+    };
+    await this.persist();
+
+    console.log(`👤 Created ${role} account ${key}`);
+    return publicUser(users[key]);
+  }
+
+  async delete(username) {
+    const users = await this.load();
+    const key = normalizeUsername(username);
+
+    if (!users[key]) {
+      return false;
+    }
+
+    delete users[key];
+    await this.persist();
+    return true;
+  }
+
+  // The user when the password matches, null otherwise
+  async verifyPassword(username, password) {
+    const users = await this.load();
+    const user = users[normalizeUsername(username)];
+
+    if (!user || typeof password !== 'string') {
+      return null;
+    }
+
+    return (await checkPassword(password, user.passwordHash)) ? publicUser(user) : null;
+  }
+}
+
+async function hashPassword(password) {
+  const salt = crypto.randomBytes(16);
+  const hash = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+async function checkPassword(password, stored) {
+  const [scheme, saltHex, hashHex] = (stored || '').split('$');
+  if (scheme !== 'scrypt' || !saltHex || !hashHex) {
+    return false;
+  }
+
+  const expected = Buffer.from(hashHex, 'hex');
+  const actual = await scrypt(password, Buffer.from(saltHex, 'hex'), expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+function normalizeUsername(username) {
+  return (username || '').toString().trim().toLowerCase();
+}
+
+function publicUser({ username, displayName, role, createdAt }) {
+  return { username, displayName, role, createdAt };
+}
+
+export const userStore = new UserStore(path.join(DATA_DIR, 'users.json'));
@@ -1,11 +1,28 @@
-import React from 'react';
-import { FileText, RefreshCw } from 'lucide-react';
+import { useEffect, useState } from 'react';
+import { FileText, RefreshCw, LogOut } from 'lucide-react';
 import { FileUpload } from './components/FileUpload';
 import { ProcessingStatus } from './components/ProcessingStatus';
 import { CreditReport } from './components/CreditReport';
+import { ApplicantDetailsForm } from './components/ApplicantDetailsForm';
+import { ApplicationHistory } from './components/ApplicationHistory';
+import { ScoringModeSelector } from './components/ScoringModeSelector';
+import { LoanRequestForm } from './components/LoanRequestForm';
+import { ReviewPanel } from './components/ReviewPanel';
+import { ModelCallLogPanel } from './components/ModelCallLogPanel';
+import { AuthSession } from './components/AuthGate';
 import { useFileProcessor } from './hooks/useFileProcessor';
+import { useApplicationHistory } from './hooks/useApplicationHistory';
+import { useModelConfiguration } from './hooks/useModelConfiguration';
+import { useApplicationReview } from './hooks/useApplicationReview';
+import { ApplicantInfo, LoanRequest, LoanRequestInput, ScoringMode } from './types';
+
+interface AppProps {
+  session: AuthSession;
+}
+
+function App({ session }: AppProps) {
+  const { user, can, logout } = session;
 
-function App() {
   const {
     files,
     isProcessing,
@@ -13,12 +30,75 @@ function App() {
     results,
     addFiles,
     removeFile,
+    setFileDocumentType,
+    unlockFile,
     startProcessing,
+    cancelProcessing,
+    loadResults,
     resetProcessor
   } = useFileProcessor();
 
+  const {
+    applications,
+    isLoading: isHistoryLoading,
+    error: historyError,
+    refreshApplications,
+    openApplication,
+    deleteApplication
+  } = useApplicationHistory();
+
+  const { models, scoring } = useModelConfiguration();
+
+  const [applicant, setApplicant] = useState<ApplicantInfo>({ name: '', referenceNumber: '' });
+  const [scoringMode, setScoringMode] = useState<ScoringMode | null>(null);
+  const [loanRequest, setLoanRequest] = useState<LoanRequestInput>({
+    amount: null,
+    termMonths: null,
+    purpose: null,
+    productType: 'term_loan',
+    applicantType: 'individual',
+    collateralType: 'none',
+    collateralValue: null,
+    existingMonthlyDebt: null
+  });
+
   const showResults = results && processorState.currentStage === 'completed';
 
+  // Sent only once the amount and term are filled in
+  const submittedLoanRequest: LoanRequest | undefined = loanRequest.amount && loanRequest.termMonths
+    ? { ...loanRequest, amount: loanRequest.amount, termMonths: loanRequest.termMonths }
+    : undefined;
+
+  const {
+    review,
+    auditTrail,
+    reviewer,
+    setReviewer,
+    saveOverride,
+    changeStatus,
+    isSaving: isReviewSaving,
+    error: reviewError
+  } = useApplicationReview(showResults ? results.application?.id ?? null : null);
+
+  // A finished analysis is saved server-side, so pull it into the history list
+  useEffect(() => {
+    if (results) {
+      refreshApplications();
+    }
+  }, [results, refreshApplications]);
+
+  const handleOpenApplication = async (applicationId: string) => {
+    const application = await openApplication(applicationId);
+    if (application) {
+      loadResults(application.results);
+    }
+  };
+
+  const handleNewAnalysis = () => {
+    setApplicant({ name: '', referenceNumber: '' });
+    resetProcessor();
+  };
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-green-50">
       {/* Header */}
@@ -31,20 +111,39 @@ function App() {
               </div>
               <div>
                 <h1 className="text-2xl font-bold text-gray-900">CreditAnalyzer AI</h1>
-                <p className="text-sm text-gray-600">Powered by Ollama & qwen2.5vl:7b</p>
+                <p className="text-sm text-gray-600">
+                  Powered by {models ? `${models.provider === 'openai' ? 'local models' : 'Ollama'} & ${models.extraction}` : 'local AI models'}
+                </p>
               </div>
             </div>
             
-            {(isProcessing || showResults) && (
-              <button
-                onClick={resetProcessor}
-                className="flex items-center px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
-                disabled={isProcessing}
-              >
-                <RefreshCw className="w-4 h-4 mr-2" />
-                New Analysis
-              </button>
-            )}
+            <div className="flex items-center space-x-4">
+              {(isProcessing || showResults) && (
+                <button
+                  onClick={handleNewAnalysis}
+                  className="flex items-center px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+                  disabled={isProcessing}
+                >
+                  <RefreshCw className="w-4 h-4 mr-2" />
+                  New Analysis
+                </button>
+              )}
+
+              {user && (
+                <div className="flex items-center text-sm text-gray-600">
+                  <span>
+                    {user.displayName} <span className="text-gray-400">({user.role})</span>
+                  </span>
+                  <button
+                    onClick={logout}
+                    className="ml-3 p-2 text-gray-400 hover:text-gray-700 transition-colors"
+                    title="Sign out"
+                  >
+                    <LogOut className="w-4 h-4" />
+                  </button>
+                </div>
+              )}
+            </div>
           </div>
         </div>
       </header>
@@ -63,16 +162,44 @@ function App() {
               </p>
             </div>
 
-            <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-8 shadow-xl border border-gray-200">
+            <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-8 shadow-xl border border-gray-200 space-y-6">
+              <ApplicantDetailsForm
+                applicant={applicant}
+                onChange={setApplicant}
+                disabled={isProcessing}
+              />
+              <LoanRequestForm
+                value={loanRequest}
+                onChange={setLoanRequest}
+                disabled={isProcessing}
+              />
+              <ScoringModeSelector
+                scoring={scoring}
+                value={scoringMode}
+                onChange={setScoringMode}
+                disabled={isProcessing}
+              />
               <FileUpload
                 files={files}
                 onFilesAdd={addFiles}
                 onFileRemove={removeFile}
-                onUploadStart={startProcessing}
+                onDocumentTypeChange={setFileDocumentType}
+                onUnlock={unlockFile}
+                onUploadStart={() => startProcessing(applicant, scoringMode ?? undefined, submittedLoanRequest)}
                 isProcessing={isProcessing}
               />
             </div>
 
+            <div className="mt-8">
+              <ApplicationHistory
+                applications={applications}
+                isLoading={isHistoryLoading}
+                error={historyError}
+                onOpen={handleOpenApplication}
+                onDelete={can('admin') ? deleteApplication : undefined}
+              />
+            </div>
+
             {/* Features */}
             <div className="mt-16 grid grid-cols-1 md:grid-cols-3 gap-8">
               <div className="text-center p-6">
@@ -93,7 +220,7 @@ function App() {
                 </div>
                 <h3 className="text-lg font-semibold text-gray-900 mb-2">Ollama Integration</h3>
                 <p className="text-gray-600">
-                  Powered by qwen2.5vl:7b model for accurate financial data extraction
+                  Powered by {models?.extraction || 'a local vision'} model for accurate financial data extraction
                 </p>
               </div>
               
@@ -118,13 +245,30 @@ function App() {
               currentStage={processorState.currentStage}
               progress={processorState.progress}
               currentFile={processorState.currentFile}
+              files={processorState.files}
+              models={models}
+              onCancel={cancelProcessing}
             />
           </div>
         )}
 
         {showResults && results && (
-          <div className="max-w-7xl mx-auto">
-            <CreditReport results={results} />
+          <div className="max-w-7xl mx-auto space-y-8">
+            <CreditReport results={results} review={review} />
+            {review && (
+              <ReviewPanel
+                review={review}
+                auditTrail={auditTrail}
+                reviewer={user ? user.displayName : reviewer}
+                onReviewerChange={user ? undefined : setReviewer}
+                canReview={can('review')}
+                onOverride={saveOverride}
+                onStatusChange={changeStatus}
+                isSaving={isReviewSaving}
+                error={reviewError}
+              />
+            )}
+            {results.application && <ModelCallLogPanel applicationId={results.application.id} />}
           </div>
         )}
       </main>
@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { Banknote } from 'lucide-react';
+import { Affordability } from '../types';
+
+interface AffordabilityAnalysisProps {
+  affordability: Affordability;
+  baseCurrency?: string;
+}
+
+const STATUS = {
+  affordable: { label: 'Affordable as requested', className: 'bg-green-100 text-green-800' },
+  reduced: { label: 'Affordable at a lower amount', className: 'bg-yellow-100 text-yellow-800' },
+  unaffordable: { label: 'Not affordable', className: 'bg-red-100 text-red-800' },
+  insufficient_data: { label: 'Not enough income data', className: 'bg-gray-100 text-gray-600' }
+};
+
+const INCOME_SOURCES = {
+  payslips_and_tax_returns: 'payslips and tax returns',
+  bank_statements: 'bank statements',
+  financial_statements: 'financial statements'
+};
+
+// The requested loan, its repayment at the recommended rate and whether the
+// applicant can carry it under the debt-to-income or debt service coverage policy
+export const AffordabilityAnalysis: React.FC<AffordabilityAnalysisProps> = ({ affordability, baseCurrency = '$' }) => {
+  const [showSchedule, setShowSchedule] = useState(false);
+  const { loanRequest } = affordability;
+  const money = (value: number | null) => (value === null ? '-' : `${baseCurrency} ${value.toLocaleString()}`);
+  const status = STATUS[affordability.status];
+  const business = affordability.basis === 'debt_service_coverage';
+
+  const rows: [string, string][] = [
+    ['Requested', `${money(loanRequest.amount)} over ${loanRequest.termMonths} months`],
+    ['Product', `${loanRequest.productType.replace(/_/g, ' ')} (${loanRequest.applicantType})`],
+    ['Purpose', loanRequest.purpose ?? '-'],
+    ['Collateral', loanRequest.collateralType === 'none'
+      ? 'None'
+      : `${loanRequest.collateralType.replace(/_/g, ' ')}${
+        loanRequest.collateralValue !== null ? `, ${money(loanRequest.collateralValue)}` : ''
+      }${affordability.loanToValue !== null ? ` (LTV ${affordability.loanToValue}%)` : ''}`],
+    ['Monthly installment', `${money(affordability.installment)} at ${affordability.interestRate}% APR`],
+    ['Total interest', money(affordability.totalInterest)],
+    business
+      ? ['Cash for debt service / month', money(affordability.monthlyCashAvailable)]
+      : ['Gross income / month', money(affordability.monthlyIncome)],
+    ['Existing debt payments / month', money(affordability.existingMonthlyDebt)],
+    business
+      ? ['DSCR after loan', affordability.debtServiceCoverage !== null
+        ? `${affordability.debtServiceCoverage}x (min ${affordability.minDebtServiceCoverage}x)`
+        : '-']
+      : ['Debt-to-income after loan', affordability.debtToIncome !== null
+        ? `${affordability.debtToIncome}% (max ${affordability.maxDebtToIncome}%)`
+        : '-'],
+    ['Affordable amount', money(affordability.recommendedAmount)]
+  ];
+
+  return (
+    <div className="bg-white rounded-xl p-8 shadow-lg border border-gray-200">
+      <div className="flex items-center justify-between mb-6">
+        <h3 className="text-xl font-bold text-gray-800 flex items-center">
+          <Banknote className="w-5 h-5 mr-2 text-gray-500" />
+          Loan Request and Affordability
+        </h3>
+        <span className={`text-xs px-3 py-1 rounded-full ${status.className}`}>{status.label}</span>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-2 text-sm">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between border-b border-gray-100 py-1">
+            <span className="text-gray-600">{label}</span>
+            <span className="font-medium text-gray-800 text-right">{value}</span>
+          </div>
+        ))}
+      </div>
+
+      {affordability.incomeSource && (
+        <p className="mt-3 text-xs text-gray-500">
+          Income taken from {INCOME_SOURCES[affordability.incomeSource]}.
+        </p>
+      )}
+
+      <button
+        type="button"
+        onClick={() => setShowSchedule(!showSchedule)}
+        className="mt-4 text-sm text-blue-600 hover:text-blue-800"
+      >
+        {showSchedule ? 'Hide' : 'Show'} installment schedule ({affordability.schedule.length} payments)
+      </button>
+
+      {showSchedule && (
+        <div className="mt-3 max-h-72 overflow-y-auto">
+          <table className="w-full text-xs">
+            <thead className="sticky top-0 bg-white">
+              <tr className="text-left text-gray-500">
+                <th className="font-normal py-1">Month</th>
+                <th className="font-normal text-right">Payment</th>
+                <th className="font-normal text-right">Principal</th>
+                <th className="font-normal text-right">Interest</th>
+                <th className="font-normal text-right">Balance</th>
+              </tr>
+            </thead>
+            <tbody>
+              {affordability.schedule.map(row => (
+                <tr key={row.month} className="border-t border-gray-100">
+                  <td className="py-1">{row.month}</td>
+                  <td className="text-right">{row.payment.toLocaleString()}</td>
+                  <td className="text-right">{row.principal.toLocaleString()}</td>
+                  <td className="text-right">{row.interest.toLocaleString()}</td>
+                  <td className="text-right">{row.balance.toLocaleString()}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
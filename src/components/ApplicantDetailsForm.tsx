@@ -0,0 +1,54 @@
+import React from 'react';
+import { User, Hash } from 'lucide-react';
+import { ApplicantInfo } from '../types';
+
+interface ApplicantDetailsFormProps {
+  applicant: ApplicantInfo;
+  onChange: (applicant: ApplicantInfo) => void;
+  disabled?: boolean;
+}
+
+export const ApplicantDetailsForm: React.FC<ApplicantDetailsFormProps> = ({
+  applicant,
+  onChange,
+  disabled = false
+}) => {
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+      <div>
+        <label htmlFor="applicant-name" className="block text-sm font-medium text-gray-700 mb-1">
+          Applicant Name
+        </label>
+        <div className="relative">
+          <User className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            id="applicant-name"
+            type="text"
+            value={applicant.name}
+            onChange={(e) => onChange({ ...applicant, name: e.target.value })}
+            disabled={disabled}
+            placeholder="e.g. Acme Trading Ltd"
+            className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+          />
+        </div>
+      </div>
+      <div>
+        <label htmlFor="applicant-reference" className="block text-sm font-medium text-gray-700 mb-1">
+          Reference Number
+        </label>
+        <div className="relative">
+          <Hash className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+          <input
+            id="applicant-reference"
+            type="text"
+            value={applicant.referenceNumber}
+            onChange={(e) => onChange({ ...applicant, referenceNumber: e.target.value })}
+            disabled={disabled}
+            placeholder="Generated automatically if left blank"
+            className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
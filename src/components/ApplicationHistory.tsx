@@ -0,0 +1,100 @@
+import React from 'react';
+import { History, FolderOpen, Trash2, Loader2 } from 'lucide-react';
+import { ApplicationSummary } from '../types';
+
+interface ApplicationHistoryProps {
+  applications: ApplicationSummary[];
+  isLoading: boolean;
+  error?: string | null;
+  onOpen: (applicationId: string) => void;
+  onDelete?: (applicationId: string) => void; // Omitted for callers who may not delete
+}
+
+export const ApplicationHistory: React.FC<ApplicationHistoryProps> = ({
+  applications,
+  isLoading,
+  error,
+  onOpen,
+  onDelete
+}) => {
+  const getRiskColor = (risk: string | null) => {
+    switch (risk) {
+      case 'Low':
+        return 'text-green-600 bg-green-100';
+      case 'Medium':
+        return 'text-yellow-600 bg-yellow-100';
+      case 'High':
+        return 'text-red-600 bg-red-100';
+      default:
+        return 'text-gray-600 bg-gray-100';
+    }
+  };
+
+  const handleDelete = (application: ApplicationSummary) => {
+    if (onDelete && confirm(`Delete the assessment for ${application.applicantName} (${application.referenceNumber})?`)) {
+      onDelete(application.id);
+    }
+  };
+
+  return (
+    <div className="bg-white/70 backdrop-blur-sm rounded-2xl p-8 shadow-xl border border-gray-200">
+      <div className="flex items-center mb-6">
+        <History className="w-6 h-6 text-blue-600 mr-3" />
+        <h3 className="text-xl font-bold text-gray-800">Assessment History</h3>
+        {isLoading && <Loader2 className="w-4 h-4 text-gray-400 animate-spin ml-3" />}
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 mb-4">Could not load history: {error}</p>
+      )}
+
+      {!isLoading && !error && applications.length === 0 && (
+        <p className="text-sm text-gray-500">No saved assessments yet.</p>
+      )}
+
+      {applications.length > 0 && (
+        <div className="divide-y divide-gray-200">
+          {applications.map(application => (
+            <div key={application.id} className="flex items-center justify-between py-3">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{application.applicantName}</p>
+                <p className="text-xs text-gray-500">
+                  {application.referenceNumber} · {new Date(application.createdAt).toLocaleString()} · {application.documentCount} document{application.documentCount !== 1 ? 's' : ''}
+                </p>
+              </div>
+              {application.score !== null && (
+                <div className="text-sm font-semibold text-gray-800 mx-4">{application.score}</div>
+              )}
+              {application.riskLevel && (
+                <span className={`text-xs px-2 py-1 rounded-full ${getRiskColor(application.riskLevel)}`}>
+                  {application.riskLevel} Risk
+                </span>
+              )}
+              {application.reviewStatus !== 'draft' && (
+                <span className="ml-2 text-xs px-2 py-1 rounded-full text-gray-700 bg-gray-100">
+                  {application.reviewStatus.replace('_', ' ')}
+                </span>
+              )}
+              <button
+                onClick={() => onOpen(application.id)}
+                className="ml-4 p-1 text-gray-400 hover:text-blue-600 transition-colors"
+                title="Open report"
+              >
+                <FolderOpen className="w-5 h-5" />
+              </button>
+              {onDelete && (
+                <button
+                  onClick={() => handleDelete(application)}
+                  className="ml-2 p-1 text-gray-400 hover:text-red-500 transition-colors"
+                  title="Delete assessment"
+                >
+                  <Trash2 className="w-5 h-5" />
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
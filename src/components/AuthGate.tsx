@@ -0,0 +1,36 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { AuthUser, Permission } from '../types';
+import { useAuth } from '../hooks/useAuth';
+import { LoginForm } from './LoginForm';
+
+export interface AuthSession {
+  user: AuthUser | null;
+  can: (permission: Permission) => boolean;
+  logout: () => void;
+}
+
+interface AuthGateProps {
+  children: (session: AuthSession) => React.ReactNode;
+}
+
+// Shows the sign-in form until the server accepts the session, so the app
+// itself only mounts (and starts loading data) once signed in
+export const AuthGate: React.FC<AuthGateProps> = ({ children }) => {
+  const { user, isSignedIn, can, isLoading, isSigningIn, error, login, logout } = useAuth();
+
+  if (isSignedIn) {
+    return <>{children({ user, can, logout })}</>;
+  }
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 text-blue-600 animate-spin" />
+      </div>
+    );
+  }
+
+  // Also shown when the server couldn't be reached; signing in asks again
+  return <LoginForm onLogin={login} isSigningIn={isSigningIn} error={error} />;
+};
@@ -0,0 +1,97 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { FinancialMetrics, ProcessingResult } from '../types';
+
+interface ConvertedAmountsProps {
+  file: ProcessingResult;
+}
+
+const MONEY_METRICS: { field: keyof FinancialMetrics; label: string }[] = [
+  { field: 'accountBalance', label: 'Account balance' },
+  { field: 'monthlyIncome', label: 'Monthly income' },
+  { field: 'monthlyExpenses', label: 'Monthly expenses' },
+  { field: 'averageDailyBalance', label: 'Avg. daily balance' },
+  { field: 'annualRevenue', label: 'Annual revenue' },
+  { field: 'netProfit', label: 'Net profit' },
+  { field: 'totalAssets', label: 'Total assets' },
+  { field: 'totalLiabilities', label: 'Total liabilities' },
+  { field: 'cashFlow', label: 'Cash flow' },
+  { field: 'netMonthlyIncome', label: 'Net monthly income' },
+  { field: 'annualIncome', label: 'Annual income' },
+  { field: 'taxableIncome', label: 'Taxable income' },
+  { field: 'totalTax', label: 'Total tax' },
+  { field: 'totalInvoiced', label: 'Total invoiced' },
+  { field: 'outstandingReceivables', label: 'Outstanding receivables' },
+  { field: 'overdueReceivables', label: 'Overdue receivables' }
+];
+
+const DETECTED_FROM = {
+  document: 'stated on the document',
+  amounts: 'printed with the amounts',
+  page_text: 'found in the page text'
+};
+
+const formatMoney = (value: number | null | undefined, code: string) =>
+  typeof value === 'number' ? `${code} ${value.toLocaleString()}` : '-';
+
+// The document's currency and its monetary figures as printed next to their
+// value in the base currency
+export const ConvertedAmounts: React.FC<ConvertedAmountsProps> = ({ file }) => {
+  const { currency, financialMetrics, originalFinancialMetrics } = file.extractedData;
+  if (!currency) {
+    return null;
+  }
+
+  const converted = currency.code !== currency.baseCurrency;
+  const rows = MONEY_METRICS.filter(({ field }) =>
+    typeof (originalFinancialMetrics ?? financialMetrics)?.[field] === 'number'
+  );
+
+  return (
+    <div className="mt-3 text-xs text-gray-600 space-y-1">
+      <div>
+        Currency: <span className="font-medium">{currency.code}</span>{' '}
+        {currency.detectedFrom
+          ? `(${DETECTED_FROM[currency.detectedFrom]})`
+          : `(not shown, assumed ${currency.baseCurrency})`}
+      </div>
+
+      {converted && currency.rate !== null && (
+        <div>
+          1 {currency.code} = {currency.rate} {currency.baseCurrency}
+          {currency.rateDate && <> · rate of {currency.rateDate}</>}
+        </div>
+      )}
+
+      {converted && currency.rate === null && (
+        <div className="flex items-start text-yellow-700">
+          <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+          <span>No {currency.code} rate configured; amounts are not included in scoring</span>
+        </div>
+      )}
+
+      {converted && rows.length > 0 && (
+        <table className="w-full mt-1">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="font-normal"></th>
+              <th className="font-normal text-right">{currency.code}</th>
+              <th className="font-normal text-right">{currency.baseCurrency}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ field, label }) => (
+              <tr key={field}>
+                <td>{label}</td>
+                <td className="text-right">{formatMoney(originalFinancialMetrics?.[field], currency.code)}</td>
+                <td className="text-right font-medium">
+                  {formatMoney(financialMetrics?.[field], currency.baseCurrency)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -1,13 +1,32 @@
 import React from 'react';
-import { TrendingUp, TrendingDown, AlertTriangle, CheckCircle, DollarSign, Percent } from 'lucide-react';
-import { AnalysisResults } from '../types';
+import { TrendingUp, TrendingDown, AlertTriangle, CheckCircle, DollarSign, Percent, GitCompare, Download } from 'lucide-react';
+import { AnalysisResults, ApplicationReview, ProcessingResult } from '../types';
+import { useCreditMemoExport } from '../hooks/useCreditMemoExport';
+import { ExtractedFigures } from './ExtractedFigures';
+import { ConvertedAmounts } from './ConvertedAmounts';
+import { FinancialStatements } from './FinancialStatements';
+import { SupportingDocumentDetails } from './SupportingDocumentDetails';
+import { AffordabilityAnalysis } from './AffordabilityAnalysis';
 
 interface CreditReportProps {
   results: AnalysisResults;
+  review?: ApplicationReview | null;
 }
 
-export const CreditReport: React.FC<CreditReportProps> = ({ results }) => {
-  const { creditRecommendation, files, overallRisk, confidence } = results;
+export const CreditReport: React.FC<CreditReportProps> = ({ results, review }) => {
+  const { files, overallRisk, confidence, application, scorecard, modelInfo, reconciliation } = results;
+  const { exportCreditMemo, exportingFormat } = useCreditMemoExport();
+
+  // Underwriter overrides replace the model's figures; the originals stay visible
+  const overrides = review?.overrides ?? {};
+  const creditRecommendation = {
+    ...results.creditRecommendation,
+    ...Object.fromEntries(Object.entries(overrides).map(([field, override]) => [field, override.value]))
+  };
+
+  // Cash-flow figures are in the statement's own currency
+  const currencyPrefix = (file: ProcessingResult) =>
+    file.extractedData.currency ? `${file.extractedData.currency.code} ` : '$';
 
   const getRatingColor = (rating: string) => {
     switch (rating) {
@@ -55,10 +74,38 @@ export const CreditReport: React.FC<CreditReportProps> = ({ results }) => {
             <p className="text-blue-100">
               AI-powered analysis of {files.length} financial document{files.length !== 1 ? 's' : ''}
             </p>
+            {application && (
+              <p className="text-sm text-blue-100 mt-1">
+                {application.applicantName} · Ref {application.referenceNumber} · {new Date(application.createdAt).toLocaleString()}
+              </p>
+            )}
           </div>
           <div className="text-right">
             <div className="text-4xl font-bold mb-1">{creditRecommendation.score}</div>
             <div className="text-sm text-blue-100">Credit Score</div>
+            {overrides.score && (
+              <div className="text-xs text-blue-100">Overridden · AI: {overrides.score.originalValue ?? '-'}</div>
+            )}
+            {application && (
+              <div className="flex justify-end gap-2 mt-4">
+                <button
+                  onClick={() => exportCreditMemo(application, 'pdf')}
+                  disabled={exportingFormat !== null}
+                  className="flex items-center px-3 py-1.5 bg-white/20 hover:bg-white/30 rounded-lg text-sm transition-colors disabled:opacity-60"
+                >
+                  <Download className="w-4 h-4 mr-1" />
+                  {exportingFormat === 'pdf' ? 'Exporting...' : 'Credit Memo (PDF)'}
+                </button>
+                <button
+                  onClick={() => exportCreditMemo(application, 'json')}
+                  disabled={exportingFormat !== null}
+                  className="flex items-center px-3 py-1.5 bg-white/20 hover:bg-white/30 rounded-lg text-sm transition-colors disabled:opacity-60"
+                >
+                  <Download className="w-4 h-4 mr-1" />
+                  {exportingFormat === 'json' ? 'Exporting...' : 'JSON'}
+                </button>
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -113,6 +160,11 @@ export const CreditReport: React.FC<CreditReportProps> = ({ results }) => {
                 <div>
                   <div className="font-semibold text-green-800">Recommended Credit Limit</div>
                   <div className="text-green-600">${creditRecommendation.maxCreditLimit.toLocaleString()}</div>
+                  {overrides.maxCreditLimit && (
+                    <div className="text-xs text-gray-500">
+                      Overridden · AI: {overrides.maxCreditLimit.originalValue !== null ? `$${overrides.maxCreditLimit.originalValue.toLocaleString()}` : '-'}
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -123,6 +175,11 @@ export const CreditReport: React.FC<CreditReportProps> = ({ results }) => {
                 <div>
                   <div className="font-semibold text-blue-800">Suggested Interest Rate</div>
                   <div className="text-blue-600">{creditRecommendation.interestRate}% APR</div>
+                  {overrides.interestRate && (
+                    <div className="text-xs text-gray-500">
+                      Overridden · AI: {overrides.interestRate.originalValue !== null ? `${overrides.interestRate.originalValue}%` : '-'}
+                    </div>
+                  )}
                 </div>
               </div>
             )}
@@ -163,6 +220,114 @@ export const CreditReport: React.FC<CreditReportProps> = ({ results }) => {
         </div>
       </div>
 
+      {creditRecommendation.affordability && (
+        <AffordabilityAnalysis
+          affordability={creditRecommendation.affordability}
+          baseCurrency={results.documentSummary?.baseCurrency}
+        />
+      )}
+
+      {/* Cross-Document Consistency */}
+      {reconciliation && (
+        <div className="bg-white rounded-xl p-8 shadow-lg border border-gray-200">
+          <h3 className="text-xl font-bold text-gray-800 mb-6 flex items-center">
+            <GitCompare className="w-5 h-5 mr-2 text-gray-500" />
+            Cross-Document Consistency
+          </h3>
+
+          <div className="flex flex-wrap gap-2 mb-6">
+            {reconciliation.checks.map(check => (
+              <span
+                key={check.check}
+                className={`text-xs px-3 py-1 rounded-full ${
+                  check.status === 'consistent'
+                    ? 'bg-green-100 text-green-800'
+                    : check.status === 'discrepancy'
+                      ? 'bg-red-100 text-red-800'
+                      : 'bg-gray-100 text-gray-600'
+                }`}
+              >
+                {check.label}: {check.status === 'insufficient_data' ? 'not enough data' : check.status}
+              </span>
+            ))}
+          </div>
+
+          {reconciliation.discrepancies.length > 0 ? (
+            <ul className="space-y-3">
+              {reconciliation.discrepancies.map((discrepancy, index) => (
+                <li key={index} className="flex items-start p-3 rounded-lg bg-red-50">
+                  <AlertTriangle className={`w-5 h-5 mr-2 mt-0.5 flex-shrink-0 ${
+                    discrepancy.severity === 'high' ? 'text-red-500' : 'text-yellow-500'
+                  }`} />
+                  <div>
+                    <div className="text-sm text-gray-800">{discrepancy.message}</div>
+                    <div className="text-xs text-gray-500 mt-1">
+                      {discrepancy.severity} severity · {discrepancy.values.map(value => value.fileName).join(', ')}
+                    </div>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-600">No discrepancies found between documents.</p>
+          )}
+        </div>
+      )}
+
+      {/* Scorecard Breakdown */}
+      {scorecard && (
+        <div className="bg-white rounded-xl p-8 shadow-lg border border-gray-200">
+          <div className="flex items-center justify-between mb-6">
+            <h3 className="text-xl font-bold text-gray-800">Scorecard Breakdown</h3>
+            <span className="text-sm text-gray-500">
+              {scorecard.name} v{scorecard.version}
+              {modelInfo?.scoringMode === 'llm' && !modelInfo.error && ' · shown for reference'}
+            </span>
+          </div>
+
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b border-gray-200">
+                <th className="py-2 font-medium">Variable</th>
+                <th className="py-2 font-medium">Value</th>
+                <th className="py-2 font-medium">Bin</th>
+                <th className="py-2 font-medium text-right">Points</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr className="border-b border-gray-100">
+                <td className="py-2 text-gray-700">Base score</td>
+                <td className="py-2 text-gray-500">-</td>
+                <td className="py-2 text-gray-500">-</td>
+                <td className="py-2 text-right text-gray-700">{scorecard.baseScore}</td>
+              </tr>
+              {scorecard.contributions.map(contribution => (
+                <tr key={contribution.variable} className="border-b border-gray-100">
+                  <td className="py-2 text-gray-700">{contribution.label}</td>
+                  <td className="py-2 text-gray-600">
+                    {contribution.value === null ? 'Not available' : contribution.value.toLocaleString()}
+                  </td>
+                  <td className="py-2 text-gray-600">{contribution.bin}</td>
+                  <td className={`py-2 text-right font-medium ${
+                    contribution.points > 0 ? 'text-green-600' : contribution.points < 0 ? 'text-red-600' : 'text-gray-500'
+                  }`}>
+                    {contribution.points > 0 ? `+${contribution.points}` : contribution.points}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <td className="pt-3 font-semibold text-gray-800" colSpan={3}>
+                  Scorecard score ({scorecard.rating}, {scorecard.riskLevel} risk)
+                </td>
+                <td className="pt-3 text-right font-semibold text-gray-800">{scorecard.score}</td>
+              </tr>
+            </tfoot>
+          </table>
+        </div>
+      )}
+
       {/* Document Analysis */}
       <div className="bg-white rounded-xl p-8 shadow-lg border border-gray-200">
         <h3 className="text-xl font-bold text-gray-800 mb-6">Document Analysis Summary</h3>
@@ -178,10 +343,66 @@ export const CreditReport: React.FC<CreditReportProps> = ({ results }) => {
               </div>
               
               <div className="text-sm text-gray-600 mb-2">
-                <div>Images processed: {file.imageCount}</div>
+                {file.classification && (
+                  <div>
+                    Type: {file.classification.source === 'user'
+                      ? 'selected by user'
+                      : `detected (${file.classification.confidence}% confidence)`}
+                  </div>
+                )}
+                {file.pages ? (
+                  <div>
+                    Pages: {file.pages.filter(page => page.source === 'text_layer').length} from text layer,
+                    {' '}{file.imageCount} via vision model
+                    {file.pages.some(page => page.fromCache) && (
+                      <>, {file.pages.filter(page => page.fromCache).length} reused from cache</>
+                    )}
+                  </div>
+                ) : (
+                  <div>Images processed: {file.imageCount}</div>
+                )}
                 <div>Processing time: {file.processingTime}s</div>
               </div>
 
+              {file.pages?.some(page => page.status === 'failed') && (
+                <div className="mb-2 text-xs text-red-600 space-y-1">
+                  {file.pages.filter(page => page.status === 'failed').map(page => (
+                    <div key={page.pageNumber} className="flex items-start">
+                      <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+                      <span>Page {page.pageNumber} not extracted: {page.error}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {file.extractedData.cashFlow && (
+                <div className="mt-3 text-xs text-gray-600 space-y-1">
+                  <div className="font-semibold text-gray-700">
+                    Cash Flow ({file.extractedData.cashFlow.periodStart} to {file.extractedData.cashFlow.periodEnd}):
+                  </div>
+                  <div>
+                    Avg. monthly in/out: {currencyPrefix(file)}{file.extractedData.cashFlow.averageMonthlyInflows.toLocaleString()}
+                    {' / '}{currencyPrefix(file)}{file.extractedData.cashFlow.averageMonthlyOutflows.toLocaleString()}
+                  </div>
+                  {file.extractedData.cashFlow.averageDailyBalance !== null && (
+                    <div>Avg. daily balance: {currencyPrefix(file)}{file.extractedData.cashFlow.averageDailyBalance.toLocaleString()}</div>
+                  )}
+                  <div>
+                    NSF: {file.extractedData.cashFlow.nsfCount} · Overdrafts: {file.extractedData.cashFlow.overdraftCount}
+                    {' · '}Income regularity: {file.extractedData.cashFlow.incomeRegularity.score}/100
+                  </div>
+                  <div>Transactions: {file.extractedData.cashFlow.transactionCount}</div>
+                </div>
+              )}
+
+              <FinancialStatements file={file} />
+
+              <SupportingDocumentDetails file={file} />
+
+              <ConvertedAmounts file={file} />
+
+              <ExtractedFigures file={file} />
+
               {file.extractedData.riskFactors.length > 0 && (
                 <div className="mt-3">
                   <div className="text-xs font-semibold text-gray-700 mb-1">Risk Factors:</div>
@@ -0,0 +1,80 @@
+import React, { useState } from 'react';
+import { AlertTriangle, FileSearch } from 'lucide-react';
+import { FinancialMetrics, ProcessingResult } from '../types';
+import { SourcePageViewer } from './SourcePageViewer';
+
+interface ExtractedFiguresProps {
+  file: ProcessingResult;
+}
+
+// "annualRevenue" -> "Annual revenue"
+const formatFieldName = (field: string) => {
+  const words = field.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+const formatValue = (value: unknown) => {
+  if (typeof value === 'number') return value.toLocaleString();
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+};
+
+// Extracted values with the page they came from; clicking one opens the source page
+export const ExtractedFigures: React.FC<ExtractedFiguresProps> = ({ file }) => {
+  const [selectedField, setSelectedField] = useState<string | null>(null);
+  const { keyInformation, financialMetrics, originalFinancialMetrics, provenance = {} } = file.extractedData;
+  // Figures as printed on the source page, i.e. before currency conversion
+  const metrics = originalFinancialMetrics ?? financialMetrics;
+
+  const figures = Object.entries(provenance)
+    .map(([field, fieldProvenance]) => {
+      const value = keyInformation[field] ?? metrics?.[field as keyof FinancialMetrics];
+      return { field, provenance: fieldProvenance, value };
+    })
+    .filter(figure => figure.value !== undefined && figure.value !== null);
+
+  if (figures.length === 0) {
+    return null;
+  }
+
+  const selected = figures.find(figure => figure.field === selectedField);
+
+  return (
+    <div className="mt-3">
+      <div className="text-xs font-semibold text-gray-700 mb-1">Extracted Figures:</div>
+      <ul className="text-xs text-gray-600 space-y-1">
+        {figures.map(figure => (
+          <li key={figure.field}>
+            <button
+              onClick={() => setSelectedField(figure.field)}
+              className="w-full flex items-center justify-between text-left hover:text-blue-600 transition-colors"
+              title="Show source page"
+            >
+              <span className="truncate">
+                {formatFieldName(figure.field)}: <span className="font-medium">{formatValue(figure.value)}</span>
+              </span>
+              <span className="flex items-center ml-2 text-gray-400 whitespace-nowrap">
+                {figure.provenance.conflicts.length > 0 && (
+                  <AlertTriangle className="w-3 h-3 mr-1 text-yellow-500" />
+                )}
+                <FileSearch className="w-3 h-3 mr-1" />
+                p.{figure.provenance.pageNumber}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+
+      {selected && (
+        <SourcePageViewer
+          fileId={file.fileId}
+          fileName={file.fileName}
+          label={formatFieldName(selected.field)}
+          value={formatValue(selected.value)}
+          provenance={selected.provenance}
+          onClose={() => setSelectedField(null)}
+        />
+      )}
+    </div>
+  );
+};
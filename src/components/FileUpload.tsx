@@ -1,11 +1,35 @@
 import React, { useCallback, useState } from 'react';
-import { Upload, File, X, CheckCircle, AlertCircle, Loader2 } from 'lucide-react';
-import { UploadedFile } from '../types';
+import { Upload, File, X, CheckCircle, AlertCircle, AlertTriangle, Loader2, Lock } from 'lucide-react';
+import { UploadedFile, DocumentType, UploadErrorCode } from '../types';
+
+const DOCUMENT_TYPE_OPTIONS: { value: DocumentType; label: string }[] = [
+  { value: 'bank_statement', label: 'Bank statement' },
+  { value: 'financial', label: 'Financial statement' },
+  { value: 'legal', label: 'Legal document' },
+  { value: 'payslip', label: 'Payslip' },
+  { value: 'tax_return', label: 'Tax return' },
+  { value: 'invoice', label: 'Invoices / receivables' },
+  { value: 'identity', label: 'Identity document' },
+  { value: 'unknown', label: 'Other / unknown' }
+];
+
+const UPLOAD_ERROR_LABELS: Record<UploadErrorCode, string> = {
+  UNSUPPORTED_FILE_TYPE: 'Unsupported file type',
+  UNRECOGNIZED_CONTENT: 'Not a PDF or image',
+  CONTENT_TYPE_MISMATCH: 'Content does not match file type',
+  EMPTY_FILE: 'Empty file',
+  FILE_TOO_LARGE: 'File too large',
+  TOO_MANY_FILES: 'Too many files',
+  NO_FILES: 'No files received',
+  UPLOAD_FAILED: 'Upload failed'
+};
 
 interface FileUploadProps {
   files: UploadedFile[];
   onFilesAdd: (files: File[]) => void;
   onFileRemove: (fileId: string) => void;
+  onDocumentTypeChange: (fileId: string, documentType: DocumentType | undefined) => void;
+  onUnlock: (fileId: string, password: string) => void;
   onUploadStart: () => void;
   isProcessing: boolean;
 }
@@ -14,10 +38,14 @@ export const FileUpload: React.FC<FileUploadProps> = ({
   files,
   onFilesAdd,
   onFileRemove,
+  onDocumentTypeChange,
+  onUnlock,
   onUploadStart,
   isProcessing
 }) => {
   const [isDragOver, setIsDragOver] = useState(false);
+  // Passwords being typed, by file id; cleared once submitted
+  const [passwordInputs, setPasswordInputs] = useState<Record<string, string>>({});
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
     e.preventDefault();
@@ -57,6 +85,110 @@ export const FileUpload: React.FC<FileUploadProps> = ({
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  const isClassifying = files.some(f => f.classificationStatus === 'classifying');
+  const isLocked = files.some(f => f.passwordStatus && f.passwordStatus !== 'unlocked' && !f.uploadError);
+
+  const handleUnlock = (e: React.FormEvent, fileId: string) => {
+    e.preventDefault();
+    const password = passwordInputs[fileId];
+    if (!password) return;
+
+    onUnlock(fileId, password);
+    setPasswordInputs(prev => ({ ...prev, [fileId]: '' }));
+  };
+
+  // Encrypted PDFs ask for their password before they can be classified or processed
+  const renderPasswordPrompt = (file: UploadedFile) => (
+    <form onSubmit={(e) => handleUnlock(e, file.id)} className="mt-1 flex items-center space-x-2">
+      <Lock className="w-3 h-3 text-gray-500 flex-shrink-0" />
+      <input
+        type="password"
+        autoComplete="off"
+        value={passwordInputs[file.id] || ''}
+        onChange={(e) => setPasswordInputs(prev => ({ ...prev, [file.id]: e.target.value }))}
+        disabled={isProcessing || file.passwordStatus === 'checking'}
+        placeholder="PDF password"
+        aria-label={`Password for ${file.name}`}
+        className="text-xs border border-gray-300 rounded-md px-2 py-1 w-40"
+      />
+      <button
+        type="submit"
+        disabled={isProcessing || file.passwordStatus === 'checking' || !passwordInputs[file.id]}
+        className="text-xs px-2 py-1 bg-gray-800 text-white rounded-md hover:bg-gray-900 disabled:opacity-50"
+      >
+        {file.passwordStatus === 'checking' ? 'Checking...' : 'Unlock'}
+      </button>
+      <span className={`text-xs ${file.passwordStatus === 'incorrect' ? 'text-red-600' : 'text-gray-500'}`}>
+        {file.passwordStatus === 'incorrect' ? 'Incorrect password' : 'Password protected'}
+      </span>
+    </form>
+  );
+
+  const renderDocumentType = (file: UploadedFile) => {
+    if (file.classificationStatus === 'classifying') {
+      return (
+        <span className="flex items-center text-xs text-gray-500">
+          <Loader2 className="w-3 h-3 mr-1 animate-spin" />
+          Detecting type...
+        </span>
+      );
+    }
+
+    const { classification } = file;
+    const isOverridden = classification && file.documentType && file.documentType !== classification.documentType;
+
+    return (
+      <div className="flex items-center space-x-2">
+        <select
+          value={file.documentType || ''}
+          onChange={(e) => onDocumentTypeChange(file.id, (e.target.value || undefined) as DocumentType | undefined)}
+          disabled={isProcessing || file.status !== 'pending'}
+          className="text-xs border border-gray-300 rounded-md px-2 py-1 bg-white disabled:bg-gray-100"
+        >
+          <option value="">Detect automatically</option>
+          {DOCUMENT_TYPE_OPTIONS.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+        {classification && !classification.error && (
+          <span className={`text-xs ${isOverridden ? 'text-gray-400 line-through' : 'text-gray-500'}`}>
+            Detected: {(classification.detectedType || classification.documentType).replace('_', ' ')} ({classification.confidence}%)
+          </span>
+        )}
+        {file.classificationStatus === 'failed' && (
+          <span className="text-xs text-yellow-600">Detection unavailable</span>
+        )}
+      </div>
+    );
+  };
+
+  // Same content as another file in the list, or as a document of a saved assessment
+  const renderDuplicates = (file: UploadedFile) => {
+    const sha256 = file.serverFile?.sha256;
+    if (!sha256) return null;
+
+    const siblings = files.filter(other => other.id !== file.id && other.serverFile?.sha256 === sha256);
+    const saved = (file.serverFile?.duplicates || []).filter(duplicate => duplicate.source === 'application');
+    if (siblings.length === 0 && saved.length === 0) return null;
+
+    return (
+      <div className="mt-1 space-y-0.5">
+        {siblings.length > 0 && (
+          <p className="flex items-center text-xs text-yellow-700">
+            <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
+            Same content as {siblings.map(other => other.name).join(', ')}
+          </p>
+        )}
+        {saved.map(duplicate => (
+          <p key={`${duplicate.applicationId}-${duplicate.fileName}`} className="flex items-center text-xs text-yellow-700">
+            <AlertTriangle className="w-3 h-3 mr-1 flex-shrink-0" />
+            Already submitted as {duplicate.fileName} for {duplicate.applicantName} ({duplicate.referenceNumber})
+          </p>
+        ))}
+      </div>
+    );
+  };
+
   const getStatusIcon = (status: UploadedFile['status'], progress: number) => {
     switch (status) {
       case 'completed':
@@ -131,6 +263,16 @@ export const FileUpload: React.FC<FileUploadProps> = ({
                   <div className="ml-3 flex-1">
                     <p className="text-sm font-medium text-gray-900">{file.name}</p>
                     <p className="text-xs text-gray-500">{formatFileSize(file.size)}</p>
+                    {file.uploadError ? (
+                      <p className="mt-1 text-xs text-red-600">
+                        {UPLOAD_ERROR_LABELS[file.uploadError.code as UploadErrorCode] || 'Rejected'}: {file.uploadError.message}
+                      </p>
+                    ) : file.passwordStatus && file.passwordStatus !== 'unlocked' ? (
+                      renderPasswordPrompt(file)
+                    ) : (
+                      <div className="mt-1">{renderDocumentType(file)}</div>
+                    )}
+                    {renderDuplicates(file)}
                     {file.status === 'processing' && (
                       <div className="mt-2">
                         <div className="w-full bg-gray-200 rounded-full h-2">
@@ -139,7 +281,9 @@ export const FileUpload: React.FC<FileUploadProps> = ({
                             style={{ width: `${file.progress}%` }}
                           />
                         </div>
-                        <p className="text-xs text-gray-500 mt-1">{file.progress}% processed</p>
+                        <p className="text-xs text-gray-500 mt-1">
+                          {file.progress}% processed{file.currentStep ? ` · ${file.currentStep}` : ''}
+                        </p>
                       </div>
                     )}
                   </div>
@@ -159,9 +303,10 @@ export const FileUpload: React.FC<FileUploadProps> = ({
           {files.length > 0 && !isProcessing && files.some(f => f.status === 'pending') && (
             <button
               onClick={onUploadStart}
-              className="w-full bg-green-600 text-white py-3 px-6 rounded-lg font-semibold hover:bg-green-700 transition-colors"
+              disabled={isClassifying || isLocked}
+              className="w-full bg-green-600 text-white py-3 px-6 rounded-lg font-semibold hover:bg-green-700 transition-colors disabled:bg-gray-300 disabled:cursor-not-allowed"
             >
-              Start Credit Analysis
+              {isClassifying ? 'Detecting Document Types...' : isLocked ? 'Enter PDF Passwords to Continue' : 'Start Credit Analysis'}
             </button>
           )}
         </div>
@@ -0,0 +1,79 @@
+import React from 'react';
+import { ProcessingResult } from '../types';
+
+interface FinancialStatementsProps {
+  file: ProcessingResult;
+}
+
+const BASIS = {
+  reported: 'reported annual figures',
+  aggregated: 'shorter periods added up to a year',
+  annualized: 'extrapolated from a shorter period',
+  balance_sheet_only: 'balance sheet only'
+};
+
+const percent = (value: number | null) => (value === null ? '-' : `${value}%`);
+const times = (value: number | null) => (value === null ? '-' : `${value}x`);
+const amount = (value: number | undefined) => (value === undefined ? '-' : value.toLocaleString());
+
+// Ratios of the latest reporting period and the figures of every period read
+export const FinancialStatements: React.FC<FinancialStatementsProps> = ({ file }) => {
+  const { ratios, periods = [] } = file.extractedData;
+  if (!ratios) {
+    return null;
+  }
+
+  const rows: [string, string][] = [
+    ['Gross margin', percent(ratios.grossMargin)],
+    ['Operating margin', percent(ratios.operatingMargin)],
+    ['Net margin', percent(ratios.netMargin)],
+    ['Current ratio', times(ratios.currentRatio)],
+    ['Debt to equity', times(ratios.debtToEquity)],
+    ['Debt to assets', times(ratios.debtToAssets)],
+    ['Debt service coverage', times(ratios.debtServiceCoverage)],
+    [`Revenue growth${ratios.priorPeriodEnd ? ` vs ${ratios.priorPeriodEnd}` : ''}`, percent(ratios.revenueGrowth)],
+    ['Net profit growth', percent(ratios.netProfitGrowth)]
+  ];
+
+  return (
+    <div className="mt-3 text-xs text-gray-600 space-y-1">
+      <div className="font-semibold text-gray-700">
+        Ratios (period ended {ratios.periodEnd}, {BASIS[ratios.basis]}):
+      </div>
+      <div className="grid grid-cols-2 gap-x-3">
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between">
+            <span>{label}</span>
+            <span className="font-medium">{value}</span>
+          </div>
+        ))}
+      </div>
+
+      {periods.length > 0 && (
+        <table className="w-full mt-2">
+          <thead>
+            <tr className="text-left text-gray-500">
+              <th className="font-normal">Period ended</th>
+              <th className="font-normal text-right">Revenue</th>
+              <th className="font-normal text-right">Net profit</th>
+              <th className="font-normal text-right">Total assets</th>
+            </tr>
+          </thead>
+          <tbody>
+            {periods.map(period => (
+              <tr key={`${period.periodStart}-${period.periodEnd}`}>
+                <td>
+                  {period.periodEnd}
+                  {period.months !== null && period.months !== 12 && ` (${period.months} mo.)`}
+                </td>
+                <td className="text-right">{amount(period.incomeStatement?.revenue)}</td>
+                <td className="text-right">{amount(period.incomeStatement?.netProfit)}</td>
+                <td className="text-right">{amount(period.balanceSheet?.totalAssets)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React from 'react';
+import { Banknote } from 'lucide-react';
+import { ApplicantType, CollateralType, LoanProductType, LoanRequestInput } from '../types';
+
+interface LoanRequestFormProps {
+  value: LoanRequestInput;
+  onChange: (value: LoanRequestInput) => void;
+  disabled?: boolean;
+}
+
+const APPLICANT_TYPE_OPTIONS: { value: ApplicantType; label: string }[] = [
+  { value: 'individual', label: 'Individual' },
+  { value: 'business', label: 'Business' }
+];
+
+const PRODUCT_TYPE_OPTIONS: { value: LoanProductType; label: string }[] = [
+  { value: 'term_loan', label: 'Term loan' },
+  { value: 'personal_loan', label: 'Personal loan' },
+  { value: 'mortgage', label: 'Mortgage' },
+  { value: 'vehicle_loan', label: 'Vehicle loan' },
+  { value: 'equipment_finance', label: 'Equipment finance' },
+  { value: 'working_capital', label: 'Working capital' },
+  { value: 'credit_line', label: 'Credit line' }
+];
+
+const COLLATERAL_TYPE_OPTIONS: { value: CollateralType; label: string }[] = [
+  { value: 'none', label: 'None' },
+  { value: 'property', label: 'Property' },
+  { value: 'vehicle', label: 'Vehicle' },
+  { value: 'equipment', label: 'Equipment' },
+  { value: 'receivables', label: 'Receivables' },
+  { value: 'cash_deposit', label: 'Cash deposit' },
+  { value: 'guarantee', label: 'Guarantee' },
+  { value: 'other', label: 'Other' }
+];
+
+const INPUT_CLASS = 'w-full px-3 py-2 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100';
+
+const toNumber = (raw: string) => (raw === '' ? null : Number(raw));
+
+// What the applicant is asking for. Affordability is only assessed when the
+// amount and term are filled in.
+export const LoanRequestForm: React.FC<LoanRequestFormProps> = ({ value, onChange, disabled = false }) => {
+  const update = (patch: Partial<LoanRequestInput>) => onChange({ ...value, ...patch });
+
+  return (
+    <fieldset disabled={disabled}>
+      <legend className="flex items-center text-sm font-medium text-gray-700 mb-2">
+        <Banknote className="w-4 h-4 mr-2 text-gray-400" />
+        Loan Request <span className="ml-1 font-normal text-gray-500">(optional)</span>
+      </legend>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <div>
+          <label htmlFor="loan-amount" className="block text-xs text-gray-600 mb-1">Requested amount</label>
+          <input
+            id="loan-amount"
+            type="number"
+            min={1}
+            value={value.amount ?? ''}
+            onChange={(e) => update({ amount: toNumber(e.target.value) })}
+            placeholder="e.g. 50000"
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label htmlFor="loan-term" className="block text-xs text-gray-600 mb-1">Term (months)</label>
+          <input
+            id="loan-term"
+            type="number"
+            min={1}
+            max={480}
+            step={1}
+            value={value.termMonths ?? ''}
+            onChange={(e) => update({ termMonths: toNumber(e.target.value) })}
+            placeholder="e.g. 36"
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label htmlFor="loan-product" className="block text-xs text-gray-600 mb-1">Product</label>
+          <select
+            id="loan-product"
+            value={value.productType}
+            onChange={(e) => update({ productType: e.target.value as LoanProductType })}
+            className={INPUT_CLASS}
+          >
+            {PRODUCT_TYPE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="loan-applicant-type" className="block text-xs text-gray-600 mb-1">Applicant type</label>
+          <select
+            id="loan-applicant-type"
+            value={value.applicantType}
+            onChange={(e) => update({ applicantType: e.target.value as ApplicantType })}
+            className={INPUT_CLASS}
+          >
+            {APPLICANT_TYPE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label htmlFor="loan-existing-debt" className="block text-xs text-gray-600 mb-1">
+            Existing debt payments / month
+          </label>
+          <input
+            id="loan-existing-debt"
+            type="number"
+            min={0}
+            value={value.existingMonthlyDebt ?? ''}
+            onChange={(e) => update({ existingMonthlyDebt: toNumber(e.target.value) })}
+            placeholder={value.applicantType === 'business' ? 'From statements if blank' : '0 if blank'}
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label htmlFor="loan-purpose" className="block text-xs text-gray-600 mb-1">Purpose</label>
+          <input
+            id="loan-purpose"
+            type="text"
+            maxLength={500}
+            value={value.purpose ?? ''}
+            onChange={(e) => update({ purpose: e.target.value || null })}
+            placeholder="e.g. Purchase of delivery van"
+            className={INPUT_CLASS}
+          />
+        </div>
+        <div>
+          <label htmlFor="loan-collateral" className="block text-xs text-gray-600 mb-1">Collateral</label>
+          <select
+            id="loan-collateral"
+            value={value.collateralType}
+            onChange={(e) => update({ collateralType: e.target.value as CollateralType })}
+            className={INPUT_CLASS}
+          >
+            {COLLATERAL_TYPE_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+        {value.collateralType !== 'none' && (
+          <div>
+            <label htmlFor="loan-collateral-value" className="block text-xs text-gray-600 mb-1">Collateral value</label>
+            <input
+              id="loan-collateral-value"
+              type="number"
+              min={0}
+              value={value.collateralValue ?? ''}
+              onChange={(e) => update({ collateralValue: toNumber(e.target.value) })}
+              className={INPUT_CLASS}
+            />
+          </div>
+        )}
+      </div>
+    </fieldset>
+  );
+};
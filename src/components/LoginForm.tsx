@@ -0,0 +1,79 @@
+import React, { useState } from 'react';
+import { FileText, Lock, User, Loader2 } from 'lucide-react';
+
+interface LoginFormProps {
+  onLogin: (username: string, password: string) => void;
+  isSigningIn: boolean;
+  error: string | null;
+}
+
+export const LoginForm: React.FC<LoginFormProps> = ({ onLogin, isSigningIn, error }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    onLogin(username, password);
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-green-50 flex items-center justify-center p-4">
+      <form
+        onSubmit={handleSubmit}
+        className="bg-white/70 backdrop-blur-sm rounded-2xl p-8 shadow-xl border border-gray-200 w-full max-w-sm space-y-4"
+      >
+        <div className="flex items-center space-x-3 mb-2">
+          <div className="p-2 bg-gradient-to-r from-blue-600 to-green-600 rounded-lg">
+            <FileText className="w-6 h-6 text-white" />
+          </div>
+          <h1 className="text-xl font-bold text-gray-900">CreditAnalyzer AI</h1>
+        </div>
+
+        <div>
+          <label htmlFor="login-username" className="block text-sm font-medium text-gray-700 mb-1">
+            Username
+          </label>
+          <div className="relative">
+            <User className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              id="login-username"
+              type="text"
+              autoComplete="username"
+              value={username}
+              onChange={(e) => setUsername(e.target.value)}
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+
+        <div>
+          <label htmlFor="login-password" className="block text-sm font-medium text-gray-700 mb-1">
+            Password
+          </label>
+          <div className="relative">
+            <Lock className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              id="login-password"
+              type="password"
+              autoComplete="current-password"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isSigningIn || username.trim() === '' || password === ''}
+          className="w-full flex items-center justify-center px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          {isSigningIn && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Sign In
+        </button>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,131 @@
+import React, { useState } from 'react';
+import { Bug, ChevronDown, ChevronRight, Loader2, RefreshCw } from 'lucide-react';
+import { ModelCallParseStatus, ModelCallRecord } from '../types';
+import { useModelCallLog } from '../hooks/useModelCallLog';
+
+interface ModelCallLogPanelProps {
+  applicationId: string;
+}
+
+const PURPOSE_LABELS: Record<string, string> = {
+  classification: 'Classification',
+  extraction: 'Extraction',
+  credit_recommendation: 'Credit recommendation'
+};
+
+const PARSE_LABELS: Record<ModelCallParseStatus, string> = {
+  valid: 'Valid',
+  invalid_json: 'Invalid JSON',
+  schema_invalid: 'Schema mismatch'
+};
+
+const getOutcomeColor = (call: ModelCallRecord) => {
+  if (call.status === 'failed') return 'text-red-600 bg-red-100';
+  if (call.parse?.status === 'valid') return 'text-green-600 bg-green-100';
+  return 'text-yellow-600 bg-yellow-100';
+};
+
+const describeOutcome = (call: ModelCallRecord) => {
+  if (call.status === 'failed') return 'Failed';
+  return call.parse ? PARSE_LABELS[call.parse.status] : 'Not parsed';
+};
+
+// Debug view of every model call behind an assessment: prompts, raw responses and timings
+export const ModelCallLogPanel: React.FC<ModelCallLogPanelProps> = ({ applicationId }) => {
+  const { calls, isLoading, error, loadCalls } = useModelCallLog(applicationId);
+  const [isOpen, setIsOpen] = useState(false);
+  const [expandedCallId, setExpandedCallId] = useState<string | null>(null);
+
+  const handleToggle = () => {
+    if (!isOpen && calls === null) {
+      loadCalls();
+    }
+    setIsOpen(!isOpen);
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-8 shadow-lg border border-gray-200">
+      <div className="flex items-center justify-between">
+        <button onClick={handleToggle} className="flex items-center text-xl font-bold text-gray-800">
+          {isOpen ? <ChevronDown className="w-5 h-5 mr-2" /> : <ChevronRight className="w-5 h-5 mr-2" />}
+          <Bug className="w-5 h-5 mr-2 text-gray-500" />
+          Model Call Log
+        </button>
+        {isOpen && (
+          <button
+            onClick={loadCalls}
+            disabled={isLoading}
+            className="p-1 text-gray-400 hover:text-blue-600 transition-colors disabled:opacity-50"
+            title="Reload"
+          >
+            {isLoading ? <Loader2 className="w-5 h-5 animate-spin" /> : <RefreshCw className="w-5 h-5" />}
+          </button>
+        )}
+      </div>
+
+      {isOpen && (
+        <div className="mt-6">
+          {error && <p className="text-sm text-red-600 mb-4">Could not load model calls: {error}</p>}
+
+          {calls && calls.length === 0 && (
+            <p className="text-sm text-gray-500">No model calls were recorded for this assessment.</p>
+          )}
+
+          {calls && calls.length > 0 && (
+            <div className="divide-y divide-gray-200">
+              {calls.map(call => (
+                <div key={call.id} className="py-3">
+                  <button
+                    onClick={() => setExpandedCallId(expandedCallId === call.id ? null : call.id)}
+                    className="w-full flex items-center justify-between text-left"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">
+                        {PURPOSE_LABELS[call.purpose ?? ''] ?? 'Model call'}
+                        {call.attempt > 1 && ` · attempt ${call.attempt}`}
+                        {!!call.retry && ` · retry ${call.retry}`}
+                      </p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {[call.fileName, call.page !== null ? `page ${call.page}` : null, call.model, `${(call.latencyMs / 1000).toFixed(1)}s`]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </p>
+                    </div>
+                    <span className={`ml-4 text-xs px-2 py-1 rounded-full whitespace-nowrap ${getOutcomeColor(call)}`}>
+                      {describeOutcome(call)}
+                    </span>
+                  </button>
+
+                  {expandedCallId === call.id && (
+                    <div className="mt-3 space-y-3 text-xs">
+                      <p className="text-gray-500">
+                        {new Date(call.at).toLocaleString()} · {call.provider} · temperature {call.options.temperature}, top_p {call.options.topP}, top_k {call.options.topK}
+                        {call.image && ` · image sha256 ${call.image.sha256.slice(0, 12)}… (${call.image.bytes.toLocaleString()} bytes)`}
+                      </p>
+                      {call.error && <p className="text-red-600">{call.error}</p>}
+                      {call.parse && call.parse.errors.length > 0 && (
+                        <ul className="text-yellow-700 list-disc list-inside">
+                          {call.parse.errors.map((parseError, index) => (
+                            <li key={index}>{parseError.path}: {parseError.message}</li>
+                          ))}
+                        </ul>
+                      )}
+                      <div>
+                        <h5 className="font-semibold text-gray-700 mb-1">Prompt</h5>
+                        <pre className="bg-gray-50 rounded-lg p-3 max-h-64 overflow-auto whitespace-pre-wrap text-gray-700">{call.prompt}</pre>
+                      </div>
+                      <div>
+                        <h5 className="font-semibold text-gray-700 mb-1">Raw response</h5>
+                        <pre className="bg-gray-50 rounded-lg p-3 max-h-64 overflow-auto whitespace-pre-wrap text-gray-700">{call.rawResponse ?? '-'}</pre>
+                      </div>
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,24 +1,34 @@
 import React from 'react';
-import { Loader2, FileText, Image, Brain, CheckCircle, AlertTriangle } from 'lucide-react';
+import { Loader2, FileText, Image, Brain, CheckCircle, AlertTriangle, XCircle } from 'lucide-react';
+import { JobFileStatus, ModelConfiguration } from '../types';
 
 interface ProcessingStatusProps {
   currentStage: 'uploading' | 'parsing' | 'extracting' | 'analyzing' | 'completed' | 'error';
   progress: number;
   currentFile?: string;
+  files?: JobFileStatus[];
+  models?: ModelConfiguration | null;
   error?: string;
+  onCancel?: () => void;
 }
 
 export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({
   currentStage,
   progress,
   currentFile,
-  error
+  files = [],
+  models,
+  error,
+  onCancel
 }) => {
+  const extractionModel = models?.extraction || 'the vision model';
+  const analysisModel = models?.analysis || 'the reasoning model';
+
   const stages = [
     { key: 'uploading', label: 'Uploading Files', icon: FileText, description: 'Sending files to server' },
-    { key: 'parsing', label: 'Converting PDFs to Images', icon: Image, description: 'Processing PDF documents' },
-    { key: 'extracting', label: 'Extracting Data with AI', icon: Brain, description: 'Using qwen2.5vl:7b for analysis' },
-    { key: 'analyzing', label: 'Analyzing Credit Worthiness', icon: Loader2, description: 'Using deepseek-r1:8b for recommendations' },
+    { key: 'parsing', label: 'Reading PDF Pages', icon: Image, description: 'Reading text layers, rasterizing scanned pages' },
+    { key: 'extracting', label: 'Extracting Data with AI', icon: Brain, description: `Using ${extractionModel} for analysis` },
+    { key: 'analyzing', label: 'Analyzing Credit Worthiness', icon: Loader2, description: `Using ${analysisModel} for recommendations` },
     { key: 'completed', label: 'Analysis Complete', icon: CheckCircle, description: 'Ready to view results' }
   ];
 
@@ -141,14 +151,58 @@ export const ProcessingStatus: React.FC<ProcessingStatusProps> = ({
           })}
         </div>
 
+        {/* Per-file Progress */}
+        {files.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="font-semibold text-gray-800">Documents</h4>
+            {files.map(file => (
+              <div key={file.fileId} className="p-3 rounded-lg border border-gray-200">
+                <div className="flex items-center justify-between mb-2">
+                  <span className="text-sm font-medium text-gray-800 truncate">{file.fileName}</span>
+                  <span className="text-xs text-gray-500 ml-2">
+                    {file.pageCount
+                      ? `${file.pagesExtracted}/${file.pageCount} pages${file.pagesFailed ? `, ${file.pagesFailed} failed` : ''}`
+                      : `${file.progress}%`}
+                  </span>
+                </div>
+                <div className="w-full bg-gray-200 rounded-full h-2">
+                  <div
+                    className={`h-2 rounded-full transition-all duration-300 ${
+                      file.status === 'error' ? 'bg-red-500' : file.status === 'completed' ? 'bg-green-500' : 'bg-blue-500'
+                    }`}
+                    style={{ width: `${file.progress}%` }}
+                  />
+                </div>
+                {file.message && (
+                  <p className={`text-xs mt-1 ${file.status === 'error' ? 'text-red-600' : 'text-gray-500'}`}>
+                    {file.message}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {onCancel && currentStage !== 'completed' && (
+          <div className="text-center">
+            <button
+              onClick={onCancel}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-red-600 border border-red-200 rounded-lg hover:bg-red-50 transition-colors"
+            >
+              <XCircle className="w-4 h-4 mr-2" />
+              Cancel Processing
+            </button>
+          </div>
+        )}
+
         {/* Additional Info */}
         <div className="mt-8 p-4 bg-blue-50 rounded-lg border border-blue-200">
           <h4 className="font-semibold text-blue-800 mb-2">Processing Information</h4>
           <div className="text-sm text-blue-700 space-y-1">
-            <p>• Using qwen2.5vl:7b for document extraction and computer vision</p>
-            <p>• Using deepseek-r1:8b for advanced credit analysis and reasoning</p>
+            <p>• Using {extractionModel} for document extraction and computer vision</p>
+            <p>• Using {analysisModel} for advanced credit analysis and reasoning</p>
             <p>• Processing time varies based on document complexity and size</p>
-            <p>• All data is processed locally using your Ollama installation</p>
+            <p>• All data is processed locally by your {models?.provider === 'openai' ? 'OpenAI-compatible model server' : 'Ollama installation'}</p>
           </div>
         </div>
       </div>
@@ -0,0 +1,234 @@
+import React, { useState } from 'react';
+import { ClipboardCheck, History, UserCheck } from 'lucide-react';
+import { ApplicationReview, AuditTrailEntry, OverridableField, ReviewStatus } from '../types';
+
+interface ReviewPanelProps {
+  review: ApplicationReview;
+  auditTrail: AuditTrailEntry[];
+  reviewer: string;
+  onReviewerChange?: (name: string) => void; // Omitted when the reviewer is the signed-in user
+  canReview?: boolean;
+  onOverride: (field: OverridableField, value: number | null, justification: string) => Promise<boolean>;
+  onStatusChange: (status: ReviewStatus, comment?: string) => Promise<boolean>;
+  isSaving: boolean;
+  error: string | null;
+}
+
+const STATUS_LABELS: Record<ReviewStatus, string> = {
+  draft: 'Draft',
+  under_review: 'Under Review',
+  approved: 'Approved',
+  declined: 'Declined',
+  referred: 'Referred'
+};
+
+const TRANSITION_LABELS: Record<ReviewStatus, string> = {
+  draft: 'Back to Draft',
+  under_review: 'Start Review',
+  approved: 'Approve',
+  declined: 'Decline',
+  referred: 'Refer'
+};
+
+const FIELD_LABELS: Record<OverridableField, string> = {
+  score: 'Credit score',
+  maxCreditLimit: 'Credit limit',
+  interestRate: 'Interest rate (%)'
+};
+
+const EDITABLE_STATUSES: ReviewStatus[] = ['draft', 'under_review', 'referred'];
+
+const getStatusColor = (status: ReviewStatus) => {
+  switch (status) {
+    case 'approved':
+      return 'bg-green-100 text-green-800';
+    case 'declined':
+      return 'bg-red-100 text-red-800';
+    case 'referred':
+      return 'bg-yellow-100 text-yellow-800';
+    case 'under_review':
+      return 'bg-blue-100 text-blue-800';
+    default:
+      return 'bg-gray-100 text-gray-700';
+  }
+};
+
+const describeEntry = (entry: AuditTrailEntry) => {
+  switch (entry.action) {
+    case 'override':
+      return `Changed ${FIELD_LABELS[entry.field!].toLowerCase()} from ${entry.previousValue} to ${entry.newValue}: ${entry.justification}`;
+    case 'override_removed':
+      return `Removed ${FIELD_LABELS[entry.field!].toLowerCase()} override (back to ${entry.newValue}): ${entry.justification}`;
+    case 'status_changed':
+      return `Moved from ${STATUS_LABELS[entry.previousValue as ReviewStatus]} to ${STATUS_LABELS[entry.newValue as ReviewStatus]}${entry.comment ? `: ${entry.comment}` : ''}`;
+  }
+};
+
+export const ReviewPanel: React.FC<ReviewPanelProps> = ({
+  review,
+  auditTrail,
+  reviewer,
+  onReviewerChange,
+  canReview = true,
+  onOverride,
+  onStatusChange,
+  isSaving,
+  error
+}) => {
+  const [field, setField] = useState<OverridableField>('score');
+  const [value, setValue] = useState('');
+  const [justification, setJustification] = useState('');
+  const [comment, setComment] = useState('');
+
+  const canEdit = canReview && EDITABLE_STATUSES.includes(review.status);
+  const hasReviewer = reviewer.trim().length > 0;
+
+  const handleOverride = async (event: React.FormEvent) => {
+    event.preventDefault();
+    const saved = await onOverride(field, value === '' ? null : Number(value), justification);
+    if (saved) {
+      setValue('');
+      setJustification('');
+    }
+  };
+
+  const handleStatusChange = async (status: ReviewStatus) => {
+    const saved = await onStatusChange(status, comment || undefined);
+    if (saved) {
+      setComment('');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl p-8 shadow-lg border border-gray-200 space-y-6">
+      <div className="flex items-center justify-between">
+        <h3 className="text-xl font-bold text-gray-800 flex items-center">
+          <ClipboardCheck className="w-5 h-5 mr-2 text-gray-500" />
+          Underwriter Review
+        </h3>
+        <span className={`text-sm px-3 py-1 rounded-full font-semibold ${getStatusColor(review.status)}`}>
+          {STATUS_LABELS[review.status]}
+        </span>
+      </div>
+
+      {review.decision && (
+        <p className="text-sm text-gray-600">
+          {STATUS_LABELS[review.decision.status]} by {review.decision.user} on {new Date(review.decision.at).toLocaleString()}
+          {review.decision.comment && `: ${review.decision.comment}`}
+        </p>
+      )}
+
+      {canReview && (
+        <div>
+          <label htmlFor="reviewer-name" className="block text-sm font-medium text-gray-700 mb-1">
+            Reviewer
+          </label>
+          <div className="relative max-w-sm">
+            <UserCheck className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+            <input
+              id="reviewer-name"
+              type="text"
+              value={reviewer}
+              onChange={(e) => onReviewerChange?.(e.target.value)}
+              readOnly={!onReviewerChange}
+              placeholder="Your name, recorded in the audit trail"
+              className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+        </div>
+      )}
+
+      {canReview && review.allowedTransitions.length > 0 && (
+        <div className="space-y-2">
+          <input
+            type="text"
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            placeholder="Comment for the status change (optional)"
+            className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <div className="flex flex-wrap gap-2">
+            {review.allowedTransitions.map(status => (
+              <button
+                key={status}
+                onClick={() => handleStatusChange(status)}
+                disabled={isSaving || !hasReviewer}
+                className="px-4 py-2 bg-gray-800 text-white rounded-lg text-sm hover:bg-gray-900 transition-colors disabled:opacity-50"
+              >
+                {TRANSITION_LABELS[status]}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {canEdit && (
+        <form onSubmit={handleOverride} className="grid grid-cols-1 md:grid-cols-4 gap-3 items-end">
+          <div>
+            <label htmlFor="override-field" className="block text-sm font-medium text-gray-700 mb-1">Override</label>
+            <select
+              id="override-field"
+              value={field}
+              onChange={(e) => setField(e.target.value as OverridableField)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg bg-white text-sm"
+            >
+              {(Object.keys(FIELD_LABELS) as OverridableField[]).map(key => (
+                <option key={key} value={key}>{FIELD_LABELS[key]}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label htmlFor="override-value" className="block text-sm font-medium text-gray-700 mb-1">New value</label>
+            <input
+              id="override-value"
+              type="number"
+              step="any"
+              value={value}
+              onChange={(e) => setValue(e.target.value)}
+              placeholder={review.overrides[field] ? 'Empty removes override' : ''}
+              className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+          </div>
+          <div className="md:col-span-2 flex gap-2">
+            <input
+              type="text"
+              value={justification}
+              onChange={(e) => setJustification(e.target.value)}
+              placeholder="Justification (required)"
+              className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm"
+            />
+            <button
+              type="submit"
+              disabled={isSaving || !hasReviewer || justification.trim() === '' || (value === '' && !review.overrides[field])}
+              className="px-4 py-2 bg-blue-600 text-white rounded-lg text-sm hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Save
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div>
+        <h4 className="font-semibold text-gray-700 mb-3 flex items-center">
+          <History className="w-4 h-4 mr-2 text-gray-500" />
+          Audit Trail
+        </h4>
+        {auditTrail.length === 0 ? (
+          <p className="text-sm text-gray-500">No changes yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {[...auditTrail].reverse().map(entry => (
+              <li key={entry.id} className="text-sm text-gray-600">
+                <span className="text-gray-400">{new Date(entry.at).toLocaleString()}</span>
+                {' · '}<span className="font-medium text-gray-700">{entry.user}</span>
+                {' · '}{describeEntry(entry)}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
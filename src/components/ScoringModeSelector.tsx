@@ -0,0 +1,54 @@
+import React from 'react';
+import { Calculator } from 'lucide-react';
+import { ScoringConfiguration, ScoringMode } from '../types';
+
+interface ScoringModeSelectorProps {
+  scoring: ScoringConfiguration | null;
+  value: ScoringMode | null;
+  onChange: (mode: ScoringMode) => void;
+  disabled?: boolean;
+}
+
+const MODE_LABELS: Record<ScoringMode, string> = {
+  llm: 'AI reasoning model (scorecard as fallback)',
+  scorecard: 'Scorecard only (deterministic)'
+};
+
+export const ScoringModeSelector: React.FC<ScoringModeSelectorProps> = ({
+  scoring,
+  value,
+  onChange,
+  disabled = false
+}) => {
+  const selected = value ?? scoring?.mode ?? 'llm';
+  const scorecard = scoring?.scorecard;
+
+  return (
+    <div>
+      <label htmlFor="scoring-mode" className="block text-sm font-medium text-gray-700 mb-1">
+        Scoring Mode
+      </label>
+      <div className="relative">
+        <Calculator className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-400" />
+        <select
+          id="scoring-mode"
+          value={selected}
+          onChange={(e) => onChange(e.target.value as ScoringMode)}
+          disabled={disabled}
+          className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg bg-white focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:bg-gray-100"
+        >
+          {(scoring?.modes ?? ['llm', 'scorecard'] as ScoringMode[]).map(mode => (
+            <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+          ))}
+        </select>
+      </div>
+      {scorecard && (
+        <p className={`mt-1 text-xs ${scorecard.error ? 'text-red-600' : 'text-gray-500'}`}>
+          {scorecard.error
+            ? `Scorecard unavailable: ${scorecard.error}`
+            : `Scorecard: ${scorecard.name} v${scorecard.version}`}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { AlertTriangle, ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { FieldProvenance } from '../types';
+import { apiClient } from '../services/apiClient';
+
+interface SourcePageViewerProps {
+  fileId: string;
+  fileName: string;
+  label: string;
+  value: string;
+  provenance: FieldProvenance;
+  onClose: () => void;
+}
+
+// The source page of an extracted figure, with its region highlighted when known
+export const SourcePageViewer: React.FC<SourcePageViewerProps> = ({
+  fileId,
+  fileName,
+  label,
+  value,
+  provenance,
+  onClose
+}) => {
+  const pages = provenance.pages.length > 0 ? provenance.pages : [provenance.pageNumber ?? 1];
+  const [pageNumber, setPageNumber] = useState(provenance.pageNumber ?? pages[0]);
+  const [imageFailed, setImageFailed] = useState(false);
+
+  useEffect(() => {
+    setImageFailed(false);
+  }, [pageNumber]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const pageIndex = pages.indexOf(pageNumber);
+  const region = pageNumber === provenance.pageNumber ? provenance.region : null;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-2xl max-w-3xl w-full max-h-full overflow-auto"
+        onClick={(event) => event.stopPropagation()}
+      >
+        <div className="flex items-start justify-between p-6 border-b border-gray-200">
+          <div>
+            <h3 className="text-lg font-bold text-gray-800">{label}: {value}</h3>
+            <p className="text-sm text-gray-500">
+              {fileName} · page {pageNumber}
+              {provenance.extractionSource && ` · ${provenance.extractionSource === 'text_layer' ? 'read from text layer' : 'read by vision model'}`}
+              {provenance.computed && ` · computed from page${pages.length !== 1 ? 's' : ''} ${pages.join(', ')}`}
+            </p>
+          </div>
+          <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600 transition-colors" title="Close">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {provenance.conflicts.length > 0 && (
+          <div className="mx-6 mt-4 p-3 rounded-lg bg-yellow-50 text-sm text-yellow-800 flex items-start">
+            <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+            <span>
+              Other pages show a different value:{' '}
+              {provenance.conflicts.map(conflict => `${String(conflict.value)} (page ${conflict.pageNumber})`).join(', ')}
+            </span>
+          </div>
+        )}
+
+        <div className="p-6">
+          {imageFailed ? (
+            <p className="text-sm text-gray-500 text-center py-12">
+              The page preview is not available. Previews are kept only for the current server session.
+            </p>
+          ) : (
+            <div className="relative border border-gray-200">
+              <img
+                src={apiClient.getPagePreviewUrl(fileId, pageNumber)}
+                alt={`${fileName} page ${pageNumber}`}
+                className="w-full"
+                onError={() => setImageFailed(true)}
+              />
+              {region && (
+                <div
+                  className="absolute border-2 border-red-500 bg-red-500/10 rounded-sm"
+                  style={{
+                    left: `${region[0] * 100}%`,
+                    top: `${region[1] * 100}%`,
+                    width: `${(region[2] - region[0]) * 100}%`,
+                    height: `${(region[3] - region[1]) * 100}%`
+                  }}
+                />
+              )}
+            </div>
+          )}
+
+          {pages.length > 1 && (
+            <div className="flex items-center justify-center gap-4 mt-4 text-sm text-gray-600">
+              <button
+                onClick={() => setPageNumber(pages[pageIndex - 1])}
+                disabled={pageIndex <= 0}
+                className="p-1 hover:text-blue-600 disabled:opacity-30"
+                title="Previous page"
+              >
+                <ChevronLeft className="w-5 h-5" />
+              </button>
+              <span>Page {pageNumber} ({pageIndex + 1} of {pages.length} source pages)</span>
+              <button
+                onClick={() => setPageNumber(pages[pageIndex + 1])}
+                disabled={pageIndex >= pages.length - 1}
+                className="p-1 hover:text-blue-600 disabled:opacity-30"
+                title="Next page"
+              >
+                <ChevronRight className="w-5 h-5" />
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React from 'react';
+import { ProcessingResult } from '../types';
+
+interface SupportingDocumentDetailsProps {
+  file: ProcessingResult;
+}
+
+const ID_TYPES: Record<string, string> = {
+  passport: 'Passport',
+  national_id: 'National ID card',
+  driving_licence: 'Driving licence',
+  other: 'Identity document'
+};
+
+const IDENTITY_STATUS: Record<string, { label: string; className: string }> = {
+  valid: { label: 'valid', className: 'text-green-700' },
+  expired: { label: 'expired', className: 'text-red-600' },
+  unknown: { label: 'expiry not shown', className: 'text-yellow-700' },
+  unreadable: { label: 'unreadable', className: 'text-red-600' }
+};
+
+const Row: React.FC<{ label: string; value: React.ReactNode }> = ({ label, value }) => (
+  <div className="flex justify-between">
+    <span>{label}</span>
+    <span className="font-medium">{value}</span>
+  </div>
+);
+
+// Income, receivables and identity details of payslips, tax returns, invoices
+// and identity documents. Amounts are in the document's own currency.
+export const SupportingDocumentDetails: React.FC<SupportingDocumentDetailsProps> = ({ file }) => {
+  const { documentType, keyInformation, currency } = file.extractedData;
+  const metrics = file.extractedData.originalFinancialMetrics ?? file.extractedData.financialMetrics ?? {};
+  const code = currency?.code ?? '$';
+  const money = (value: number | null | undefined) =>
+    typeof value === 'number' ? `${code} ${value.toLocaleString()}` : '-';
+  const text = (value: string | number | null | undefined) =>
+    value === null || value === undefined || value === '' ? '-' : String(value);
+
+  switch (documentType) {
+    case 'payslip': {
+      const payslips = file.extractedData.payslips ?? [];
+      return (
+        <div className="mt-3 text-xs text-gray-600 space-y-1">
+          <div className="font-semibold text-gray-700">
+            Payslips ({payslips.length}{keyInformation.payFrequency ? `, paid ${keyInformation.payFrequency}` : ''}):
+          </div>
+          <Row label="Employer" value={text(keyInformation.employerName)} />
+          <Row label="Monthly gross / net" value={`${money(metrics.monthlyIncome)} / ${money(metrics.netMonthlyIncome)}`} />
+          <Row label="Latest pay date" value={text(keyInformation.periodEnd)} />
+          {payslips.length > 1 && (
+            <table className="w-full mt-1">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="font-normal">Paid</th>
+                  <th className="font-normal text-right">Gross</th>
+                  <th className="font-normal text-right">Net</th>
+                </tr>
+              </thead>
+              <tbody>
+                {payslips.map((payslip, index) => (
+                  <tr key={index}>
+                    <td>{text(payslip.payDate ?? payslip.periodEnd)}</td>
+                    <td className="text-right">{money(payslip.grossPay)}</td>
+                    <td className="text-right">{money(payslip.netPay)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      );
+    }
+
+    case 'tax_return':
+      return (
+        <div className="mt-3 text-xs text-gray-600 space-y-1">
+          <div className="font-semibold text-gray-700">
+            Tax return {text(keyInformation.taxYear)}
+            {keyInformation.jurisdiction ? ` (${keyInformation.jurisdiction})` : ''}:
+          </div>
+          <Row label="Annual income" value={money(metrics.annualIncome)} />
+          <Row label="Taxable income" value={money(metrics.taxableIncome)} />
+          <Row label="Total tax" value={money(metrics.totalTax)} />
+        </div>
+      );
+
+    case 'invoice': {
+      const invoices = file.extractedData.invoices ?? [];
+      return (
+        <div className="mt-3 text-xs text-gray-600 space-y-1">
+          <div className="font-semibold text-gray-700">
+            Invoices ({invoices.length} to {text(keyInformation.customerCount)} customers, as of {text(keyInformation.periodEnd)}):
+          </div>
+          <Row label="Total invoiced" value={money(metrics.totalInvoiced)} />
+          <Row label="Outstanding" value={money(metrics.outstandingReceivables)} />
+          <Row
+            label="Overdue"
+            value={`${money(metrics.overdueReceivables)}${
+              typeof metrics.overdueShare === 'number' ? ` (${metrics.overdueShare}%)` : ''
+            }`}
+          />
+          {typeof metrics.largestCustomerShare === 'number' && (
+            <Row label="Largest customer" value={`${metrics.largestCustomerShare}% of invoiced`} />
+          )}
+        </div>
+      );
+    }
+
+    case 'identity': {
+      const status = IDENTITY_STATUS[String(keyInformation.identityStatus)] ?? IDENTITY_STATUS.unknown;
+      return (
+        <div className="mt-3 text-xs text-gray-600 space-y-1">
+          <div className="font-semibold text-gray-700">
+            {ID_TYPES[String(keyInformation.idType)] ?? ID_TYPES.other}:{' '}
+            <span className={status.className}>{status.label}</span>
+          </div>
+          <Row label="Name" value={text(keyInformation.fullName)} />
+          <Row label="Issued by" value={text(keyInformation.issuingCountry)} />
+          <Row label="Expires" value={text(keyInformation.expiryDate)} />
+        </div>
+      );
+    }
+
+    default:
+      return null;
+  }
+};
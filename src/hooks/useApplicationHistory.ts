@@ -0,0 +1,56 @@
+import { useState, useCallback, useEffect } from 'react';
+import { ApplicationSummary, ApplicationRecord } from '../types';
+import { apiClient } from '../services/apiClient';
+
+export const useApplicationHistory = () => {
+  const [applications, setApplications] = useState<ApplicationSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshApplications = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const list = await apiClient.listApplications();
+      setApplications(list);
+      setError(null);
+    } catch (loadError) {
+      console.error('Failed to load application history:', loadError);
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load application history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const openApplication = useCallback(async (applicationId: string): Promise<ApplicationRecord | null> => {
+    try {
+      return await apiClient.getApplication(applicationId);
+    } catch (openError) {
+      console.error('Failed to open application:', openError);
+      alert(`❌ ${openError instanceof Error ? openError.message : 'Failed to open application'}`);
+      return null;
+    }
+  }, []);
+
+  const deleteApplication = useCallback(async (applicationId: string) => {
+    try {
+      await apiClient.deleteApplication(applicationId);
+      setApplications(prev => prev.filter(application => application.id !== applicationId));
+    } catch (deleteError) {
+      console.error('Failed to delete application:', deleteError);
+      alert(`❌ ${deleteError instanceof Error ? deleteError.message : 'Failed to delete application'}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshApplications();
+  }, [refreshApplications]);
+
+  return {
+    applications,
+    isLoading,
+    error,
+    refreshApplications,
+    openApplication,
+    deleteApplication
+  };
+};
@@ -0,0 +1,76 @@
+import { useState, useCallback, useEffect } from 'react';
+import { ApplicationRecord, OverridableField, ReviewStatus } from '../types';
+import { apiClient } from '../services/apiClient';
+
+const REVIEWER_STORAGE_KEY = 'creditAnalyzer.reviewerName';
+
+// Underwriter review of a saved assessment: overrides, status changes and audit trail
+export const useApplicationReview = (applicationId: string | null) => {
+  const [application, setApplication] = useState<ApplicationRecord | null>(null);
+  const [reviewer, setReviewerState] = useState(() => localStorage.getItem(REVIEWER_STORAGE_KEY) || '');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setApplication(null);
+    setError(null);
+    if (!applicationId) return;
+
+    let cancelled = false;
+    apiClient.getApplication(applicationId)
+      .then(record => {
+        if (!cancelled) setApplication(record);
+      })
+      .catch(loadError => {
+        console.error('Failed to load application review:', loadError);
+        if (!cancelled) setError(loadError instanceof Error ? loadError.message : 'Failed to load review');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [applicationId]);
+
+  const setReviewer = useCallback((name: string) => {
+    setReviewerState(name);
+    localStorage.setItem(REVIEWER_STORAGE_KEY, name);
+  }, []);
+
+  // Returns whether the change was saved, so forms know when to reset
+  const runUpdate = useCallback(async (update: () => Promise<ApplicationRecord>) => {
+    setIsSaving(true);
+    try {
+      setApplication(await update());
+      setError(null);
+      return true;
+    } catch (updateError) {
+      console.error('Failed to update review:', updateError);
+      setError(updateError instanceof Error ? updateError.message : 'Failed to update review');
+      return false;
+    } finally {
+      setIsSaving(false);
+    }
+  }, []);
+
+  const saveOverride = useCallback((field: OverridableField, value: number | null, justification: string) => {
+    if (!applicationId) return Promise.resolve(false);
+    return runUpdate(() => apiClient.overrideApplication(applicationId, { field, value, justification, user: reviewer }));
+  }, [applicationId, reviewer, runUpdate]);
+
+  const changeStatus = useCallback((status: ReviewStatus, comment?: string) => {
+    if (!applicationId) return Promise.resolve(false);
+    return runUpdate(() => apiClient.changeApplicationStatus(applicationId, { status, comment, user: reviewer }));
+  }, [applicationId, reviewer, runUpdate]);
+
+  return {
+    application,
+    review: application?.review ?? null,
+    auditTrail: application?.auditTrail ?? [],
+    reviewer,
+    setReviewer,
+    saveOverride,
+    changeStatus,
+    isSaving,
+    error
+  };
+};
@@ -0,0 +1,70 @@
+import { useState, useCallback, useEffect } from 'react';
+import { AuthStatus, Permission } from '../types';
+import { apiClient } from '../services/apiClient';
+
+// The signed-in user and their permissions. When the server has authentication
+// turned off, everyone is treated as allowed to do everything.
+export const useAuth = () => {
+  const [status, setStatus] = useState<AuthStatus | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSigningIn, setIsSigningIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshStatus = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setStatus(await apiClient.getAuthStatus());
+      setError(null);
+    } catch (statusError) {
+      console.error('Failed to check sign-in:', statusError);
+      setError(statusError instanceof Error ? statusError.message : 'Could not reach the server');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    apiClient.setUnauthorizedHandler(() => {
+      setStatus(current => current && { ...current, user: null, permissions: [] });
+      setError('Your session has ended. Please sign in again.');
+    });
+    refreshStatus();
+
+    return () => apiClient.setUnauthorizedHandler(null);
+  }, [refreshStatus]);
+
+  const login = useCallback(async (username: string, password: string) => {
+    setIsSigningIn(true);
+    try {
+      await apiClient.login(username, password);
+      setStatus(await apiClient.getAuthStatus());
+      setError(null);
+    } catch (loginError) {
+      setError(loginError instanceof Error ? loginError.message : 'Sign-in failed');
+    } finally {
+      setIsSigningIn(false);
+    }
+  }, []);
+
+  const logout = useCallback(() => {
+    apiClient.setAuthToken(null);
+    setStatus(current => current && { ...current, user: null, permissions: [] });
+    setError(null);
+  }, []);
+
+  const can = useCallback(
+    (permission: Permission) => status?.permissions.includes(permission) ?? false,
+    [status]
+  );
+
+  return {
+    user: status?.user ?? null,
+    isSignedIn: status !== null && (!status.authEnabled || status.user !== null),
+    can,
+    isLoading,
+    isSigningIn,
+    error,
+    login,
+    logout
+  };
+};
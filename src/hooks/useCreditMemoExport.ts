@@ -0,0 +1,30 @@
+import { useState, useCallback } from 'react';
+import { ApplicationSummary, CreditMemoFormat } from '../types';
+import { apiClient } from '../services/apiClient';
+
+// Download the credit memo of a saved assessment
+export const useCreditMemoExport = () => {
+  const [exportingFormat, setExportingFormat] = useState<CreditMemoFormat | null>(null);
+
+  const exportCreditMemo = useCallback(async (application: ApplicationSummary, format: CreditMemoFormat) => {
+    setExportingFormat(format);
+    try {
+      const blob = await apiClient.exportApplication(application.id, format);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `credit-memo-${application.referenceNumber || application.id}.${format}`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (exportError) {
+      console.error('Failed to export credit memo:', exportError);
+      alert(`❌ ${exportError instanceof Error ? exportError.message : 'Failed to export credit memo'}`);
+    } finally {
+      setExportingFormat(null);
+    }
+  }, []);
+
+  return { exportCreditMemo, exportingFormat };
+};
@@ -1,14 +1,68 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { v4 as uuidv4 } from 'uuid';
-import { UploadedFile, AnalysisResults } from '../types';
-import { apiClient } from '../services/apiClient';
+import { UploadedFile, AnalysisResults, ApplicantInfo, DocumentType, ServerFile, ProcessingJob, JobProgressSnapshot, JobFileStatus, JobStatus, ScoringMode, UploadResponse, LoanRequest } from '../types';
+import { apiClient, ApiRequestError } from '../services/apiClient';
 
 interface ProcessorState {
   currentStage: 'uploading' | 'parsing' | 'extracting' | 'analyzing' | 'completed';
   progress: number;
   currentFile?: string;
+  files?: JobFileStatus[];
 }
 
+const ACTIVE_JOB_STORAGE_KEY = 'creditAnalyzer.activeJobId';
+// Live progress arrives over SSE, so polling only needs to catch the final state
+const POLL_INTERVAL_MS = 5000;
+const MAX_POLL_FAILURES = 5;
+const FINISHED_JOB_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+const getJobProgress = (job: JobProgressSnapshot): ProcessorState => {
+  const currentFile = job.files.find(f => f.status === 'processing');
+  const snapshot = {
+    progress: job.progress,
+    currentFile: currentFile?.fileName,
+    files: job.files
+  };
+
+  switch (job.stage) {
+    case 'queued':
+      return { ...snapshot, currentStage: 'parsing', progress: Math.max(job.progress, 10) };
+    case 'extracting':
+      return { ...snapshot, currentStage: currentFile?.step === 'rasterizing' ? 'parsing' : 'extracting' };
+    case 'analyzing':
+      return { ...snapshot, currentStage: 'analyzing' };
+    default:
+      return { ...snapshot, currentStage: 'completed', progress: 100 };
+  }
+};
+
+// The server returns accepted and rejected files with their position in the
+// upload request, so each maps back to the client file sent at that position
+const applyUploadResponse = (file: UploadedFile, sent: UploadedFile[], response: UploadResponse): UploadedFile => {
+  const index = sent.findIndex(f => f.id === file.id);
+  if (index === -1) return file;
+
+  const serverFile = response.files.find(f => f.uploadIndex === index);
+  if (serverFile) {
+    // Encrypted PDFs can't be classified until the user enters the password
+    if (serverFile.passwordProtected && !file.password) {
+      return { ...file, serverFile, passwordStatus: 'required', classificationStatus: undefined };
+    }
+    return { ...file, serverFile };
+  }
+
+  const rejection = response.rejected.find(r => r.uploadIndex === index);
+  if (rejection) {
+    return {
+      ...file,
+      status: 'error',
+      classificationStatus: undefined,
+      uploadError: { code: rejection.code, message: rejection.error }
+    };
+  }
+  return file;
+};
+
 export const useFileProcessor = () => {
   const [files, setFiles] = useState<UploadedFile[]>([]);
   const [isProcessing, setIsProcessing] = useState(false);
@@ -17,6 +71,8 @@ export const useFileProcessor = () => {
     progress: 0
   });
   const [results, setResults] = useState<AnalysisResults | null>(null);
+  const pollingRef = useRef<{ cancelled: boolean } | null>(null);
+  const activeJobIdRef = useRef<string | null>(null);
 
   const addFiles = useCallback((newFiles: File[]) => {
     const uploadedFiles: UploadedFile[] = newFiles.map(file => ({
@@ -26,122 +82,388 @@ export const useFileProcessor = () => {
       type: file.type,
       file,
       status: 'pending',
-      progress: 0
+      progress: 0,
+      classificationStatus: 'classifying'
     }));
 
     setFiles(prev => [...prev, ...uploadedFiles]);
+
+    // Upload right away and classify by content so the detected type can be
+    // reviewed (and overridden) before processing starts
+    (async () => {
+      const ids = new Set(uploadedFiles.map(f => f.id));
+
+      try {
+        let uploadResponse: UploadResponse;
+        try {
+          uploadResponse = await apiClient.uploadFiles(newFiles);
+        } catch (uploadError) {
+          // Files the server refused are marked; anything else is retried when processing starts
+          if (uploadError instanceof ApiRequestError && uploadError.code) {
+            const uploadFailure = { code: uploadError.code, message: uploadError.message };
+            setFiles(prev => prev.map(file => (
+              ids.has(file.id) ? { ...file, status: 'error' as const, classificationStatus: undefined, uploadError: uploadFailure } : file
+            )));
+            return;
+          }
+          throw uploadError;
+        }
+
+        const serverFiles: ServerFile[] = uploadResponse.files.filter(f => !f.passwordProtected);
+        setFiles(prev => prev.map(file => applyUploadResponse(file, uploadedFiles, uploadResponse)));
+
+        if (serverFiles.length === 0) return;
+
+        const classifications = await apiClient.classifyDocuments(serverFiles);
+
+        setFiles(prev => prev.map(file => {
+          const classification = classifications.find(c => c.fileId === file.serverFile?.id);
+          if (!classification) return file;
+          return {
+            ...file,
+            classificationStatus: classification.error ? 'failed' as const : 'classified' as const,
+            classification,
+            documentType: file.documentType || (classification.error ? undefined : classification.documentType)
+          };
+        }));
+      } catch (error) {
+        console.error('Upload or classification failed:', error);
+        setFiles(prev => prev.map(file => (
+          ids.has(file.id) && !file.uploadError ? { ...file, classificationStatus: 'failed' as const } : file
+        )));
+      }
+    })();
+  }, []);
+
+  const setFileDocumentType = useCallback((fileId: string, documentType: DocumentType | undefined) => {
+    setFiles(prev => prev.map(file => (file.id === fileId ? { ...file, documentType } : file)));
   }, []);
 
+  // Check the password of an encrypted PDF with the server, then classify it.
+  // The password stays in this state only and is sent with each request.
+  const unlockFile = useCallback(async (fileId: string, password: string) => {
+    const serverFile = files.find(file => file.id === fileId)?.serverFile;
+    if (!serverFile) return;
+
+    const updateFile = (update: (file: UploadedFile) => UploadedFile) => {
+      setFiles(prev => prev.map(file => (file.id === fileId ? update(file) : file)));
+    };
+    updateFile(file => ({ ...file, passwordStatus: 'checking' }));
+
+    try {
+      await apiClient.unlockFile(serverFile, password);
+    } catch (unlockError) {
+      const isIncorrect = unlockError instanceof ApiRequestError && unlockError.code === 'INCORRECT_PASSWORD';
+      if (!isIncorrect) {
+        console.error('Password check failed:', unlockError);
+      }
+      updateFile(file => ({ ...file, passwordStatus: isIncorrect ? 'incorrect' : 'required' }));
+      return;
+    }
+
+    updateFile(file => ({ ...file, password, passwordStatus: 'unlocked', classificationStatus: 'classifying' }));
+
+    try {
+      const [classification] = await apiClient.classifyDocuments([{ ...serverFile, password }]);
+      updateFile(file => ({
+        ...file,
+        classificationStatus: classification.error ? 'failed' : 'classified',
+        classification,
+        documentType: file.documentType || (classification.error ? undefined : classification.documentType)
+      }));
+    } catch (error) {
+      console.error('Classification failed:', error);
+      updateFile(file => ({ ...file, classificationStatus: 'failed' }));
+    }
+  }, [files]);
+
   const removeFile = useCallback((fileId: string) => {
     setFiles(prev => prev.filter(file => file.id !== fileId));
   }, []);
 
-  const startProcessing = useCallback(async () => {
+  const stopPolling = useCallback(() => {
+    if (pollingRef.current) {
+      pollingRef.current.cancelled = true;
+      pollingRef.current = null;
+    }
+  }, []);
+
+  const applyJobSnapshot = useCallback((job: JobProgressSnapshot, clientFileIds: Record<string, string>) => {
+    setProcessorState(getJobProgress(job));
+    setFiles(prev => prev.map(file => {
+      const jobFile = job.files.find(f => clientFileIds[f.fileId] === file.id);
+      if (!jobFile) return file;
+      return {
+        ...file,
+        status: jobFile.status,
+        progress: jobFile.progress,
+        currentStep: jobFile.message
+      };
+    }));
+  }, []);
+
+  // Follow the server-side job until it finishes: live progress streams in
+  // over SSE while polling picks up the final state and results. Returns null
+  // if following was stopped (reset or unmount) before the job finished.
+  const waitForJob = useCallback(async (jobId: string, clientFileIds: Record<string, string>) => {
+    stopPolling();
+    const poll = { cancelled: false };
+    pollingRef.current = poll;
+    activeJobIdRef.current = jobId;
+
+    const unsubscribe = apiClient.subscribeToJobEvents(jobId, event => {
+      if (!poll.cancelled) {
+        applyJobSnapshot(event.job, clientFileIds);
+      }
+    });
+
+    try {
+      let consecutiveFailures = 0;
+
+      while (!poll.cancelled) {
+        let job: ProcessingJob;
+        try {
+          job = await apiClient.getJob(jobId);
+          consecutiveFailures = 0;
+        } catch (pollError) {
+          consecutiveFailures++;
+          if (consecutiveFailures >= MAX_POLL_FAILURES) {
+            throw pollError;
+          }
+          await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+          continue;
+        }
+
+        if (poll.cancelled) return null;
+
+        applyJobSnapshot(job, clientFileIds);
+
+        if (FINISHED_JOB_STATUSES.includes(job.status)) {
+          return job;
+        }
+
+        await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+      }
+
+      return null;
+    } finally {
+      unsubscribe();
+    }
+  }, [stopPolling, applyJobSnapshot]);
+
+  const handleFinishedJob = useCallback((job: ProcessingJob) => {
+    localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+    activeJobIdRef.current = null;
+
+    if (job.status === 'cancelled') {
+      console.log('Processing cancelled');
+      // The server discards uploads of a finished job, so files must be re-uploaded
+      setFiles(prev => prev.map(file => (
+        file.uploadError ? file : { ...file, status: 'pending' as const, progress: 0, serverFile: undefined }
+      )));
+      setProcessorState({ currentStage: 'uploading', progress: 0 });
+      return;
+    }
+
+    if (job.status === 'failed') {
+      throw new Error(`Document processing failed: ${job.error || 'Unknown error'}`);
+    }
+
+    // Validate results structure
+    const results = job.results;
+    if (!results || !results.creditRecommendation || !results.files) {
+      throw new Error('Incomplete analysis results received');
+    }
+
+    setResults(results);
+    setProcessorState({ currentStage: 'completed', progress: 100 });
+    // Passwords are only needed until the documents have been read
+    setFiles(prev => prev.map(file => (file.password ? { ...file, password: undefined } : file)));
+
+    console.log('Processing completed successfully');
+  }, []);
+
+  const handleProcessingError = useCallback((error: unknown) => {
+    console.error('Processing failed:', error);
+
+    localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+    activeJobIdRef.current = null;
+    
+    // Update file status to error
+    setFiles(prev => prev.map(file => ({ 
+      ...file, 
+      status: 'error' as const,
+      serverFile: undefined
+    })));
+    
+    // Reset processing state
+    setProcessorState({ currentStage: 'uploading', progress: 0 });
+    
+    // Show user-friendly error message
+    let errorMessage = 'Processing failed';
+    if (error instanceof Error) {
+      errorMessage = error.message;
+    } else if (typeof error === 'string') {
+      errorMessage = error;
+    }
+    
+    // Show error to user with more context
+    alert(`❌ ${errorMessage}\n\nPlease check:\n• Server is running\n• Ollama models are available\n• Files are not corrupted\n• Network connection is stable`);
+  }, []);
+
+  // Resume a job that was still running when the page was refreshed
+  useEffect(() => {
+    const storedJobId = localStorage.getItem(ACTIVE_JOB_STORAGE_KEY);
+    if (!storedJobId) return;
+
+    console.log(`Resuming processing job ${storedJobId}`);
+    setIsProcessing(true);
+    setProcessorState({ currentStage: 'extracting', progress: 30 });
+
+    (async () => {
+      try {
+        const job = await waitForJob(storedJobId, {});
+        if (!job) return;
+        handleFinishedJob(job);
+        setIsProcessing(false);
+      } catch (error) {
+        handleProcessingError(error);
+        setIsProcessing(false);
+      }
+    })();
+
+    return stopPolling;
+  }, [waitForJob, handleFinishedJob, handleProcessingError, stopPolling]);
+
+  const startProcessing = useCallback(async (
+    applicant?: ApplicantInfo,
+    scoringMode?: ScoringMode,
+    loanRequest?: LoanRequest
+  ) => {
     if (files.length === 0) return;
 
+    const locked = files.find(f => f.serverFile?.passwordProtected && !f.password && !f.uploadError);
+    if (locked) {
+      alert(`🔒 Enter the password for ${locked.name} before starting the analysis.`);
+      return;
+    }
+
     setIsProcessing(true);
     setResults(null);
 
     try {
       // Stage 1: Uploading
       setProcessorState({ currentStage: 'uploading', progress: 10 });
-      setFiles(prev => prev.map(file => ({ ...file, status: 'processing' as const })));
+      setFiles(prev => prev.map(file => (file.uploadError ? file : { ...file, status: 'processing' as const, progress: 0 })));
 
-      console.log('Starting file upload...');
-      
-      // Upload files to backend with enhanced error handling
-      let uploadResponse;
-      try {
-        uploadResponse = await apiClient.uploadFiles(files.map(f => f.file));
-        console.log('Upload successful:', uploadResponse);
-      } catch (uploadError) {
-        console.error('Upload failed:', uploadError);
-        throw new Error(`File upload failed: ${uploadError.message}`);
+      // Files are normally uploaded when added; upload any that didn't make it.
+      // Files the server rejected are left out.
+      const pendingUploads = files.filter(f => !f.serverFile && !f.uploadError);
+      const uploadedServerFiles: Record<string, ServerFile> = {};
+
+      if (pendingUploads.length > 0) {
+        console.log('Starting file upload...');
+
+        let uploadResponse: UploadResponse;
+        try {
+          uploadResponse = await apiClient.uploadFiles(pendingUploads.map(f => f.file));
+          console.log(`Uploaded ${uploadResponse?.files?.length ?? 0} file(s)`);
+        } catch (uploadError) {
+          console.error('Upload failed:', uploadError);
+          throw new Error(`File upload failed: ${uploadError instanceof Error ? uploadError.message : uploadError}`);
+        }
+
+        // Validate upload response
+        if (!uploadResponse || !uploadResponse.files || !Array.isArray(uploadResponse.files)) {
+          throw new Error('Invalid upload response format');
+        }
+
+        pendingUploads.forEach((file, index) => {
+          const serverFile = uploadResponse.files.find(f => f.uploadIndex === index);
+          if (serverFile) {
+            uploadedServerFiles[file.id] = serverFile;
+          }
+        });
+        setFiles(prev => prev.map(file => applyUploadResponse(file, pendingUploads, uploadResponse)));
       }
-      
+
       setProcessorState({ currentStage: 'parsing', progress: 30 });
 
-      // Validate upload response
-      if (!uploadResponse || !uploadResponse.files || !Array.isArray(uploadResponse.files)) {
-        throw new Error('Invalid upload response format');
+      // The selected document type overrides server-side classification
+      const clientFileIds: Record<string, string> = {};
+      const serverFiles: ServerFile[] = [];
+      files.forEach(file => {
+        const serverFile = file.uploadError ? undefined : file.serverFile || uploadedServerFiles[file.id];
+        if (serverFile) {
+          clientFileIds[serverFile.id] = file.id;
+          serverFiles.push({
+            ...serverFile,
+            password: file.password,
+            documentType: file.documentType,
+            // Lets the server tell a confirmed detection from a manual override
+            classification: file.classification?.documentType === file.documentType ? file.classification : undefined
+          });
+        }
+      });
+
+      if (serverFiles.length === 0) {
+        throw new Error('None of the files were accepted by the server');
       }
 
-      const serverFiles = uploadResponse.files;
-      console.log('Server files:', serverFiles);
-      
-      // Stage 2: Processing with backend
-      setProcessorState({ currentStage: 'extracting', progress: 60 });
-      
-      console.log('Starting document processing...');
+      // Stage 2: Submit a background processing job
+      console.log('Submitting processing job...');
       
-      // Process documents with Ollama with enhanced error handling
-      let processResponse;
+      let submitResponse;
       try {
-        processResponse = await apiClient.processDocuments(serverFiles);
-        console.log('Processing successful:', processResponse);
+        submitResponse = await apiClient.processDocuments(serverFiles, applicant, scoringMode, loanRequest);
+        console.log('Job submitted:', submitResponse.jobId);
       } catch (processError) {
-        console.error('Processing failed:', processError);
-        throw new Error(`Document processing failed: ${processError.message}`);
-      }
-      
-      setProcessorState({ currentStage: 'analyzing', progress: 85 });
-      
-      // Validate processing response
-      if (!processResponse || !processResponse.results) {
-        throw new Error('Invalid processing response format');
+        console.error('Job submission failed:', processError);
+        throw new Error(`Document processing failed: ${processError instanceof Error ? processError.message : processError}`);
       }
 
-      // Validate results structure
-      const results = processResponse.results;
-      if (!results.creditRecommendation || !results.files) {
-        throw new Error('Incomplete analysis results received');
-      }
-
-      // Complete processing
-      setFiles(prev => prev.map(file => ({ 
-        ...file, 
-        status: 'completed' as const, 
-        progress: 100 
-      })));
+      localStorage.setItem(ACTIVE_JOB_STORAGE_KEY, submitResponse.jobId);
 
-      setResults(results);
-      setProcessorState({ currentStage: 'completed', progress: 100 });
-
-      console.log('Processing completed successfully');
+      const job = await waitForJob(submitResponse.jobId, clientFileIds);
+      if (!job) return;
 
+      handleFinishedJob(job);
     } catch (error) {
-      console.error('Processing failed:', error);
-      
-      // Update file status to error
-      setFiles(prev => prev.map(file => ({ 
-        ...file, 
-        status: 'error' as const 
-      })));
-      
-      // Reset processing state
-      setProcessorState({ currentStage: 'uploading', progress: 0 });
-      
-      // Show user-friendly error message
-      let errorMessage = 'Processing failed';
-      if (error instanceof Error) {
-        errorMessage = error.message;
-      } else if (typeof error === 'string') {
-        errorMessage = error;
-      }
-      
-      // Show error to user with more context
-      alert(`❌ ${errorMessage}\n\nPlease check:\n• Server is running\n• Ollama models are available\n• Files are not corrupted\n• Network connection is stable`);
+      handleProcessingError(error);
     } finally {
       setIsProcessing(false);
     }
-  }, [files]);
+  }, [files, waitForJob, handleFinishedJob, handleProcessingError]);
+
+  const cancelProcessing = useCallback(async () => {
+    const jobId = activeJobIdRef.current;
+    if (!jobId) return;
+
+    try {
+      await apiClient.cancelJob(jobId);
+    } catch (error) {
+      console.error('Failed to cancel job:', error);
+    }
+  }, []);
+
+  // Show a previously saved assessment without re-processing anything
+  const loadResults = useCallback((savedResults: AnalysisResults) => {
+    stopPolling();
+    setFiles([]);
+    setIsProcessing(false);
+    setResults(savedResults);
+    setProcessorState({ currentStage: 'completed', progress: 100 });
+  }, [stopPolling]);
 
   const resetProcessor = useCallback(() => {
+    stopPolling();
+    localStorage.removeItem(ACTIVE_JOB_STORAGE_KEY);
+    activeJobIdRef.current = null;
     setFiles([]);
     setIsProcessing(false);
     setProcessorState({ currentStage: 'uploading', progress: 0 });
     setResults(null);
-  }, []);
+  }, [stopPolling]);
 
   return {
     files,
@@ -150,7 +472,11 @@ export const useFileProcessor = () => {
     results,
     addFiles,
     removeFile,
+    setFileDocumentType,
+    unlockFile,
     startProcessing,
+    cancelProcessing,
+    loadResults,
     resetProcessor
   };
 };
\ No newline at end of file
@@ -0,0 +1,32 @@
+import { useState, useCallback, useEffect } from 'react';
+import { ModelCallRecord } from '../types';
+import { apiClient } from '../services/apiClient';
+
+// Model calls behind a saved assessment, loaded on demand for the debug panel
+export const useModelCallLog = (applicationId: string | null) => {
+  const [calls, setCalls] = useState<ModelCallRecord[] | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setCalls(null);
+    setError(null);
+  }, [applicationId]);
+
+  const loadCalls = useCallback(async () => {
+    if (!applicationId) return;
+
+    setIsLoading(true);
+    try {
+      setCalls(await apiClient.getApplicationModelCalls(applicationId));
+      setError(null);
+    } catch (loadError) {
+      console.error('Failed to load model call log:', loadError);
+      setError(loadError instanceof Error ? loadError.message : 'Failed to load model call log');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [applicationId]);
+
+  return { calls, isLoading, error, loadCalls };
+};
@@ -0,0 +1,31 @@
+import { useState, useEffect } from 'react';
+import { ModelConfiguration, ScoringConfiguration } from '../types';
+import { apiClient } from '../services/apiClient';
+
+// Models and scoring configured on the server, for display purposes
+export const useModelConfiguration = () => {
+  const [models, setModels] = useState<ModelConfiguration | null>(null);
+  const [scoring, setScoring] = useState<ScoringConfiguration | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    apiClient.checkHealth()
+      .then(health => {
+        if (cancelled) return;
+        if (health.models) {
+          setModels(health.models);
+        }
+        if (health.scoring) {
+          setScoring(health.scoring);
+        }
+      })
+      .catch(error => console.warn('Could not load model configuration:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { models, scoring };
+};
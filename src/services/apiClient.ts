@@ -1,28 +1,106 @@
+import { ProcessingJob, JobEvent, ApplicantInfo, ApplicationSummary, ApplicationRecord, HealthStatus, ServerFile, DocumentClassification, ScoringMode, CreditMemoFormat, OverridableField, ReviewStatus, ModelCallRecord, AuthStatus, LoginResponse, UploadResponse, LoanRequest } from '../types';
+
 const API_BASE_URL = import.meta.env.VITE_API_BASE_URL || 'http://localhost:3001/api';
 
+const AUTH_TOKEN_STORAGE_KEY = 'creditAnalyzer.authToken';
+
+// A failed request the server described with a machine-readable code
+export class ApiRequestError extends Error {
+  readonly code?: string;
+
+  constructor(message: string, code?: string) {
+    super(message);
+    this.name = 'ApiRequestError';
+    this.code = code;
+  }
+}
+
 export class ApiClient {
-  async uploadFiles(files: File[]): Promise<any> {
+  private authToken: string | null = localStorage.getItem(AUTH_TOKEN_STORAGE_KEY);
+  private onUnauthorized: (() => void) | null = null;
+
+  setAuthToken(token: string | null) {
+    this.authToken = token;
+    if (token) {
+      localStorage.setItem(AUTH_TOKEN_STORAGE_KEY, token);
+    } else {
+      localStorage.removeItem(AUTH_TOKEN_STORAGE_KEY);
+    }
+  }
+
+  // Called when the server rejects the session, e.g. once the token expires
+  setUnauthorizedHandler(handler: (() => void) | null) {
+    this.onUnauthorized = handler;
+  }
+
+  async getAuthStatus(): Promise<AuthStatus> {
+    const response = await this.send(`${API_BASE_URL}/auth/me`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to check sign-in');
+    }
+
+    return response.json();
+  }
+
+  async login(username: string, password: string): Promise<LoginResponse> {
+    const response = await fetch(`${API_BASE_URL}/auth/login`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ username, password })
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Sign-in failed');
+    }
+
+    const data: LoginResponse = await response.json();
+    this.setAuthToken(data.token);
+    return data;
+  }
+
+  async uploadFiles(files: File[]): Promise<UploadResponse> {
     const formData = new FormData();
     
     files.forEach(file => {
       formData.append('documents', file);
     });
 
-    const response = await fetch(`${API_BASE_URL}/upload`, {
+    const response = await this.send(`${API_BASE_URL}/upload`, {
       method: 'POST',
       body: formData
     });
 
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(error.error || 'Upload failed');
+      throw new ApiRequestError(error.error || 'Upload failed', error.code);
     }
 
     return response.json();
   }
 
-  async processDocuments(files: any[]): Promise<any> {
-    const response = await fetch(`${API_BASE_URL}/process`, {
+  // Resolves when the password opens the encrypted PDF; rejects with code INCORRECT_PASSWORD otherwise
+  async unlockFile(file: ServerFile, password: string): Promise<void> {
+    const response = await this.send(`${API_BASE_URL}/unlock`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ file: { ...file, password } })
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new ApiRequestError(error.error || 'Could not check the password', error.code);
+    }
+  }
+
+  async classifyDocuments(files: ServerFile[]): Promise<DocumentClassification[]> {
+    const response = await this.send(`${API_BASE_URL}/classify`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json'
@@ -30,6 +108,29 @@ export class ApiClient {
       body: JSON.stringify({ files })
     });
 
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Classification failed');
+    }
+
+    const data = await response.json();
+    return data.classifications;
+  }
+
+  async processDocuments(
+    files: ServerFile[],
+    applicant?: ApplicantInfo,
+    scoringMode?: ScoringMode,
+    loanRequest?: LoanRequest
+  ): Promise<{ success: boolean; jobId: string; job: ProcessingJob }> {
+    const response = await this.send(`${API_BASE_URL}/process`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ files, applicant, scoringMode, loanRequest })
+    });
+
     if (!response.ok) {
       const error = await response.json();
       throw new Error(error.error || 'Processing failed');
@@ -38,8 +139,162 @@ export class ApiClient {
     return response.json();
   }
 
-  async checkHealth(): Promise<any> {
-    const response = await fetch(`${API_BASE_URL}/health`);
+  async getJob(jobId: string): Promise<ProcessingJob> {
+    const response = await this.send(`${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to fetch job status');
+    }
+
+    const data = await response.json();
+    return data.job;
+  }
+
+  // Subscribe to live job progress over Server-Sent Events. Returns a function
+  // that closes the stream.
+  subscribeToJobEvents(jobId: string, onEvent: (event: JobEvent) => void): () => void {
+    const source = new EventSource(this.withAccessToken(`${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}/events`));
+
+    source.onmessage = (message) => {
+      try {
+        const event: JobEvent = JSON.parse(message.data);
+        onEvent(event);
+
+        // The server closes the stream once the job finishes; don't reconnect
+        if (event.type.startsWith('job_')) {
+          source.close();
+        }
+      } catch (parseError) {
+        console.warn('Ignoring malformed job event:', parseError);
+      }
+    };
+
+    return () => source.close();
+  }
+
+  async cancelJob(jobId: string): Promise<ProcessingJob> {
+    const response = await this.send(`${API_BASE_URL}/jobs/${encodeURIComponent(jobId)}/cancel`, {
+      method: 'POST'
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to cancel job');
+    }
+
+    const data = await response.json();
+    return data.job;
+  }
+
+  async listApplications(): Promise<ApplicationSummary[]> {
+    const response = await this.send(`${API_BASE_URL}/applications`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to load applications');
+    }
+
+    const data = await response.json();
+    return data.applications;
+  }
+
+  async getApplication(applicationId: string): Promise<ApplicationRecord> {
+    const response = await this.send(`${API_BASE_URL}/applications/${encodeURIComponent(applicationId)}`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to load application');
+    }
+
+    const data = await response.json();
+    return data.application;
+  }
+
+  async overrideApplication(
+    applicationId: string,
+    override: { field: OverridableField; value: number | null; justification: string; user: string }
+  ): Promise<ApplicationRecord> {
+    const response = await this.send(`${API_BASE_URL}/applications/${encodeURIComponent(applicationId)}/overrides`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(override)
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to save override');
+    }
+
+    const data = await response.json();
+    return data.application;
+  }
+
+  async changeApplicationStatus(
+    applicationId: string,
+    change: { status: ReviewStatus; comment?: string; user: string }
+  ): Promise<ApplicationRecord> {
+    const response = await this.send(`${API_BASE_URL}/applications/${encodeURIComponent(applicationId)}/status`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify(change)
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to change review status');
+    }
+
+    const data = await response.json();
+    return data.application;
+  }
+
+  getPagePreviewUrl(fileId: string, pageNumber: number): string {
+    return this.withAccessToken(`${API_BASE_URL}/files/${encodeURIComponent(fileId)}/pages/${pageNumber}/preview`);
+  }
+
+  async getApplicationModelCalls(applicationId: string): Promise<ModelCallRecord[]> {
+    const response = await this.send(`${API_BASE_URL}/applications/${encodeURIComponent(applicationId)}/model-calls`);
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to load model call log');
+    }
+
+    const data = await response.json();
+    return data.calls;
+  }
+
+  async exportApplication(applicationId: string, format: CreditMemoFormat): Promise<Blob> {
+    const response = await this.send(
+      `${API_BASE_URL}/applications/${encodeURIComponent(applicationId)}/export?format=${format}`
+    );
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to export credit memo');
+    }
+
+    return response.blob();
+  }
+
+  async deleteApplication(applicationId: string): Promise<void> {
+    const response = await this.send(`${API_BASE_URL}/applications/${encodeURIComponent(applicationId)}`, {
+      method: 'DELETE'
+    });
+
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.error || 'Failed to delete application');
+    }
+  }
+
+  async checkHealth(): Promise<HealthStatus> {
+    const response = await this.send(`${API_BASE_URL}/health`);
     
     if (!response.ok) {
       throw new Error('Health check failed');
@@ -47,6 +302,27 @@ export class ApiClient {
 
     return response.json();
   }
+
+  // fetch with the session token attached
+  private async send(url: string, init: RequestInit = {}): Promise<Response> {
+    const headers = new Headers(init.headers);
+    if (this.authToken) {
+      headers.set('Authorization', `Bearer ${this.authToken}`);
+    }
+
+    const response = await fetch(url, { ...init, headers });
+    if (response.status === 401 && this.authToken) {
+      this.setAuthToken(null);
+      this.onUnauthorized?.();
+    }
+    return response;
+  }
+
+  // EventSource and <img> can't send headers, so the token goes in the query string
+  private withAccessToken(url: string): string {
+    if (!this.authToken) return url;
+    return `${url}${url.includes('?') ? '&' : '?'}access_token=${encodeURIComponent(this.authToken)}`;
+  }
 }
 
 export const apiClient = new ApiClient();
\ No newline at end of file
@@ -1,3 +1,73 @@
+export type DocumentType =
+  | 'legal'
+  | 'financial'
+  | 'bank_statement'
+  | 'payslip'
+  | 'tax_return'
+  | 'invoice'
+  | 'identity'
+  | 'unknown';
+
+export interface ServerFile {
+  id: string;
+  uploadIndex?: number; // Position in the upload request
+  originalName: string;
+  filename: string;
+  path: string;
+  size: number;
+  mimetype: string;
+  sha256?: string;
+  duplicates?: DuplicateDocument[];
+  passwordProtected?: boolean; // Encrypted PDF that needs its password to be read
+  password?: string; // Sent with classify and process requests only
+  documentType?: DocumentType;
+  classification?: DocumentClassification;
+}
+
+// The same content uploaded earlier in the request, or part of a saved assessment
+export interface DuplicateDocument {
+  source: 'upload' | 'application';
+  fileName: string;
+  applicationId?: string;
+  applicantName?: string;
+  referenceNumber?: string;
+  createdAt?: string;
+}
+
+export type UploadErrorCode =
+  | 'UNSUPPORTED_FILE_TYPE'
+  | 'UNRECOGNIZED_CONTENT'
+  | 'CONTENT_TYPE_MISMATCH'
+  | 'EMPTY_FILE'
+  | 'FILE_TOO_LARGE'
+  | 'TOO_MANY_FILES'
+  | 'NO_FILES'
+  | 'UPLOAD_FAILED';
+
+export interface UploadRejection {
+  uploadIndex: number;
+  originalName: string;
+  code: UploadErrorCode;
+  error: string;
+}
+
+export interface UploadResponse {
+  success: boolean;
+  files: ServerFile[];
+  rejected: UploadRejection[];
+  message: string;
+}
+
+export interface DocumentClassification {
+  fileId?: string;
+  documentType: DocumentType;
+  detectedType?: DocumentType;
+  confidence: number;
+  source: 'model' | 'user';
+  reasoning?: string;
+  error?: string;
+}
+
 export interface UploadedFile {
   id: string;
   name: string;
@@ -6,25 +76,206 @@ export interface UploadedFile {
   file: File;
   status: 'pending' | 'processing' | 'completed' | 'error';
   progress: number;
+  currentStep?: string;
+  serverFile?: ServerFile;
+  uploadError?: { code: string; message: string };
+  // Password of an encrypted PDF, kept in memory until processing finishes
+  password?: string;
+  passwordStatus?: 'required' | 'checking' | 'incorrect' | 'unlocked';
+  classificationStatus?: 'classifying' | 'classified' | 'failed';
+  classification?: DocumentClassification;
+  documentType?: DocumentType;
 }
 
 export interface ExtractedData {
-  documentType: 'legal' | 'financial' | 'bank_statement' | 'unknown';
+  documentType: DocumentType;
   keyInformation: {
     [key: string]: string | number;
   };
   riskFactors: string[];
-  financialMetrics?: {
-    revenue?: number;
-    expenses?: number;
-    netIncome?: number;
-    assets?: number;
-    liabilities?: number;
-  };
+  // Monetary metrics are in the base currency
+  financialMetrics?: FinancialMetrics | null;
+  // The same metrics in the document's own currency, when it isn't the base currency
+  originalFinancialMetrics?: FinancialMetrics;
+  currency?: CurrencyConversion;
+  cashFlow?: CashFlowMetrics | null;
+  transactions?: LedgerTransaction[];
+  // Financial statements: figures per reporting period, and ratios of the latest one
+  periods?: FinancialPeriod[];
+  ratios?: FinancialRatios | null;
+  // Payslips and invoices read from the document, amounts in its own currency
+  payslips?: Payslip[];
+  invoices?: Invoice[];
+  provenance?: Record<string, FieldProvenance>;
   confidence?: number;
   error?: string;
 }
 
+export interface FinancialMetrics {
+  revenue?: number;
+  expenses?: number;
+  netIncome?: number;
+  assets?: number;
+  liabilities?: number;
+  accountBalance?: number | null;
+  monthlyIncome?: number;
+  monthlyExpenses?: number;
+  averageDailyBalance?: number | null;
+  annualRevenue?: number;
+  netProfit?: number;
+  totalAssets?: number;
+  totalLiabilities?: number;
+  cashFlow?: number;
+  nsfCount?: number;
+  overdraftCount?: number;
+  incomeRegularityScore?: number;
+  netMonthlyIncome?: number;
+  annualIncome?: number;
+  taxableIncome?: number;
+  totalTax?: number;
+  totalInvoiced?: number;
+  outstandingReceivables?: number;
+  overdueReceivables?: number;
+  // Percentages of outstanding receivables and of invoiced amounts
+  overdueShare?: number | null;
+  largestCustomerShare?: number | null;
+}
+
+// The document's currency and the rate its amounts were converted to the base
+// currency at; `rate` is null when no rate is configured for it
+export interface CurrencyConversion {
+  code: string;
+  detectedFrom: 'document' | 'amounts' | 'page_text' | null;
+  baseCurrency: string;
+  rate: number | null;
+  rateDate: string | null;
+}
+
+// Flows cover `months` ending on `periodEnd`; balance sheet figures are as of
+// `periodEnd`. Amounts are in the document's own currency.
+export interface FinancialPeriod {
+  periodStart: string | null;
+  periodEnd: string;
+  months: number | null;
+  incomeStatement: {
+    revenue?: number;
+    costOfSales?: number;
+    operatingIncome?: number;
+    interestExpense?: number;
+    depreciation?: number;
+    netProfit?: number;
+  } | null;
+  balanceSheet: {
+    currentAssets?: number;
+    totalAssets?: number;
+    currentLiabilities?: number;
+    totalLiabilities?: number;
+    totalEquity?: number;
+    totalDebt?: number;
+  } | null;
+  cashFlowStatement: {
+    operatingCashFlow?: number;
+    debtRepayments?: number;
+  } | null;
+  pages: number[];
+}
+
+// Margins and growth are percentages, the rest multiples
+export interface FinancialRatios {
+  periodStart: string | null;
+  periodEnd: string;
+  basis: 'reported' | 'aggregated' | 'annualized' | 'balance_sheet_only';
+  grossMargin: number | null;
+  operatingMargin: number | null;
+  netMargin: number | null;
+  currentRatio: number | null;
+  debtToEquity: number | null;
+  debtToAssets: number | null;
+  debtServiceCoverage: number | null;
+  revenueGrowth: number | null;
+  netProfitGrowth: number | null;
+  priorPeriodEnd: string | null;
+}
+
+export type PayFrequency = 'weekly' | 'biweekly' | 'semimonthly' | 'monthly' | 'annual';
+
+export interface Payslip {
+  payDate: string | null;
+  periodStart: string | null;
+  periodEnd: string | null;
+  payFrequency: PayFrequency;
+  grossPay: number | null;
+  netPay: number | null;
+  taxWithheld: number | null;
+  yearToDateGross: number | null;
+  page: number | null;
+}
+
+export interface Invoice {
+  invoiceNumber: string | null;
+  customerName: string | null;
+  issueDate: string | null;
+  dueDate: string | null;
+  totalAmount: number;
+  amountOutstanding: number | null;
+  overdue: boolean;
+  page: number | null;
+}
+
+// Where on the page a value is printed, as fractions of the page size
+export type PageRegion = [left: number, top: number, right: number, bottom: number];
+
+export interface FieldProvenance {
+  pageNumber: number | null;
+  extractionSource: PageSource | null;
+  region: PageRegion | null;
+  pages: number[];
+  conflicts: { pageNumber: number; value: unknown }[];
+  computed: boolean;
+}
+
+export interface LedgerTransaction {
+  date: string;
+  description: string;
+  amount: number;
+  balance: number | null;
+  page: number | null;
+}
+
+export interface MonthlyCashFlow {
+  month: string;
+  inflows: number;
+  outflows: number;
+  net: number;
+  depositCount: number;
+}
+
+export interface CashFlowMetrics {
+  periodStart: string;
+  periodEnd: string;
+  transactionCount: number;
+  totalInflows: number;
+  totalOutflows: number;
+  averageMonthlyInflows: number;
+  averageMonthlyOutflows: number;
+  monthly: MonthlyCashFlow[];
+  openingBalance: number | null;
+  endingBalance: number | null;
+  averageDailyBalance: number | null;
+  lowestBalance: number | null;
+  negativeBalanceDays: number;
+  nsfCount: number;
+  overdraftCount: number;
+  largestDeposits: Omit<LedgerTransaction, 'balance'>[];
+  incomeRegularity: {
+    score: number;
+    monthsWithDeposits: number;
+    totalMonths: number;
+    coefficientOfVariation: number | null;
+    recurringSources: { source: string; months: number; total: number }[];
+  };
+}
+
 export interface CreditRecommendation {
   score: number;
   rating: 'Excellent' | 'Good' | 'Fair' | 'Poor' | 'Very Poor';
@@ -36,13 +287,101 @@ export interface CreditRecommendation {
   interestRate?: number;
   reasoning?: string;
   analysisModel?: string;
+  // Present when the assessment came with a loan request
+  affordability?: Affordability | null;
   generatedAt?: string;
 }
 
+export type ApplicantType = 'individual' | 'business';
+
+export type LoanProductType =
+  | 'term_loan'
+  | 'personal_loan'
+  | 'mortgage'
+  | 'vehicle_loan'
+  | 'equipment_finance'
+  | 'working_capital'
+  | 'credit_line';
+
+export type CollateralType =
+  | 'none'
+  | 'property'
+  | 'vehicle'
+  | 'equipment'
+  | 'receivables'
+  | 'cash_deposit'
+  | 'guarantee'
+  | 'other';
+
+// Amounts in the base currency
+export interface LoanRequest {
+  amount: number;
+  termMonths: number;
+  purpose: string | null;
+  productType: LoanProductType;
+  applicantType: ApplicantType;
+  collateralType: CollateralType;
+  collateralValue: number | null;
+  existingMonthlyDebt: number | null;
+}
+
+// The loan request form, before amount and term are filled in
+export type LoanRequestInput = Omit<LoanRequest, 'amount' | 'termMonths'> & {
+  amount: number | null;
+  termMonths: number | null;
+};
+
+export interface InstallmentRow {
+  month: number;
+  payment: number;
+  principal: number;
+  interest: number;
+  balance: number;
+}
+
+// Repayment of the requested loan at the recommended rate, and the largest
+// amount within the debt-to-income (individuals) or debt service coverage
+// (businesses) policy. Percentages for debt-to-income and loan to value.
+export interface Affordability {
+  loanRequest: LoanRequest;
+  interestRate: number;
+  installment: number;
+  totalInterest: number;
+  totalRepayment: number;
+  basis: 'debt_to_income' | 'debt_service_coverage';
+  incomeSource: 'payslips_and_tax_returns' | 'bank_statements' | 'financial_statements' | null;
+  monthlyIncome: number | null;
+  monthlyCashAvailable: number | null;
+  existingMonthlyDebt: number;
+  debtToIncome: number | null;
+  maxDebtToIncome: number | null;
+  debtServiceCoverage: number | null;
+  minDebtServiceCoverage: number | null;
+  loanToValue: number | null;
+  recommendedAmount: number | null;
+  status: 'affordable' | 'reduced' | 'unaffordable' | 'insufficient_data';
+  schedule: InstallmentRow[];
+}
+
+export type PageSource = 'text_layer' | 'vision';
+
+export interface ProcessedPage {
+  pageNumber: number;
+  source: PageSource;
+  hasPreview?: boolean;
+  status?: 'extracted' | 'failed';
+  fromCache?: boolean; // Extraction reused from an earlier run on the same page
+  error?: string; // Why extraction failed, after retries
+}
+
 export interface ProcessingResult {
   fileId: string;
   fileName: string;
+  sha256?: string;
   extractedData: ExtractedData;
+  classification?: DocumentClassification;
+  pageCount?: number;
+  pages?: ProcessedPage[];
   imageCount: number;
   processingTime: number;
   error?: string;
@@ -55,17 +394,312 @@ export interface AnalysisResults {
   confidence: number;
   documentSummary?: {
     totalDocuments: number;
+    baseCurrency?: string;
     documentTypes: string[];
+    documentTypeCounts?: Partial<Record<DocumentType, number>>;
     averageConfidence: number;
     totalProcessingTime: number;
     totalImages: number;
   };
   modelInfo?: {
+    provider?: string;
     extractionModel: string;
     analysisModel: string;
+    scoringMode?: ScoringMode;
     totalProcessingTime?: number;
     error?: string;
   };
+  scorecard?: ScorecardEvaluation | null;
+  reconciliation?: ReconciliationReport;
+  application?: ApplicationSummary;
+}
+
+export type ReconciliationCheckType = 'income' | 'name' | 'registration_number';
+
+export interface ReconciliationCheck {
+  check: ReconciliationCheckType;
+  label: string;
+  status: 'consistent' | 'discrepancy' | 'insufficient_data';
+  tolerance?: number;
+  discrepancyCount: number;
+}
+
+export interface Discrepancy {
+  check: ReconciliationCheckType;
+  field: string;
+  severity: 'low' | 'medium' | 'high';
+  message: string;
+  difference?: number;
+  tolerance?: number;
+  values: {
+    fileId: string;
+    fileName: string;
+    documentType: DocumentType;
+    value: string | number;
+  }[];
+}
+
+export interface ReconciliationReport {
+  checks: ReconciliationCheck[];
+  discrepancies: Discrepancy[];
+}
+
+export type ScoringMode = 'llm' | 'scorecard';
+
+export interface ScorecardContribution {
+  variable: string;
+  label: string;
+  value: number | null;
+  bin: string;
+  points: number;
+}
+
+export interface ScorecardEvaluation {
+  name: string;
+  version: string;
+  effectiveDate: string | null;
+  baseScore: number;
+  rawScore: number;
+  score: number;
+  rating: CreditRecommendation['rating'];
+  riskLevel: CreditRecommendation['riskLevel'];
+  maxCreditLimit: number;
+  interestRate: number;
+  contributions: ScorecardContribution[];
+}
+
+export interface ApplicantInfo {
+  name: string;
+  referenceNumber: string;
+}
+
+export interface ApplicationSummary {
+  id: string;
+  applicantName: string;
+  referenceNumber: string;
+  createdAt: string;
+  updatedAt: string;
+  score: number | null;
+  rating: CreditRecommendation['rating'] | null;
+  riskLevel: AnalysisResults['overallRisk'] | null;
+  documentCount: number;
+  reviewStatus: ReviewStatus;
+}
+
+export type ReviewStatus = 'draft' | 'under_review' | 'approved' | 'declined' | 'referred';
+
+export type OverridableField = 'score' | 'maxCreditLimit' | 'interestRate';
+
+export interface ReviewOverride {
+  value: number;
+  originalValue: number | null;
+  justification: string;
+  user: string;
+  at: string;
+}
+
+export interface ReviewDecision {
+  status: Extract<ReviewStatus, 'approved' | 'declined' | 'referred'>;
+  user: string;
+  at: string;
+  comment: string | null;
+}
+
+export interface ApplicationReview {
+  status: ReviewStatus;
+  overrides: Partial<Record<OverridableField, ReviewOverride>>;
+  decision: ReviewDecision | null;
+  allowedTransitions: ReviewStatus[];
+}
+
+export interface AuditTrailEntry {
+  id: string;
+  at: string;
+  user: string;
+  action: 'override' | 'override_removed' | 'status_changed';
+  field?: OverridableField;
+  previousValue: number | string | null;
+  newValue: number | string | null;
+  justification?: string;
+  comment?: string | null;
+}
+
+export type CreditMemoFormat = 'pdf' | 'json';
+
+export interface ApplicationRecord {
+  id: string;
+  applicantName: string;
+  referenceNumber: string;
+  jobId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  results: AnalysisResults;
+  review: ApplicationReview;
+  auditTrail: AuditTrailEntry[];
+}
+
+export type ModelCallPurpose = 'classification' | 'extraction' | 'credit_recommendation';
+
+export type ModelCallParseStatus = 'valid' | 'invalid_json' | 'schema_invalid';
+
+export interface ModelCallRecord {
+  id: string;
+  runId: string;
+  fileId: string | null;
+  fileName: string | null;
+  page: number | null;
+  at: string;
+  purpose: ModelCallPurpose | null;
+  attempt: number;
+  retry?: number; // Repeat of the same request after a transient failure
+  provider: string;
+  model: string;
+  options: {
+    temperature: number;
+    topP: number;
+    topK: number;
+    timeout: number;
+    format: Record<string, unknown> | null;
+  };
+  prompt: string;
+  image: { sha256: string; bytes: number } | null;
+  status: 'succeeded' | 'failed';
+  rawResponse: string | null;
+  latencyMs: number;
+  parse: { status: ModelCallParseStatus; errors: { path: string; message: string }[] } | null;
+  error: string | null;
+}
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export type JobStage = 'queued' | 'extracting' | 'analyzing' | 'completed' | 'failed' | 'cancelled';
+
+export type JobFileStep = 'queued' | 'rasterizing' | 'extracting' | 'completed' | 'failed' | 'cancelled';
+
+export interface JobFileStatus {
+  fileId: string;
+  fileName: string;
+  status: 'pending' | 'processing' | 'completed' | 'error';
+  step: JobFileStep;
+  progress: number;
+  pageCount: number | null;
+  pagesFromTextLayer: number;
+  pagesRasterized: number;
+  pagesExtracted: number;
+  pagesFailed: number;
+  documentType?: DocumentType;
+  classificationConfidence?: number;
+  message?: string;
+  error?: string;
+}
+
+export interface JobProgressSnapshot {
+  id: string;
+  status: JobStatus;
+  stage: JobStage;
+  progress: number;
+  files: JobFileStatus[];
+  error: string | null;
+  updatedAt: string;
+}
+
+export interface ProcessingJob extends JobProgressSnapshot {
+  results: AnalysisResults | null;
+  applicationId: string | null;
+  createdAt: string;
+  startedAt: string | null;
+  completedAt: string | null;
+}
+
+export type JobEventType =
+  | 'upload_received'
+  | 'file_started'
+  | 'file_classified'
+  | 'page_text_extracted'
+  | 'page_rasterized'
+  | 'page_extraction_started'
+  | 'page_extracted'
+  | 'page_failed'
+  | 'file_completed'
+  | 'file_failed'
+  | 'documents_reconciled'
+  | 'analysis_started'
+  | 'analysis_completed'
+  | 'job_completed'
+  | 'job_failed'
+  | 'job_cancelled';
+
+export interface JobEvent {
+  type: JobEventType;
+  jobId: string;
+  sequence: number;
+  message: string;
+  timestamp: string;
+  fileId?: string;
+  fileName?: string;
+  page?: number;
+  pageCount?: number;
+  error?: string;
+  job: JobProgressSnapshot;
+}
+
+export interface ModelConfiguration {
+  provider: string;
+  baseURL?: string; // Admins only
+  extraction: string;
+  analysis: string;
+}
+
+export interface ScoringConfiguration {
+  mode: ScoringMode;
+  modes: ScoringMode[];
+  scorecard: {
+    name?: string;
+    version?: string;
+    effectiveDate?: string | null;
+    error?: string;
+  };
+}
+
+export interface HealthStatus {
+  status: 'healthy' | 'unhealthy';
+  timestamp: string;
+  // Admins only
+  ollama?: {
+    connected: boolean;
+    provider?: string;
+    visionModelAvailable?: boolean;
+    reasoningModelAvailable?: boolean;
+    models?: string[];
+    error?: string;
+  };
+  models?: ModelConfiguration;
+  scoring?: ScoringConfiguration;
+  error?: string;
+}
+
+export type UserRole = 'analyst' | 'underwriter' | 'admin';
+
+export type Permission = 'upload' | 'process' | 'view_results' | 'review' | 'view_pii' | 'admin';
+
+export interface AuthUser {
+  username: string;
+  displayName: string;
+  role: UserRole;
+  createdAt?: string;
+  apiKey?: boolean;
+}
+
+export interface AuthStatus {
+  authEnabled: boolean;
+  user: AuthUser | null;
+  permissions: Permission[];
+}
+
+export interface LoginResponse {
+  token: string;
+  expiresAt: string;
+  user: AuthUser;
 }
 
 export interface ApiError {